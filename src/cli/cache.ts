@@ -0,0 +1,50 @@
+import {
+  openDatabase,
+  clearConversationCache,
+  getConversationCacheStats,
+} from "../core/db.js";
+import { ensureInitialized } from "./util.js";
+
+export function cacheStatsCommand(): void {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+  const stats = getConversationCacheStats(db);
+  db.close();
+
+  if (stats.segments === 0) {
+    console.log("Conversation cache is empty.");
+    return;
+  }
+
+  console.log("Conversation cache (decrypted remote conversation uploads):");
+  console.log(`  Conversations: ${stats.conversations}`);
+  console.log(`  Segments:      ${stats.segments}`);
+  console.log(`  Messages:      ${stats.messages}`);
+  console.log(`  Size:          ${formatBytes(stats.bytes)}`);
+  console.log(`  Cached:        ${stats.oldest} → ${stats.newest}`);
+  console.log("\nClear with: sharedcontext cache clear [conversation-id]");
+}
+
+/**
+ * Drop cached segments so the next pull downloads them again.
+ */
+export function clearCacheCommand(conversationId: string | undefined): void {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+  const removed = clearConversationCache(db, conversationId);
+  db.close();
+
+  if (conversationId && removed === 0) {
+    console.log(`No cached segments for conversation ${conversationId}.`);
+    return;
+  }
+  console.log(
+    `Removed ${removed} cached segment(s)${conversationId ? ` of conversation ${conversationId}` : ""}.`
+  );
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GiB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MiB`;
+  return `${Math.round(bytes / 1024)} KiB`;
+}
@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from "uuid";
+import { createStorageBackend } from "../core/backends/index.js";
+import { openDatabase } from "../core/db.js";
+import { keychainLoad } from "../core/keychain.js";
+import { pushSnapshot } from "../core/sync.js";
+import { ensureInitialized, isIdentityAvailable, resolveIdentity } from "./util.js";
+
+export interface CompactCommandOptions {
+  testnet?: boolean;
+}
+
+/**
+ * Force a full-state snapshot so new devices can skip replaying older deltas.
+ */
+export async function compactCommand(options: CompactCommandOptions = {}): Promise<void> {
+  const dbPath = ensureInitialized();
+
+  const passphrase = keychainLoad();
+  if (!passphrase) {
+    throw new Error(
+      "No passphrase found in system keychain. Run `sharedcontext init` again to store it."
+    );
+  }
+  if (!isIdentityAvailable()) {
+    throw new Error("No local identity found. Run `sharedcontext init` first.");
+  }
+
+  const { encryptionKey, identityKey, walletAddress } = resolveIdentity(passphrase);
+  const backend = createStorageBackend({
+    privateKeyHex: Buffer.from(identityKey).toString("hex"),
+    testnet: options.testnet ?? process.env.SHAREDCONTEXT_TESTNET === "true",
+  });
+
+  const db = openDatabase(dbPath);
+  try {
+    const result = await pushSnapshot(
+      db,
+      encryptionKey,
+      walletAddress,
+      identityKey,
+      backend,
+      uuidv4()
+    );
+    console.log("Snapshot pushed.\n");
+    console.log(`  Facts:   ${result.factCount}`);
+    console.log(`  Parts:   ${result.parts}`);
+    console.log(`  Version: ${result.version}`);
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  openDatabase,
+  getFact,
+  upsertFact,
+  deleteFact,
+  getFactConflicts,
+  resolveFactConflicts,
+} from "../core/db.js";
+import { ensureInitialized } from "./util.js";
+import type { ConflictCandidate } from "../types.js";
+
+export function listConflictsCommand(options: { all?: boolean }): void {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+  const conflicts = getFactConflicts(db, { includeResolved: options.all });
+  db.close();
+
+  if (conflicts.length === 0) {
+    console.log("No fact conflicts.");
+    return;
+  }
+
+  for (const conflict of conflicts) {
+    const status = conflict.resolvedAt ? `resolved ${conflict.resolvedAt}` : "open";
+    console.log(`${conflict.key} (shard v${conflict.shard_version}, ${status})`);
+    conflict.candidates.forEach((candidate, i) => {
+      const marker = i === conflict.winner ? " [kept]" : "";
+      console.log(`  ${i + 1}. ${describeCandidate(candidate)}${marker}`);
+      console.log(`     Device: ${candidate.device_id ?? "unknown"}  Clock: ${candidate.hlc ?? "none"}`);
+    });
+    console.log();
+  }
+  console.log("Resolve with: sharedcontext conflicts resolve <key> <number>");
+}
+
+/**
+ * Apply one candidate of an open conflict as a new local change,
+ * so it wins on every device after the next push.
+ */
+export function resolveConflictCommand(key: string, choice: string): void {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+
+  const conflict = getFactConflicts(db).find((c) => c.key === key);
+  if (!conflict) {
+    db.close();
+    console.error(`No open conflict for key: ${key}`);
+    process.exit(1);
+  }
+
+  const index = Number.parseInt(choice, 10) - 1;
+  const candidate = conflict.candidates[index];
+  if (!candidate) {
+    db.close();
+    console.error(`Choose a candidate between 1 and ${conflict.candidates.length}.`);
+    process.exit(1);
+  }
+
+  if (candidate.op === "delete") {
+    deleteFact(db, key);
+  } else {
+    const existing = getFact(db, key);
+    const now = new Date().toISOString();
+    upsertFact(db, {
+      id: existing?.id ?? uuidv4(),
+      scope: candidate.scope ?? existing?.scope ?? "global",
+      key,
+      value: candidate.value ?? "",
+      tags: candidate.tags ?? [],
+      confidence: candidate.confidence ?? 1.0,
+      source_session: candidate.session_id,
+      created: existing?.created ?? now,
+      last_confirmed: now,
+      access_count: existing?.access_count ?? 0,
+    });
+  }
+  resolveFactConflicts(db, key);
+  db.close();
+
+  console.log(`Resolved ${key} with candidate ${index + 1}. It will sync on the next push.`);
+}
+
+function describeCandidate(candidate: ConflictCandidate): string {
+  if (candidate.op === "delete") return "(deleted)";
+  return `${candidate.value ?? ""}  [${(candidate.tags ?? []).join(", ")}]`;
+}
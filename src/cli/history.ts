@@ -0,0 +1,35 @@
+import { openDatabase, getFact, getFactHistory } from "../core/db.js";
+import { ensureInitialized } from "./util.js";
+
+export function historyCommand(key: string): void {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+  const current = getFact(db, key);
+  const history = getFactHistory(db, key);
+  db.close();
+
+  if (!current && history.length === 0) {
+    console.log(`No history found for key: ${key}`);
+    return;
+  }
+
+  console.log(`History for ${key}:\n`);
+  if (current) {
+    console.log(`  current (since ${current.last_confirmed})`);
+    console.log(`    Value:   ${current.value}`);
+    console.log(`    Tags:    ${current.tags.join(", ")}`);
+    console.log(`    Scope:   ${current.scope}`);
+    console.log(`    Session: ${current.source_session ?? "unknown"}`);
+    console.log();
+  }
+  for (const entry of history) {
+    const label = entry.change === "delete" ? "deleted" : "replaced";
+    console.log(`  ${entry.validFrom} → ${entry.replacedAt} (${label})`);
+    console.log(`    Value:      ${entry.fact.value}`);
+    console.log(`    Tags:       ${entry.fact.tags.join(", ")}`);
+    console.log(`    Scope:      ${entry.fact.scope}`);
+    console.log(`    Confidence: ${entry.fact.confidence}`);
+    console.log(`    Session:    ${entry.fact.source_session ?? "unknown"}`);
+    console.log();
+  }
+}
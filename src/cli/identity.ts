@@ -1,7 +1,9 @@
-import { openDatabase, getMeta } from "../core/db.js";
-import { TurboBackend } from "../core/backends/turbo.js";
+import { openDatabase, getMeta, getOutboxItems } from "../core/db.js";
+import { createStorageBackend } from "../core/backends/index.js";
+import { keychainLoad } from "../core/keychain.js";
+import { pushPublicKey } from "../core/sync.js";
 import { loadKey, loadIdentityPrivateKey } from "./init.js";
-import { prompt, ensureInitialized } from "./util.js";
+import { prompt, ensureInitialized, isIdentityAvailable, resolveIdentity } from "./util.js";
 
 export interface IdentityCommandOptions {
   testnet?: boolean;
@@ -14,12 +16,14 @@ export async function identityCommand(options: IdentityCommandOptions = {}): Pro
   const currentVersion = getMeta(db, "current_version") ?? "0";
   const lastPushed = getMeta(db, "last_pushed_version") ?? "0";
   const identityPushed = getMeta(db, "identity_pushed");
+  const waiting = getOutboxItems(db).length;
   db.close();
 
   console.log("SharedContext Identity\n");
   console.log(`  Wallet:          ${walletAddress}`);
   console.log(`  Local version:   ${currentVersion}`);
   console.log(`  Pushed version:  ${lastPushed}`);
+  console.log(`  Outbox:          ${waiting} upload(s) waiting`);
   console.log(`  Identity on AR:  ${identityPushed ? "yes (" + identityPushed + ")" : "no"}`);
 
   // Try to get balance if we can load the key
@@ -29,16 +33,48 @@ export async function identityCommand(options: IdentityCommandOptions = {}): Pro
       const key = loadKey(passphrase);
       const identityKey = loadIdentityPrivateKey(key);
 
-      const backend = new TurboBackend({
+      const backend = createStorageBackend({
         privateKeyHex: Buffer.from(identityKey).toString("hex"),
         testnet: options.testnet,
       });
 
       const balance = await backend.getBalance();
       console.log(`\n  Balance:         ${balance.balance}`);
-      console.log(`  Est. uploads:    ~${balance.estimatedUploads}`);
+      console.log(
+        `  Est. uploads:    ${Number.isFinite(balance.estimatedUploads) ? `~${balance.estimatedUploads}` : "unlimited"}`
+      );
     }
   } catch {
     // Skip balance on error
   }
 }
+
+/**
+ * Publish this wallet's public key so others can `share --to` it.
+ */
+export async function publishKeyCommand(options: IdentityCommandOptions = {}): Promise<void> {
+  ensureInitialized();
+  const passphrase = keychainLoad();
+  if (!passphrase) {
+    throw new Error(
+      "No passphrase found in system keychain. Run `sharedcontext init` again to store it."
+    );
+  }
+  if (!isIdentityAvailable()) {
+    throw new Error("No local identity found. Run `sharedcontext init` first.");
+  }
+
+  const { identityKey, walletAddress } = resolveIdentity(passphrase);
+  const backend = createStorageBackend({
+    privateKeyHex: Buffer.from(identityKey).toString("hex"),
+    testnet: options.testnet ?? process.env.SHAREDCONTEXT_TESTNET === "true",
+  });
+  const { txId, publicKey } = await pushPublicKey(walletAddress, identityKey, backend);
+
+  console.log("Public key published.\n");
+  console.log(`  Wallet:     ${walletAddress}`);
+  console.log(`  Public key: ${publicKey}`);
+  console.log(`  Tx ID:      ${txId}`);
+  console.log("\nOthers can now share with you:");
+  console.log(`  sharedcontext share <conversation-id> --to ${walletAddress}`);
+}
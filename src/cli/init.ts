@@ -13,7 +13,8 @@ import {
   PHRASE_WORD_COUNT,
 } from "../core/passphrase.js";
 import { pullAndReconstruct } from "../core/sync.js";
-import { fetchIdentity } from "../core/arweave.js";
+import { fetchIdentity } from "../core/remote.js";
+import { createStorageReader } from "../core/backends/index.js";
 import { prompt, toErrorMessage } from "./util.js";
 
 const BANNER = `
@@ -156,10 +157,11 @@ export async function initExistingCommand(): Promise<void> {
   console.log("\nQuerying Arweave and reconstructing local state...");
 
   try {
-    const result = await pullAndReconstruct(keypair.address, phrase, DB_PATH);
+    const reader = createStorageReader();
+    const result = await pullAndReconstruct(keypair.address, phrase, DB_PATH, reader);
 
     // Persist identity material locally so normal CLI flows work after restore.
-    const identity = await fetchIdentity(keypair.address);
+    const identity = await fetchIdentity(reader, keypair.address);
     if (!identity) {
       throw new Error(
         "Recovery failed: identity transaction not found on Arweave."
@@ -178,6 +180,11 @@ export async function initExistingCommand(): Promise<void> {
     }
 
     console.log(`Recovered ${result.factCount} fact(s), version ${result.version}.`);
+    if (result.conflictCount > 0) {
+      console.log(
+        `${result.conflictCount} fact(s) diverged across devices; review with \`sharedcontext conflicts\`.`
+      );
+    }
   } catch (err) {
     const { rmSync } = await import("fs");
     rmSync(SHAREDCONTEXT_DIR, { recursive: true, force: true });
@@ -1,27 +1,51 @@
-import { openDatabase, getAllFacts, getFactsByScope } from "../core/db.js";
+import {
+  openDatabase,
+  getAllFacts,
+  getFactsByScope,
+  getFactsAsOf,
+  getFactProvenance,
+} from "../core/db.js";
 import { ensureInitialized } from "./util.js";
 
-export function inspectCommand(options: { scope?: string }): void {
+export function inspectCommand(options: { scope?: string; asOf?: string }): void {
+  let asOf: string | undefined;
+  if (options.asOf) {
+    const parsed = Date.parse(options.asOf);
+    if (!Number.isFinite(parsed)) {
+      console.error(`Invalid date for --as-of: ${options.asOf}`);
+      process.exit(1);
+    }
+    asOf = new Date(parsed).toISOString();
+  }
+
   const dbPath = ensureInitialized();
   const db = openDatabase(dbPath);
-  const facts = options.scope
-    ? getFactsByScope(db, options.scope)
-    : getAllFacts(db);
+  let facts = asOf
+    ? getFactsAsOf(db, asOf)
+    : options.scope
+      ? getFactsByScope(db, options.scope)
+      : getAllFacts(db);
+  if (asOf && options.scope) {
+    facts = facts.filter((f) => f.scope === options.scope || f.scope === "global");
+  }
+  const provenance = getFactProvenance(db);
   db.close();
 
   if (facts.length === 0) {
-    console.log("No facts stored.");
+    console.log(asOf ? `No facts stored as of ${asOf}.` : "No facts stored.");
     return;
   }
 
-  console.log(`${facts.length} fact(s):\n`);
+  console.log(asOf ? `${facts.length} fact(s) as of ${asOf}:\n` : `${facts.length} fact(s):\n`);
   for (const fact of facts) {
     console.log(`  ${fact.key}`);
     console.log(`    Scope: ${fact.scope}`);
     console.log(`    Value: ${fact.value}`);
     console.log(`    Tags:  ${fact.tags.join(", ")}`);
     console.log(`    Confirmed: ${fact.last_confirmed}`);
-    console.log(`    Accessed: ${fact.access_count} times`);
+    if (!asOf) console.log(`    Accessed: ${fact.access_count} times`);
+    const origin = provenance.get(fact.key);
+    if (origin) console.log(`    Shared by: ${origin.wallet} (share ${origin.shareId})`);
     console.log();
   }
 }
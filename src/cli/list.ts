@@ -1,8 +1,14 @@
-import { existsSync, readFileSync, statSync } from "fs";
-import { discoverConversationFiles } from "../core/watcher.js";
-import { parseCursorTranscript, parseCursorJSONL } from "../core/parsers/cursor.js";
-import { parseClaudeCodeJSONL } from "../core/parsers/claude-code.js";
+import { existsSync } from "fs";
+import type Database from "better-sqlite3";
+import {
+  discoverConversationFiles,
+  getConversationSources,
+  parseConversationFile,
+} from "../core/sources.js";
 import { pullConversations } from "../core/sync.js";
+import { indexRemoteConversations } from "../core/conversation-index.js";
+import { getConversationSummary } from "../core/summarize.js";
+import { createStorageReader } from "../core/backends/index.js";
 import { keychainLoad } from "../core/keychain.js";
 import { getDbPath, getIdentityPath } from "./init.js";
 import {
@@ -12,10 +18,10 @@ import {
   openDatabase,
 } from "../core/db.js";
 import { ensureInitialized, resolveIdentity } from "./util.js";
-import type { Conversation } from "../types.js";
+import type { Conversation, ConversationClient } from "../types.js";
 
 interface ListConversationsOptions {
-  client?: "cursor" | "claude-code" | "any";
+  client?: ConversationClient | "any";
   project?: string;
   limit?: string;
   localOnly?: boolean;
@@ -29,6 +35,8 @@ export type ConversationSource = "local" | "remote" | "both" | "shared";
 
 export interface DiscoveredConversation extends Conversation {
   source: ConversationSource;
+  /** For shared conversations: the share and the wallet that sent it. */
+  share?: { shareId: string; wallet: string | null };
 }
 
 export async function listConversationsCommand(
@@ -55,20 +63,35 @@ export async function listConversationsCommand(
     return;
   }
 
+  // Summaries are cached in the database; without one, list without them.
+  const db = existsSync(getDbPath()) ? openDatabase(getDbPath()) : null;
+
   console.log(
     "Conversations (use the ID with future share commands):\n"
   );
   for (const conversation of items) {
     const preview = getPreview(conversation);
+    const summary = db ? getConversationSummary(db, conversation) : null;
     console.log(`- ID:      ${conversation.id}`);
     console.log(`  Client:  ${conversation.client}`);
     console.log(`  Project: ${conversation.project}`);
     console.log(`  Updated: ${conversation.updatedAt}`);
     console.log(`  Msgs:    ${conversation.messages.length}`);
     console.log(`  Source:  ${conversation.source}`);
+    if (conversation.share) {
+      console.log(`  Shared:  by ${conversation.share.wallet ?? "unknown"} (share ${conversation.share.shareId})`);
+    }
     if (preview) console.log(`  Preview: ${preview}`);
+    for (const decision of summary?.decisions.slice(-3) ?? []) {
+      console.log(`  Decided: ${decision}`);
+    }
+    for (const question of summary?.openQuestions.slice(-2) ?? []) {
+      console.log(`  Open:    ${question}`);
+    }
+    if (summary?.files.length) console.log(`  Files:   ${summary.files.slice(0, 5).join(", ")}`);
     console.log();
   }
+  db?.close();
 }
 
 export function listContextCommand(options: ListContextOptions): void {
@@ -136,25 +159,13 @@ export async function discoverConversations(options?: {
 }
 
 function loadLocalConversations(): Conversation[] {
-  const files = discoverConversationFiles();
+  const sources = getConversationSources();
   const conversations: Conversation[] = [];
 
-  for (const file of files) {
+  for (const file of discoverConversationFiles(sources)) {
     try {
-      const text = readFileSync(file.path, "utf-8");
-      let conversation: Conversation;
-      if (file.client === "claude-code") {
-        conversation = parseClaudeCodeJSONL(text, file.fileId, file.project);
-      } else if (file.format === "jsonl") {
-        conversation = parseCursorJSONL(text, file.fileId, file.project);
-      } else {
-        conversation = parseCursorTranscript(text, file.fileId, file.project);
-      }
+      const conversation = parseConversationFile(file, sources);
       if (conversation.messages.length > 0) {
-        if (file.client === "cursor") {
-          const stat = statSync(file.path);
-          conversation.updatedAt = new Date(stat.mtimeMs).toISOString();
-        }
         conversations.push(conversation);
       }
     } catch {
@@ -171,11 +182,27 @@ async function loadRemoteConversations(): Promise<Conversation[]> {
     return [];
   }
 
+  let db: Database.Database | undefined;
   try {
     const { encryptionKey, walletAddress } = resolveIdentity(passphrase);
-    return await pullConversations(walletAddress, encryptionKey);
+    // The database caches decrypted segments; listing works without it.
+    try {
+      db = openDatabase(getDbPath());
+    } catch {
+      db = undefined;
+    }
+    const remote = await pullConversations(walletAddress, encryptionKey, createStorageReader(), db);
+    try {
+      // Keep the search index current with what was just pulled.
+      if (db) indexRemoteConversations(db, remote);
+    } catch {
+      // Listing works without the index.
+    }
+    return remote;
   } catch {
     return [];
+  } finally {
+    db?.close();
   }
 }
 
@@ -189,7 +216,11 @@ function loadSharedConversations(): DiscoveredConversation[] {
     const db = openDatabase(dbPath);
     const imports = getSharedConversationImports(db);
     db.close();
-    return imports.map((row) => ({ ...row.conversation, source: "shared" as const }));
+    return imports.map((row) => ({
+      ...row.conversation,
+      source: "shared" as const,
+      share: { shareId: row.shareId, wallet: row.wallet },
+    }));
   } catch {
     return [];
   }
@@ -0,0 +1,116 @@
+import { createStorageBackend } from "../core/backends/index.js";
+import {
+  openDatabase,
+  getOutboxItems,
+  retryOutboxItems,
+  dropOutboxItem,
+  type OutboxItem,
+} from "../core/db.js";
+import { keychainLoad } from "../core/keychain.js";
+import { flushOutbox } from "../core/outbox.js";
+import { ensureInitialized, isIdentityAvailable, resolveIdentity } from "./util.js";
+
+export interface OutboxRetryOptions {
+  testnet?: boolean;
+}
+
+export function listOutboxCommand(options: { all?: boolean }): void {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+  const items = getOutboxItems(db, { includeSent: options.all });
+  db.close();
+
+  if (items.length === 0) {
+    console.log(options.all ? "Outbox is empty." : "No uploads waiting.");
+    return;
+  }
+
+  for (const item of items) {
+    console.log(`#${item.id}  ${item.label}  [${describeStatus(item)}]`);
+    if (item.txId) console.log(`     Tx: ${item.txId}`);
+    if (item.lastError) console.log(`     Last error: ${item.lastError}`);
+  }
+  if (items.some((item) => item.status !== "sent")) {
+    console.log("\nRetry now with: sharedcontext outbox retry [id]");
+    console.log("Discard with:   sharedcontext outbox drop <id>");
+  }
+}
+
+/**
+ * Reset the backoff of one (or every) unsent item and upload right away.
+ */
+export async function retryOutboxCommand(
+  id: string | undefined,
+  options: OutboxRetryOptions = {}
+): Promise<void> {
+  const dbPath = ensureInitialized();
+  const itemId = id === undefined ? undefined : parseItemId(id);
+
+  const passphrase = keychainLoad();
+  if (!passphrase) {
+    throw new Error(
+      "No passphrase found in system keychain. Run `sharedcontext init` again to store it."
+    );
+  }
+  if (!isIdentityAvailable()) {
+    throw new Error("No local identity found. Run `sharedcontext init` first.");
+  }
+
+  const { identityKey } = resolveIdentity(passphrase);
+  const backend = createStorageBackend({
+    privateKeyHex: Buffer.from(identityKey).toString("hex"),
+    testnet: options.testnet ?? process.env.SHAREDCONTEXT_TESTNET === "true",
+  });
+
+  const db = openDatabase(dbPath);
+  try {
+    if (retryOutboxItems(db, itemId) === 0) {
+      console.log(itemId === undefined ? "No uploads waiting." : `No unsent outbox item #${itemId}.`);
+      return;
+    }
+    const result = await flushOutbox(db, backend, {
+      force: true,
+      onSent: (item, txId) => console.log(`  Sent #${item.id} ${item.label} → ${txId}`),
+      onError: (item, message) => console.log(`  Failed #${item.id} ${item.label}: ${message}`),
+    });
+    console.log(`\nSent ${result.sent}, still waiting ${result.remaining}.`);
+  } finally {
+    db.close();
+  }
+}
+
+export function dropOutboxCommand(id: string): void {
+  const dbPath = ensureInitialized();
+  const itemId = parseItemId(id);
+  const db = openDatabase(dbPath);
+  const item = getOutboxItems(db).find((i) => i.id === itemId);
+  const dropped = dropOutboxItem(db, itemId);
+  db.close();
+
+  if (!dropped || !item) {
+    console.error(`No unsent outbox item #${itemId}.`);
+    process.exit(1);
+  }
+  console.log(`Dropped #${itemId} (${item.label}).`);
+  if (item.kind !== "conversation") {
+    console.log(
+      "Its changes are still in the local database. Run `sharedcontext compact` to publish the full state."
+    );
+  }
+}
+
+function parseItemId(id: string): number {
+  const parsed = Number.parseInt(id.replace(/^#/, ""), 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    console.error(`Invalid outbox item id: ${id}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function describeStatus(item: OutboxItem): string {
+  if (item.status === "sent") return `sent ${item.sentAt}`;
+  if (item.status === "failed") return `gave up after ${item.attempts} attempts`;
+  if (item.attempts === 0) return "queued";
+  return `retry ${item.attempts} at ${item.nextAttemptAt}`;
+}
@@ -0,0 +1,89 @@
+import { openDatabase, searchConversations, searchFacts } from "../core/db.js";
+import {
+  indexSharedConversations,
+  refreshLocalConversationIndex,
+} from "../core/conversation-index.js";
+import { ensureInitialized } from "./util.js";
+import type { ConversationClient } from "../types.js";
+
+interface SearchOptions {
+  scope?: string;
+  limit?: string;
+}
+
+interface SearchConversationsOptions {
+  client?: ConversationClient;
+  project?: string;
+  limit?: string;
+}
+
+export function searchFactsCommand(query: string, options: SearchOptions): void {
+  const dbPath = ensureInitialized();
+  const limit = parseLimit(options.limit);
+
+  const db = openDatabase(dbPath);
+  const results = searchFacts(db, query, options.scope ? limit * 5 : limit)
+    .filter(
+      (r) => !options.scope || r.fact.scope === options.scope || r.fact.scope === "global"
+    )
+    .slice(0, limit);
+  db.close();
+
+  if (results.length === 0) {
+    console.log(`No facts matching "${query}".`);
+    return;
+  }
+
+  console.log(`${results.length} fact(s) matching "${query}":\n`);
+  for (const { fact, score } of results) {
+    console.log(`  ${fact.key}  (score ${score.toFixed(2)})`);
+    console.log(`    Scope: ${fact.scope}`);
+    console.log(`    Value: ${fact.value}`);
+    console.log(`    Tags:  ${fact.tags.join(", ")}`);
+    console.log();
+  }
+}
+
+/**
+ * Search indexed conversation messages. Local files are re-indexed first
+ * when they changed; remote conversations are indexed when they are pulled
+ * (by the MCP server or `list conversations`), shared ones when imported.
+ */
+export function searchConversationsCommand(
+  query: string,
+  options: SearchConversationsOptions
+): void {
+  const dbPath = ensureInitialized();
+  const limit = parseLimit(options.limit);
+
+  const db = openDatabase(dbPath);
+  refreshLocalConversationIndex(db);
+  indexSharedConversations(db);
+  const hits = searchConversations(db, query, {
+    client: options.client,
+    project: options.project,
+    limit,
+  });
+  db.close();
+
+  if (hits.length === 0) {
+    console.log(`No conversation messages matching "${query}".`);
+    return;
+  }
+
+  console.log(`${hits.length} message(s) matching "${query}":\n`);
+  for (const hit of hits) {
+    console.log(`  ${hit.conversationId}  #${hit.messageIndex} ${hit.role}  (score ${hit.score.toFixed(2)})`);
+    console.log(`    Client:  ${hit.client}`);
+    console.log(`    Project: ${hit.project}`);
+    if (hit.sharedBy) console.log(`    Shared:  by ${hit.sharedBy}`);
+    console.log(`    When:    ${hit.timestamp ?? hit.updatedAt}`);
+    console.log(`    Match:   ${hit.snippet}`);
+    console.log();
+  }
+}
+
+function parseLimit(value: string | undefined): number {
+  const requested = Number.parseInt(value ?? "20", 10);
+  return Number.isFinite(requested) && requested > 0 ? requested : 20;
+}
@@ -1,19 +1,59 @@
 import { randomBytes } from "node:crypto";
 import { v4 as uuidv4 } from "uuid";
-import { TurboBackend } from "../core/backends/turbo.js";
+import { createStorageBackend, createStorageReader } from "../core/backends/index.js";
 import { encrypt } from "../core/crypto.js";
-import { signShard } from "../core/identity.js";
+import { eciesDecrypt, eciesEncrypt, parsePublicKey } from "../core/ecies.js";
+import { addressFromPublicKey, signShard } from "../core/identity.js";
+import { queryPublicKey } from "../core/remote.js";
 import { keychainLoad } from "../core/keychain.js";
+import { getAllFacts, openDatabase, saveCreatedShare, type CreatedShare } from "../core/db.js";
+import { buildFactBundle, type FactSharePayload } from "../core/fact-share.js";
+import { redactConversation, type ConversationRedactionFinding } from "../core/redact.js";
+import { formatConversationMessage } from "../core/conversation-slice.js";
+import { parseMessageList, selectMessages, type MessageSelection } from "../core/partial-share.js";
 import { discoverConversations } from "./list.js";
-import { isIdentityAvailable, resolveIdentity } from "./util.js";
-import type { Conversation } from "../types.js";
-import type { Tag } from "../core/storage.js";
+import {
+  ensureInitialized,
+  isIdentityAvailable,
+  prompt,
+  resolveIdentity,
+  toErrorMessage,
+} from "./util.js";
+import type { Conversation, ConversationClient } from "../types.js";
+import type { StorageReader, Tag } from "../core/storage.js";
 
 const SHARE_URL_PREFIX = "sharedcontext://share/";
 
-export interface ShareCommandOptions {
-  client?: "cursor" | "claude-code";
+export interface ShareCommandOptions extends MessageSelection {
+  client?: ConversationClient;
   verbose?: boolean;
+  /** Report what would be masked and stop before uploading. */
+  dryRun?: boolean;
+  /** Wallet addresses or public keys; only they can open the link. */
+  to?: string[];
+  /** Duration ("7d", "12h", "30m", "2w") or date after which sync refuses the share. */
+  expires?: string;
+  /** Preview the messages to upload and drop some before encrypting. */
+  review?: boolean;
+}
+
+export interface ShareFactsCommandOptions {
+  /** "project:<name>" or "global". */
+  scope: string;
+  /** Only facts carrying one of these tags. */
+  tag?: string[];
+  verbose?: boolean;
+  dryRun?: boolean;
+  to?: string[];
+  expires?: string;
+}
+
+interface PublishedShare {
+  shareId: string;
+  txId: string;
+  token: string;
+  url: string;
+  recipients: ShareRecipient[];
 }
 
 interface ShareTokenV1 {
@@ -23,15 +63,40 @@ interface ShareTokenV1 {
   t?: string; // optional Arweave tx id for index-free retrieval
 }
 
+/** Recipient-bound token: the share key is wrapped for each recipient. */
+interface ShareTokenV2 {
+  v: 2;
+  sid: string;
+  r: Array<{ a: string; w: string }>; // recipient wallet, base64url ECIES-wrapped key
+  t?: string;
+}
+
 export interface DecodedShareToken {
   shareId: string;
   key: Uint8Array;
   txId?: string;
+  /** Wallets the share was addressed to; absent for link-only shares. */
+  recipients?: string[];
+}
+
+/** The local identity, needed to open recipient-bound shares. */
+export interface ShareRecipientIdentity {
+  address: string;
+  privateKey: Uint8Array;
+}
+
+export interface ShareRecipient {
+  address: string;
+  publicKey: Uint8Array;
 }
 
 export interface ConversationSharePayload {
   v: 1;
   createdAt: string;
+  /** Signed with the payload, so it cannot be stripped from the share. */
+  expiresAt?: string;
+  /** Set when only part of the conversation was shared: its full length. */
+  totalMessages?: number;
   conversation: Conversation;
 }
 
@@ -39,8 +104,127 @@ export async function shareCommand(
   conversationId: string,
   options: ShareCommandOptions = {}
 ): Promise<void> {
-  const selected = await resolveConversation(conversationId, options.client);
+  const expiresAt = options.expires ? parseShareExpiry(options.expires) : undefined;
+  const original = await resolveConversation(conversationId, options.client);
+  const { conversation: selected, indexes } = selectMessages(original, options);
+  if (selected.messages.length === 0) {
+    throw new Error("No messages left to share with these options.");
+  }
+  const { conversation: redacted, findings } = redactConversation(selected);
+
+  if (options.dryRun) {
+    printRedactionReport(redacted, findings, indexes, original.messages.length);
+    return;
+  }
+
+  let shared = redacted;
+  let masked = findings.length;
+  if (options.review) {
+    const kept = await reviewMessages(redacted, indexes);
+    if (!kept) {
+      console.log("Cancelled. Nothing was uploaded.");
+      return;
+    }
+    shared = { ...redacted, messages: kept.map((position) => redacted.messages[position]) };
+    masked = findings.filter((f) => kept.includes(f.messageIndex)).length;
+  }
+
+  const partial = shared.messages.length < original.messages.length;
+  const payload: ConversationSharePayload = {
+    v: 1,
+    createdAt: new Date().toISOString(),
+    ...(expiresAt ? { expiresAt } : {}),
+    ...(partial ? { totalMessages: original.messages.length } : {}),
+    conversation: shared,
+  };
+  const published = await publishShare(payload, options.to, {
+    kind: "conversation",
+    conversationId: shared.id,
+    client: shared.client,
+    project: shared.project,
+    messageCount: shared.messages.length,
+  });
+
+  console.log(
+    partial
+      ? `Shared ${shared.messages.length} of ${original.messages.length} messages.`
+      : "Conversation shared."
+  );
+  printShareLink(published, expiresAt, masked);
+  if (options.verbose) {
+    console.log("\nDetails:");
+    console.log(`  Conversation: ${selected.id} (${selected.client})`);
+    printShareDetails(published);
+  }
+}
+
+/**
+ * Share the facts of one scope (e.g. a project's architecture decisions),
+ * optionally only those tagged with one of `options.tag`.
+ */
+export async function shareFactsCommand(options: ShareFactsCommandOptions): Promise<void> {
+  const scope = options.scope.trim();
+  if (scope !== "global" && !/^project:.+/.test(scope)) {
+    throw new Error(`Invalid --scope: ${scope} (use project:<name> or global)`);
+  }
+  const expiresAt = options.expires ? parseShareExpiry(options.expires) : undefined;
+
+  const db = openDatabase(ensureInitialized());
+  const { facts, findings } = buildFactBundle(getAllFacts(db), scope, options.tag);
+  db.close();
+  if (facts.length === 0) {
+    throw new Error(
+      `No facts in ${scope}${options.tag?.length ? ` tagged ${options.tag.join(" or ")}` : ""}.`
+    );
+  }
+
+  if (options.dryRun) {
+    console.log(`Dry run for ${facts.length} fact(s) in ${scope}. Nothing was uploaded.\n`);
+    for (const fact of facts) console.log(`  ${fact.key}: ${fact.value}`);
+    if (findings.length > 0) {
+      console.log(`\n${findings.length} value(s) would be masked:`);
+      for (const finding of findings) {
+        console.log(`  ${finding.key}  ${finding.rule}  ${finding.preview}`);
+      }
+    }
+    return;
+  }
+
+  const payload: FactSharePayload = {
+    v: 1,
+    kind: "facts",
+    createdAt: new Date().toISOString(),
+    ...(expiresAt ? { expiresAt } : {}),
+    scope,
+    ...(options.tag?.length ? { tags: options.tag } : {}),
+    facts,
+  };
+  const published = await publishShare(payload, options.to, {
+    kind: "facts",
+    conversationId: scope,
+    client: "",
+    project: scope === "global" ? "global" : scope.slice("project:".length),
+    messageCount: facts.length,
+  });
+
+  console.log(`Shared ${facts.length} fact(s) from ${scope}.`);
+  printShareLink(published, expiresAt, findings.length);
+  if (options.verbose) {
+    console.log("\nDetails:");
+    printShareDetails(published);
+  }
+}
 
+/**
+ * Encrypt a payload under a fresh share key, sign and upload it, remember
+ * the share locally, and build the token: the key itself, or the key
+ * wrapped for each `to` recipient.
+ */
+async function publishShare(
+  payload: ConversationSharePayload | FactSharePayload,
+  to: string[] | undefined,
+  record: Pick<CreatedShare, "kind" | "conversationId" | "client" | "project" | "messageCount">
+): Promise<PublishedShare> {
   const passphrase = keychainLoad();
   if (!passphrase) {
     throw new Error(
@@ -51,15 +235,11 @@ export async function shareCommand(
     throw new Error("No local identity found. Run `sharedcontext init` first.");
   }
 
-  const { encryptionKey, identityKey, walletAddress } = resolveIdentity(passphrase);
+  const { identityKey, walletAddress } = resolveIdentity(passphrase);
+  const recipients = to?.length ? await resolveShareRecipients(to, createStorageReader()) : [];
   const shareKey = new Uint8Array(randomBytes(32));
   const shareId = uuidv4();
 
-  const payload: ConversationSharePayload = {
-    v: 1,
-    createdAt: new Date().toISOString(),
-    conversation: selected,
-  };
   const serialized = new TextEncoder().encode(JSON.stringify(payload));
   const encrypted = encrypt(serialized, shareKey);
 
@@ -70,48 +250,219 @@ export async function shareCommand(
     { name: "Share-Id", value: shareId },
     { name: "Wallet", value: walletAddress },
     { name: "Timestamp", value: String(Math.floor(Date.now() / 1000)) },
+    ...(payload.expiresAt ? [{ name: "Expires-At", value: payload.expiresAt }] : []),
     { name: "Signature", value: signature },
     { name: "Content-Type", value: "application/octet-stream" },
   ];
 
-  const backend = new TurboBackend({
+  const backend = createStorageBackend({
     privateKeyHex: Buffer.from(identityKey).toString("hex"),
     testnet: process.env.SHAREDCONTEXT_TESTNET === "true",
   });
   const result = await backend.upload(encrypted, tags);
 
-  const token = encodeShareToken({
-    v: 1,
-    sid: shareId,
-    k: Buffer.from(shareKey).toString("base64url"),
-    t: result.txId,
+  const db = openDatabase(ensureInitialized());
+  saveCreatedShare(db, {
+    ...record,
+    shareId,
+    txId: result.txId,
+    recipients: recipients.length > 0 ? recipients.map((r) => r.address) : null,
+    expiresAt: payload.expiresAt ?? null,
   });
-  const url = `${SHARE_URL_PREFIX}${token}`;
+  db.close();
+
+  const token = encodeShareToken(
+    recipients.length > 0
+      ? {
+          v: 2,
+          sid: shareId,
+          r: recipients.map((recipient) => ({
+            a: recipient.address,
+            w: Buffer.from(eciesEncrypt(shareKey, recipient.publicKey)).toString("base64url"),
+          })),
+          t: result.txId,
+        }
+      : {
+          v: 1,
+          sid: shareId,
+          k: Buffer.from(shareKey).toString("base64url"),
+          t: result.txId,
+        }
+  );
+  return { shareId, txId: result.txId, token, url: `${SHARE_URL_PREFIX}${token}`, recipients };
+}
 
-  console.log("Conversation shared.");
-  console.log(`Link: ${url}`);
+function printShareLink(published: PublishedShare, expiresAt: string | undefined, masked: number): void {
+  if (published.recipients.length > 0) {
+    console.log(`Only ${published.recipients.map((r) => r.address).join(", ")} can open this link.`);
+  }
+  if (expiresAt) {
+    console.log(`Expires ${expiresAt}.`);
+  }
+  if (masked > 0) {
+    console.log(`Masked ${masked} secret(s); run with --dry-run to see them.`);
+  }
+  console.log(`Link: ${published.url}`);
   console.log("\nImport on another device:");
-  console.log(`sharedcontext sync ${url}`);
+  console.log(`sharedcontext sync ${published.url}`);
+}
 
-  if (options.verbose) {
-    console.log("\nDetails:");
-    console.log(`  Conversation: ${selected.id} (${selected.client})`);
-    console.log(`  Share ID:     ${shareId}`);
-    console.log(`  Tx ID:        ${result.txId}`);
-    console.log(`  Token:        ${token}`);
+function printShareDetails(published: PublishedShare): void {
+  console.log(`  Share ID:     ${published.shareId}`);
+  console.log(`  Tx ID:        ${published.txId}`);
+  console.log(`  Token:        ${published.token}`);
+}
+
+/**
+ * Show the messages about to be uploaded, after masking, and let the
+ * sharer drop some. Returns the positions (in `conversation.messages`) to
+ * keep, or null if the sharer cancelled.
+ */
+async function reviewMessages(
+  conversation: Conversation,
+  indexes: number[]
+): Promise<number[] | null> {
+  if (!process.stdin.isTTY) {
+    throw new Error("--review needs an interactive terminal.");
+  }
+
+  let kept = conversation.messages.map((_, position) => position);
+  console.log(`These ${kept.length} message(s) will be uploaded, exactly as shown:\n`);
+  for (const position of kept) {
+    console.log(formatConversationMessage(conversation.messages[position], indexes[position] + 1, true));
+    console.log();
+  }
+
+  for (;;) {
+    const answer = await prompt(
+      `Drop messages by number (e.g. 3, 7-9), Enter to upload ${kept.length} message(s), or q to cancel: `
+    );
+    if (answer === "") return kept;
+    if (answer.toLowerCase() === "q") return null;
+
+    let drop: Set<number>;
+    try {
+      drop = parseMessageList(answer);
+    } catch (err) {
+      console.log(toErrorMessage(err));
+      continue;
+    }
+    kept = kept.filter((position) => !drop.has(indexes[position] + 1));
+    if (kept.length === 0) {
+      console.log("Every message was dropped.");
+      return null;
+    }
+    console.log(`Keeping ${kept.map((position) => `#${indexes[position] + 1}`).join(", ")}.`);
+  }
+}
+
+function printRedactionReport(
+  conversation: Conversation,
+  findings: ConversationRedactionFinding[],
+  indexes: number[],
+  totalMessages: number
+): void {
+  const count =
+    conversation.messages.length < totalMessages
+      ? `${conversation.messages.length} of ${totalMessages} messages`
+      : `${totalMessages} messages`;
+  console.log(
+    `Dry run for ${conversation.id} (${conversation.client}, ${count}). Nothing was uploaded.`
+  );
+  if (findings.length === 0) {
+    console.log("No secrets detected.");
+    return;
+  }
+
+  console.log(`${findings.length} value(s) would be masked:\n`);
+  const ruleWidth = Math.max(4, ...findings.map((f) => f.rule.length));
+  console.log(`  ${"MSG".padEnd(5)} ${"ROLE".padEnd(9)} ${"RULE".padEnd(ruleWidth)}  VALUE`);
+  for (const finding of findings) {
+    const role = conversation.messages[finding.messageIndex].role;
+    console.log(
+      `  ${`#${indexes[finding.messageIndex] + 1}`.padEnd(5)} ${role.padEnd(9)} ${finding.rule.padEnd(ruleWidth)}  ${finding.preview}`
+    );
+  }
+}
+
+/**
+ * Parse `--expires`: a duration from now ("30m", "12h", "7d", "2w") or a
+ * date. Returns an ISO timestamp, which must be in the future.
+ */
+export function parseShareExpiry(value: string, now: Date = new Date()): string {
+  const duration = /^(\d+)\s*([mhdw])$/i.exec(value.trim());
+  let time: number;
+  if (duration) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[
+      duration[2].toLowerCase() as "m" | "h" | "d" | "w"
+    ];
+    time = now.getTime() + Number(duration[1]) * unitMs;
+  } else {
+    time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid --expires value: ${value} (use e.g. 7d, 12h or a date)`);
+    }
+  }
+  if (time <= now.getTime()) {
+    throw new Error(`--expires must be in the future: ${value}`);
   }
+  return new Date(time).toISOString();
 }
 
-export function encodeShareToken(token: ShareTokenV1): string {
+/**
+ * Turn `--to` values into public keys. A public key is used as given; a
+ * wallet address is looked up (its published key, or its identity record).
+ */
+export async function resolveShareRecipients(
+  inputs: string[],
+  reader: StorageReader
+): Promise<ShareRecipient[]> {
+  const recipients: ShareRecipient[] = [];
+  for (const input of inputs) {
+    const value = input.trim();
+    let publicKey = parsePublicKey(value);
+    if (!publicKey) {
+      if (!/^0x[0-9a-f]{40}$/i.test(value)) {
+        throw new Error(`Not a wallet address or public key: ${value}`);
+      }
+      // Wallet tags are lowercase; accept checksummed addresses too.
+      publicKey = await queryPublicKey(reader, value.toLowerCase());
+      if (!publicKey) {
+        throw new Error(
+          `No public key found for ${value}. Ask them to run \`sharedcontext publish-key\` and pass the key it prints, or retry once it is indexed.`
+        );
+      }
+    }
+    const address = addressFromPublicKey(publicKey);
+    if (!recipients.some((r) => r.address === address)) recipients.push({ address, publicKey });
+  }
+  return recipients;
+}
+
+export function encodeShareToken(token: ShareTokenV1 | ShareTokenV2): string {
   return Buffer.from(JSON.stringify(token), "utf-8").toString("base64url");
 }
 
-export function decodeShareToken(token: string): DecodedShareToken {
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(Buffer.from(token, "base64url").toString("utf-8")) as unknown;
-  } catch {
-    throw new Error("Invalid share token format.");
+/**
+ * Wallets a recipient-bound token is addressed to, or null for a link-only
+ * token. Lets callers load the identity key only when it is needed.
+ */
+export function shareTokenRecipients(token: string): string[] | null {
+  const parsed = parseShareToken(token);
+  return isShareTokenV2(parsed) ? parsed.r.map((r) => r.a) : null;
+}
+
+/**
+ * Decode a share token. Recipient-bound tokens need the local identity to
+ * unwrap the share key, and fail for anyone they were not addressed to.
+ */
+export function decodeShareToken(
+  token: string,
+  identity?: ShareRecipientIdentity
+): DecodedShareToken {
+  const parsed = parseShareToken(token);
+  if (isShareTokenV2(parsed)) {
+    return decodeRecipientToken(parsed, identity);
   }
   if (!isShareTokenV1(parsed)) {
     throw new Error("Invalid share token payload.");
@@ -158,7 +509,7 @@ export function extractToken(input: string): string {
 
 async function resolveConversation(
   conversationId: string,
-  client?: "cursor" | "claude-code"
+  client?: ConversationClient
 ): Promise<Conversation> {
   const all = await discoverConversations();
   const byId = all.filter(
@@ -173,12 +524,69 @@ async function resolveConversation(
   }
   if (byId.length > 1 && !client) {
     throw new Error(
-      "Multiple conversations found with that ID. Re-run with `--client cursor|claude-code`."
+      "Multiple conversations found with that ID. Re-run with `--client cursor|claude-code|codex`."
     );
   }
   return byId[0];
 }
 
+function decodeRecipientToken(
+  token: ShareTokenV2,
+  identity?: ShareRecipientIdentity
+): DecodedShareToken {
+  const recipients = token.r.map((r) => r.a);
+  if (!identity) {
+    throw new Error(
+      `This share is addressed to ${recipients.join(", ")}. Run \`sharedcontext init\` with a recipient's recovery phrase to open it.`
+    );
+  }
+  const entry = token.r.find((r) => r.a.toLowerCase() === identity.address.toLowerCase());
+  if (!entry) {
+    throw new Error(
+      `This share is addressed to ${recipients.join(", ")}, not to your wallet ${identity.address}.`
+    );
+  }
+
+  let key: Uint8Array;
+  try {
+    key = eciesDecrypt(new Uint8Array(Buffer.from(entry.w, "base64url")), identity.privateKey);
+  } catch {
+    throw new Error("Could not unwrap the share key with your identity key.");
+  }
+  if (key.length !== 32) {
+    throw new Error("Invalid share token key length.");
+  }
+  return { shareId: token.sid, key, txId: token.t, recipients };
+}
+
+function parseShareToken(token: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(token, "base64url").toString("utf-8")) as unknown;
+  } catch {
+    throw new Error("Invalid share token format.");
+  }
+}
+
+function isShareTokenV2(value: unknown): value is ShareTokenV2 {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    v.v === 2 &&
+    typeof v.sid === "string" &&
+    v.sid.length > 0 &&
+    Array.isArray(v.r) &&
+    v.r.length > 0 &&
+    v.r.every(
+      (r) =>
+        typeof r === "object" &&
+        r !== null &&
+        typeof (r as Record<string, unknown>).a === "string" &&
+        typeof (r as Record<string, unknown>).w === "string"
+    ) &&
+    (v.t === undefined || typeof v.t === "string")
+  );
+}
+
 function isShareTokenV1(value: unknown): value is ShareTokenV1 {
   if (typeof value !== "object" || value === null) return false;
   const v = value as Record<string, unknown>;
@@ -0,0 +1,97 @@
+import { createStorageBackend } from "../core/backends/index.js";
+import {
+  openDatabase,
+  getCreatedShares,
+  markShareRevoked,
+  type CreatedShare,
+} from "../core/db.js";
+import { keychainLoad } from "../core/keychain.js";
+import { pushShareRevocation } from "../core/sync.js";
+import { ensureInitialized, isIdentityAvailable, resolveIdentity } from "./util.js";
+
+export function listSharesCommand(): void {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+  const shares = getCreatedShares(db);
+  db.close();
+
+  if (shares.length === 0) {
+    console.log("No shares created on this machine.");
+    return;
+  }
+
+  console.log(`${shares.length} share(s):\n`);
+  for (const share of shares) {
+    console.log(`  ${share.shareId}  [${shareStatus(share)}]`);
+    console.log(
+      share.kind === "facts"
+        ? `    ${share.messageCount} fact(s) from ${share.conversationId}, created ${share.createdAt}`
+        : `    ${share.conversationId} (${share.client}, ${share.project}, ${share.messageCount} messages), created ${share.createdAt}`
+    );
+    if (share.recipients) console.log(`    To: ${share.recipients.join(", ")}`);
+    if (share.expiresAt && !share.revokedAt) console.log(`    Expires: ${share.expiresAt}`);
+  }
+  console.log("\nRevoke with: sharedcontext shares revoke <share-id>");
+}
+
+/**
+ * Publish a signed revocation for a share created on this machine.
+ * Accepts the full share id or a unique prefix.
+ */
+export async function revokeShareCommand(shareId: string): Promise<void> {
+  const dbPath = ensureInitialized();
+  const db = openDatabase(dbPath);
+  try {
+    const matches = getCreatedShares(db).filter((s) => s.shareId.startsWith(shareId));
+    if (matches.length === 0) {
+      throw new Error(
+        `No share created on this machine matches ${shareId}. Run \`sharedcontext shares\` to see them.`
+      );
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `Share id ${shareId} is ambiguous: ${matches.map((s) => s.shareId).join(", ")}`
+      );
+    }
+    const share = matches[0];
+    if (share.revokedAt) {
+      console.log(`Share ${share.shareId} was already revoked on ${share.revokedAt}.`);
+      return;
+    }
+
+    const passphrase = keychainLoad();
+    if (!passphrase) {
+      throw new Error(
+        "No passphrase found in system keychain. Run `sharedcontext init` again to store it."
+      );
+    }
+    if (!isIdentityAvailable()) {
+      throw new Error("No local identity found. Run `sharedcontext init` first.");
+    }
+
+    const { identityKey, walletAddress } = resolveIdentity(passphrase);
+    const backend = createStorageBackend({
+      privateKeyHex: Buffer.from(identityKey).toString("hex"),
+      testnet: process.env.SHAREDCONTEXT_TESTNET === "true",
+    });
+    const { txId, revokedAt } = await pushShareRevocation(
+      share.shareId,
+      walletAddress,
+      identityKey,
+      backend
+    );
+    markShareRevoked(db, share.shareId, txId, revokedAt);
+
+    console.log(`Share ${share.shareId} revoked.`);
+    console.log(`  Tx ID: ${txId}`);
+    console.log("\nNew imports of this link are refused. Copies already imported are not affected.");
+  } finally {
+    db.close();
+  }
+}
+
+function shareStatus(share: CreatedShare): string {
+  if (share.revokedAt) return `revoked ${share.revokedAt}`;
+  if (share.expiresAt && Date.parse(share.expiresAt) <= Date.now()) return "expired";
+  return "active";
+}
@@ -1,39 +1,65 @@
 import { decrypt } from "../core/crypto.js";
-import {
-  downloadShard,
-  queryConversationShare,
-  queryTransactionTagsById,
-} from "../core/arweave.js";
+import { queryConversationShare, queryShareRevocation } from "../core/remote.js";
+import { createStorageReader } from "../core/backends/index.js";
 import {
   hasSharedConversationImport,
   openDatabase,
   saveSharedConversationImport,
 } from "../core/db.js";
 import { verifySignature } from "../core/identity.js";
+import { keychainLoad } from "../core/keychain.js";
 import {
   decodeShareToken,
   extractToken,
+  shareTokenRecipients,
   type ConversationSharePayload,
+  type ShareRecipientIdentity,
 } from "./share.js";
-import { ensureInitialized } from "./util.js";
-import type { Conversation } from "../types.js";
+import { indexSharedConversations } from "../core/conversation-index.js";
+import { ensureInitialized, isIdentityAvailable, prompt, resolveIdentity } from "./util.js";
+import {
+  applyFactImport,
+  isFactSharePayload,
+  planFactImport,
+  type FactImportDecision,
+  type FactImportItem,
+  type FactShareOrigin,
+  type FactSharePayload,
+} from "../core/fact-share.js";
+import type { StorageReader } from "../core/storage.js";
+import { isConversationClient, type Conversation } from "../types.js";
 
 const MAX_SHARE_BYTES = 2 * 1024 * 1024;
 
-export async function syncCommand(urlOrToken: string): Promise<void> {
+export interface SyncCommandOptions {
+  /** Import a fact bundle without asking: new keys are accepted, changed ones skipped. */
+  yes?: boolean;
+  /** With --yes, overwrite changed keys instead of skipping them. */
+  overwrite?: boolean;
+}
+
+export async function syncCommand(
+  urlOrToken: string,
+  options: SyncCommandOptions = {},
+  reader: StorageReader = createStorageReader()
+): Promise<void> {
   const dbPath = ensureInitialized();
 
   const token = extractToken(urlOrToken);
-  const decoded = decodeShareToken(token);
+  const decoded = decodeShareToken(
+    token,
+    shareTokenRecipients(token) ? loadRecipientIdentity() : undefined
+  );
   let txId = decoded.txId;
   let encrypted: Uint8Array | null = null;
   let shareWallet = "";
   let shareSignature = "";
   let resolvedShareId = "";
+  let shareExpiresAt: string | null = null;
 
   if (txId) {
     try {
-      const txMeta = await queryTransactionTagsById(txId);
+      const txMeta = await reader.fetchTags(txId);
       if (!txMeta) {
         throw new Error(`No transaction metadata found for tx id: ${txId}`);
       }
@@ -50,10 +76,11 @@ export async function syncCommand(urlOrToken: string): Promise<void> {
       if (!wallet || !signature) {
         throw new Error("Share transaction is missing signer metadata.");
       }
-      encrypted = await downloadShard(txId, MAX_SHARE_BYTES);
+      encrypted = await reader.fetchData(txId, MAX_SHARE_BYTES);
       shareWallet = wallet;
       shareSignature = signature;
       resolvedShareId = tagShareId;
+      shareExpiresAt = txMeta.tags.get("Expires-At") ?? null;
     } catch {
       // Fall back to Share-Id lookup for eventual consistency or stale tx references.
       encrypted = null;
@@ -61,7 +88,7 @@ export async function syncCommand(urlOrToken: string): Promise<void> {
   }
 
   if (!encrypted) {
-    const shareInfo = await queryConversationShare(decoded.shareId);
+    const shareInfo = await queryConversationShare(reader, decoded.shareId);
     if (!shareInfo) {
       throw new Error(`No share found for id: ${decoded.shareId}`);
     }
@@ -72,23 +99,41 @@ export async function syncCommand(urlOrToken: string): Promise<void> {
     resolvedShareId = shareInfo.shareId;
     shareWallet = shareInfo.wallet;
     shareSignature = shareInfo.signature;
-    encrypted = await downloadShard(txId, MAX_SHARE_BYTES);
+    shareExpiresAt = shareInfo.expiresAt;
+    encrypted = await reader.fetchData(txId, MAX_SHARE_BYTES);
   }
 
   const valid = verifySignature(encrypted, shareSignature, shareWallet);
   if (!valid) {
     throw new Error("Share signature verification failed.");
   }
+  assertNotExpired(shareExpiresAt);
+  const revocation = await queryShareRevocation(reader, resolvedShareId, shareWallet);
+  if (revocation) {
+    throw new Error(`This share was revoked by its owner on ${revocation.revokedAt}.`);
+  }
 
-  let payload: ConversationSharePayload;
+  let payload: ConversationSharePayload | FactSharePayload;
   try {
     const decrypted = decrypt(encrypted, decoded.key);
-    payload = JSON.parse(new TextDecoder().decode(decrypted)) as ConversationSharePayload;
+    payload = JSON.parse(new TextDecoder().decode(decrypted)) as
+      | ConversationSharePayload
+      | FactSharePayload;
   } catch {
     throw new Error("Could not decrypt shared payload. Token may be invalid.");
   }
 
-  const conversation = validatePayload(payload);
+  // The tag can be dropped by whoever re-uploads a share; the signed payload cannot.
+  assertNotExpired(payload.expiresAt ?? null);
+  if ("kind" in payload && payload.kind === "facts") {
+    if (!isFactSharePayload(payload)) {
+      throw new Error("Invalid fact bundle payload.");
+    }
+    await importFactBundle(dbPath, payload, { shareId: resolvedShareId, wallet: shareWallet }, options);
+    return;
+  }
+  const conversationPayload = payload as ConversationSharePayload;
+  const conversation = validatePayload(conversationPayload);
   const db = openDatabase(dbPath);
   const alreadyImported = hasSharedConversationImport(db, resolvedShareId);
   if (alreadyImported) {
@@ -100,15 +145,115 @@ export async function syncCommand(urlOrToken: string): Promise<void> {
   saveSharedConversationImport(db, {
     shareId: resolvedShareId,
     txId: txId ?? "unknown",
+    wallet: shareWallet,
     conversation,
   });
+  try {
+    indexSharedConversations(db);
+  } catch {
+    // Searchable after the next index refresh.
+  }
   db.close();
 
   console.log("Conversation imported.\n");
   console.log(`  Share ID:     ${resolvedShareId}`);
+  console.log(`  Shared by:    ${shareWallet}`);
   console.log(`  Conversation: ${conversation.id} (${conversation.client})`);
   console.log(`  Project:      ${conversation.project}`);
-  console.log(`  Messages:     ${conversation.messages.length}`);
+  console.log(
+    `  Messages:     ${conversation.messages.length}${
+      conversationPayload.totalMessages ? ` (excerpt of ${conversationPayload.totalMessages})` : ""
+    }`
+  );
+}
+
+/**
+ * Preview a fact bundle against local facts and import the keys the user
+ * picks: new keys can be accepted, changed keys overwritten, either skipped.
+ */
+async function importFactBundle(
+  dbPath: string,
+  payload: FactSharePayload,
+  origin: FactShareOrigin,
+  options: SyncCommandOptions
+): Promise<void> {
+  const db = openDatabase(dbPath);
+  try {
+    const plan = planFactImport(db, payload.facts, payload.scope);
+    const pending = plan.filter((item) => item.status === "new" || item.status === "changed");
+    const rejected = plan.filter((item) => item.status === "rejected");
+    const filter = payload.tags?.length ? ` tagged ${payload.tags.join(", ")}` : "";
+    console.log(`Fact bundle from ${origin.wallet}: ${payload.facts.length} fact(s) in ${payload.scope}${filter}.`);
+    console.log(
+      `  ${plan.filter((i) => i.status === "new").length} new, ` +
+        `${plan.filter((i) => i.status === "changed").length} changed, ` +
+        `${plan.filter((i) => i.status === "unchanged").length} already up to date\n`
+    );
+    for (const item of rejected) {
+      console.log(`! ${item.fact.key} (${item.fact.scope}) is outside ${payload.scope}; ignored.`);
+    }
+    if (rejected.length > 0) console.log("");
+    if (pending.length === 0) {
+      console.log("Nothing to import.");
+      return;
+    }
+
+    const interactive = !options.yes && process.stdin.isTTY === true;
+    const decided: Array<FactImportItem & { decision: FactImportDecision }> = [];
+    for (const item of pending) {
+      if (item.status === "new") {
+        console.log(`+ ${item.fact.key} (new)`);
+        console.log(`    ${item.fact.value}`);
+      } else {
+        console.log(`~ ${item.fact.key} (changed)`);
+        console.log(`    yours:  ${item.local?.value ?? ""}`);
+        console.log(`    shared: ${item.fact.value}`);
+      }
+      decided.push({ ...item, decision: interactive ? await askDecision(item) : defaultDecision(item, options) });
+    }
+
+    const imported = applyFactImport(db, decided, origin);
+    console.log(`\nImported ${imported.length} of ${pending.length} fact(s) from share ${origin.shareId}.`);
+    if (!interactive && decided.some((i) => i.decision === "skip")) {
+      console.log("Changed keys were skipped; run again with --yes --overwrite to replace them.");
+    }
+  } finally {
+    db.close();
+  }
+}
+
+async function askDecision(item: FactImportItem): Promise<FactImportDecision> {
+  if (item.status === "new") {
+    const answer = (await prompt("  [a]ccept / [s]kip? (a) ")).toLowerCase();
+    return answer.startsWith("s") ? "skip" : "accept";
+  }
+  const answer = (await prompt("  [o]verwrite / [s]kip? (s) ")).toLowerCase();
+  return answer.startsWith("o") ? "overwrite" : "skip";
+}
+
+function defaultDecision(item: FactImportItem, options: SyncCommandOptions): FactImportDecision {
+  if (item.status === "new") return "accept";
+  return options.overwrite ? "overwrite" : "skip";
+}
+
+/**
+ * The local identity key, for shares addressed to specific wallets.
+ */
+function loadRecipientIdentity(): ShareRecipientIdentity {
+  const passphrase = keychainLoad();
+  if (!passphrase || !isIdentityAvailable()) {
+    throw new Error(
+      "This share is addressed to specific wallets and needs your identity key. Run `sharedcontext init` first."
+    );
+  }
+  const { identityKey, walletAddress } = resolveIdentity(passphrase);
+  return { address: walletAddress, privateKey: identityKey };
+}
+
+function assertNotExpired(expiresAt: string | null): void {
+  if (expiresAt && !(Date.parse(expiresAt) > Date.now())) {
+    throw new Error(`This share expired on ${expiresAt}.`);
+  }
 }
 
 function validatePayload(payload: ConversationSharePayload): Conversation {
@@ -118,7 +263,7 @@ function validatePayload(payload: ConversationSharePayload): Conversation {
   const conversation = payload.conversation;
   if (
     typeof conversation.id !== "string" ||
-    (conversation.client !== "cursor" && conversation.client !== "claude-code") ||
+    !isConversationClient(conversation.client) ||
     typeof conversation.project !== "string" ||
     !Array.isArray(conversation.messages) ||
     typeof conversation.startedAt !== "string" ||
@@ -0,0 +1,46 @@
+import { resolveStorage, type ResolvedStorage } from "../config.js";
+import { ArweaveReader } from "../arweave.js";
+import { LocalDirectoryBackend } from "./local.js";
+import { S3Backend } from "./s3.js";
+import { TurboBackend, type TurboBackendOptions } from "./turbo.js";
+import type { StorageBackend, StorageReader } from "../storage.js";
+
+/**
+ * Pick the upload backend from config/env: a local directory or S3 bucket
+ * when configured, otherwise Turbo (Arweave).
+ */
+export function createStorageBackend(options: TurboBackendOptions): StorageBackend {
+  return createConfiguredStore(resolveStorage()) ?? new TurboBackend(options);
+}
+
+/**
+ * Pick the reader matching createStorageBackend: the local directory or
+ * S3 bucket when configured, otherwise the Arweave gateways.
+ */
+export function createStorageReader(): StorageReader {
+  return createConfiguredStore(resolveStorage()) ?? new ArweaveReader();
+}
+
+/**
+ * Human-readable sync target for status output.
+ */
+export function describeStorage(testnet: boolean): string {
+  const storage = resolveStorage();
+  if (storage.type === "local") return `local directory ${storage.directory}`;
+  if (storage.type === "s3") {
+    return `S3 bucket ${storage.bucket}${storage.prefix ? `/${storage.prefix}` : ""}`;
+  }
+  return `Arweave (${testnet ? "testnet" : "mainnet"})`;
+}
+
+function createConfiguredStore(
+  storage: ResolvedStorage
+): (StorageBackend & StorageReader) | null {
+  if (storage.type === "local") {
+    return new LocalDirectoryBackend({ directory: storage.directory });
+  }
+  if (storage.type === "s3") {
+    return new S3Backend(storage);
+  }
+  return null;
+}
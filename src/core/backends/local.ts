@@ -0,0 +1,141 @@
+import { randomBytes } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statfsSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import {
+  TX_ID_PATTERN,
+  newTxId,
+  nextUploadedAt,
+  parseIndexEntry,
+  queryIndex,
+  toTagInfo,
+  type IndexEntry,
+} from "./tag-index.js";
+import type {
+  StorageBackend,
+  StorageReader,
+  Tag,
+  TagFilter,
+  TagQueryOptions,
+  TransactionPage,
+  TransactionTagInfo,
+  UploadResult,
+  BalanceInfo,
+} from "../storage.js";
+
+export interface LocalDirectoryBackendOptions {
+  /** Directory holding the blobs and tag index. Created on first upload. */
+  directory: string;
+}
+
+// Matches the per-shard estimate used for Turbo balances.
+const ESTIMATED_SHARD_BYTES = 600;
+
+/**
+ * Storage backend and reader over a plain directory instead of Arweave.
+ * Several devices can sync through the same shared folder or NAS mount.
+ *
+ * Layout:
+ *   blobs/<txId>       encrypted payload, exactly as it would be uploaded
+ *   tags/<txId>.json   { id, tags, uploadedAt }
+ *
+ * Files are written to a temporary name and renamed, and the index entry is
+ * written after the blob, so readers never see a half-written transaction.
+ */
+export class LocalDirectoryBackend implements StorageBackend, StorageReader {
+  readonly directory: string;
+
+  constructor(options: LocalDirectoryBackendOptions) {
+    this.directory = options.directory;
+  }
+
+  async upload(data: Uint8Array, tags: Tag[]): Promise<UploadResult> {
+    const txId = newTxId();
+    mkdirSync(this.blobDir(), { recursive: true });
+    mkdirSync(this.tagDir(), { recursive: true });
+
+    writeAtomic(join(this.blobDir(), txId), data);
+    const entry: IndexEntry = { id: txId, tags, uploadedAt: nextUploadedAt() };
+    writeAtomic(join(this.tagDir(), `${txId}.json`), JSON.stringify(entry));
+
+    return { txId };
+  }
+
+  async getBalance(): Promise<BalanceInfo> {
+    mkdirSync(this.directory, { recursive: true });
+    const stats = statfsSync(this.directory);
+    const freeBytes = stats.bavail * stats.bsize;
+    return {
+      balance: `${formatBytes(freeBytes)} free in ${this.directory}`,
+      estimatedUploads: Math.floor(freeBytes / ESTIMATED_SHARD_BYTES),
+    };
+  }
+
+  async queryByTags(
+    filters: TagFilter[],
+    options: TagQueryOptions = {}
+  ): Promise<TransactionPage> {
+    return queryIndex(this.readIndex(), filters, options);
+  }
+
+  async fetchTags(txId: string): Promise<TransactionTagInfo | null> {
+    if (!TX_ID_PATTERN.test(txId)) return null;
+    const path = join(this.tagDir(), `${txId}.json`);
+    if (!existsSync(path)) return null;
+    const entry = parseIndexEntry(readFileSync(path, "utf-8"));
+    return entry ? toTagInfo(entry) : null;
+  }
+
+  async fetchData(txId: string, maxBytes?: number): Promise<Uint8Array> {
+    if (!TX_ID_PATTERN.test(txId)) {
+      throw new Error(`Invalid transaction id: ${txId}`);
+    }
+    const path = join(this.blobDir(), txId);
+    if (!existsSync(path)) {
+      throw new Error(`Transaction ${txId} not found in ${this.directory}`);
+    }
+    const data = readFileSync(path);
+    if (typeof maxBytes === "number" && data.byteLength > maxBytes) {
+      throw new Error(`blob too large: ${data.byteLength} bytes (max ${maxBytes})`);
+    }
+    return new Uint8Array(data);
+  }
+
+  private readIndex(): IndexEntry[] {
+    if (!existsSync(this.tagDir())) return [];
+    const entries: IndexEntry[] = [];
+    for (const name of readdirSync(this.tagDir())) {
+      if (name.startsWith(".") || !name.endsWith(".json")) continue;
+      const entry = parseIndexEntry(readFileSync(join(this.tagDir(), name), "utf-8"));
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  private blobDir(): string {
+    return join(this.directory, "blobs");
+  }
+
+  private tagDir(): string {
+    return join(this.directory, "tags");
+  }
+}
+
+function writeAtomic(path: string, data: Uint8Array | string): void {
+  const tmp = join(dirname(path), `.${randomBytes(8).toString("hex")}.tmp`);
+  writeFileSync(tmp, data);
+  renameSync(tmp, path);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GiB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MiB`;
+  return `${Math.round(bytes / 1024)} KiB`;
+}
@@ -0,0 +1,322 @@
+import { createHash, createHmac } from "node:crypto";
+import {
+  TX_ID_PATTERN,
+  newTxId,
+  nextUploadedAt,
+  parseIndexEntry,
+  queryIndex,
+  toTagInfo,
+  type IndexEntry,
+} from "./tag-index.js";
+import type {
+  StorageBackend,
+  StorageReader,
+  Tag,
+  TagFilter,
+  TagQueryOptions,
+  TransactionPage,
+  TransactionTagInfo,
+  UploadResult,
+  BalanceInfo,
+} from "../storage.js";
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface S3BackendOptions {
+  bucket: string;
+  /** Key prefix inside the bucket, e.g. "team/sharedcontext/". */
+  prefix?: string;
+  region?: string;
+  /** S3 API endpoint. Defaults to AWS (`https://s3.<region>.amazonaws.com`). */
+  endpoint?: string;
+  /** Address the bucket in the path. Defaults to true for custom endpoints (MinIO). */
+  forcePathStyle?: boolean;
+  credentials: S3Credentials;
+}
+
+const EMPTY_SHA256 = sha256Hex("");
+
+/**
+ * Storage backend and reader over any S3-compatible API (AWS, MinIO, R2, ...).
+ * Pure fetch with SigV4 signing, no SDK dependency.
+ *
+ * Layout under the prefix:
+ *   blobs/<txId>       encrypted payload, exactly as it would be uploaded
+ *   tags/<txId>.json   { id, tags, uploadedAt } sidecar index object
+ *
+ * Blobs are already encrypted and signed by the caller, so the bucket
+ * never sees plaintext and readers still verify signatures.
+ */
+export class S3Backend implements StorageBackend, StorageReader {
+  readonly bucket: string;
+  private prefix: string;
+  private region: string;
+  private endpoint: URL;
+  private pathStyle: boolean;
+  private credentials: S3Credentials;
+  // Index objects are immutable, so each is fetched once per process.
+  private indexCache = new Map<string, IndexEntry | null>();
+
+  constructor(options: S3BackendOptions) {
+    this.bucket = options.bucket;
+    this.prefix = normalizePrefix(options.prefix);
+    this.region = options.region ?? "us-east-1";
+    this.endpoint = new URL(options.endpoint ?? `https://s3.${this.region}.amazonaws.com`);
+    this.pathStyle = options.forcePathStyle ?? options.endpoint !== undefined;
+    this.credentials = options.credentials;
+  }
+
+  async upload(data: Uint8Array, tags: Tag[]): Promise<UploadResult> {
+    const txId = newTxId();
+    await this.send("PUT", this.blobKey(txId), {}, data, "application/octet-stream");
+
+    // Index after the blob, so a listed transaction always has its data.
+    const entry: IndexEntry = { id: txId, tags, uploadedAt: nextUploadedAt() };
+    await this.send(
+      "PUT",
+      this.tagKey(txId),
+      {},
+      new TextEncoder().encode(JSON.stringify(entry)),
+      "application/json"
+    );
+    this.indexCache.set(txId, entry);
+    return { txId };
+  }
+
+  async getBalance(): Promise<BalanceInfo> {
+    // Buckets are billed by the provider; there is no prepaid balance.
+    return {
+      balance: `billed by provider (bucket ${this.bucket})`,
+      estimatedUploads: Number.POSITIVE_INFINITY,
+    };
+  }
+
+  async queryByTags(
+    filters: TagFilter[],
+    options: TagQueryOptions = {}
+  ): Promise<TransactionPage> {
+    const entries: IndexEntry[] = [];
+    for (const key of await this.listKeys(`${this.prefix}tags/`)) {
+      const name = key.slice(`${this.prefix}tags/`.length);
+      if (!name.endsWith(".json")) continue;
+      const entry = await this.readIndexEntry(name.slice(0, -".json".length));
+      if (entry) entries.push(entry);
+    }
+    return queryIndex(entries, filters, options);
+  }
+
+  async fetchTags(txId: string): Promise<TransactionTagInfo | null> {
+    const entry = await this.readIndexEntry(txId);
+    return entry ? toTagInfo(entry) : null;
+  }
+
+  async fetchData(txId: string, maxBytes?: number): Promise<Uint8Array> {
+    if (!TX_ID_PATTERN.test(txId)) {
+      throw new Error(`Invalid transaction id: ${txId}`);
+    }
+    const res = await this.send("GET", this.blobKey(txId));
+    if (typeof maxBytes === "number") {
+      const declared = Number.parseInt(res.headers.get("content-length") ?? "", 10);
+      if (Number.isFinite(declared) && declared > maxBytes) {
+        throw new Error(`blob too large: ${declared} bytes (max ${maxBytes})`);
+      }
+    }
+    const buffer = await res.arrayBuffer();
+    if (typeof maxBytes === "number" && buffer.byteLength > maxBytes) {
+      throw new Error(`blob too large: ${buffer.byteLength} bytes (max ${maxBytes})`);
+    }
+    return new Uint8Array(buffer);
+  }
+
+  private async readIndexEntry(txId: string): Promise<IndexEntry | null> {
+    if (!TX_ID_PATTERN.test(txId)) return null;
+    if (this.indexCache.has(txId)) return this.indexCache.get(txId) ?? null;
+
+    const res = await this.send("GET", this.tagKey(txId), {}, undefined, undefined, [404]);
+    const entry = res.status === 404 ? null : parseIndexEntry(await res.text());
+    if (res.status !== 404) this.indexCache.set(txId, entry);
+    return entry;
+  }
+
+  /** All object keys under a prefix (ListObjectsV2, following continuation tokens). */
+  private async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let token: string | null = null;
+    do {
+      const query: Record<string, string> = { "list-type": "2", prefix };
+      if (token) query["continuation-token"] = token;
+      const xml = await (await this.send("GET", "", query)).text();
+      for (const match of xml.matchAll(/<Key>([\s\S]*?)<\/Key>/g)) {
+        keys.push(decodeXml(match[1]));
+      }
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      const next = /<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/.exec(xml);
+      token = truncated && next ? decodeXml(next[1]) : null;
+    } while (token);
+    return keys;
+  }
+
+  private async send(
+    method: "GET" | "PUT",
+    key: string,
+    query: Record<string, string> = {},
+    body?: Uint8Array,
+    contentType?: string,
+    allowedStatuses: number[] = []
+  ): Promise<Response> {
+    const url = this.objectUrl(key, query);
+    const headers: Record<string, string> = {};
+    if (contentType) headers["content-type"] = contentType;
+    const signed = signRequest({
+      method,
+      url,
+      headers,
+      payloadHash: body ? sha256Hex(body) : EMPTY_SHA256,
+      region: this.region,
+      credentials: this.credentials,
+      date: new Date(),
+    });
+
+    // fetch derives Host from the URL; it was only needed for the signature.
+    const { host: _host, ...sendHeaders } = signed;
+    const res = await fetch(url, {
+      method,
+      headers: sendHeaders,
+      body: body ? new Uint8Array(body) : undefined,
+    });
+    if (!res.ok && !allowedStatuses.includes(res.status)) {
+      const detail = (await res.text()).slice(0, 200);
+      throw new Error(`S3 ${method} ${key || "(list)"} failed: ${res.status} ${res.statusText} ${detail}`.trim());
+    }
+    return res;
+  }
+
+  private objectUrl(key: string, query: Record<string, string>): URL {
+    const url = new URL(this.endpoint.toString());
+    const base = url.pathname.replace(/\/+$/, "");
+    const encodedKey = key.split("/").map(uriEncode).join("/");
+    if (this.pathStyle) {
+      url.pathname = encodedKey ? `${base}/${this.bucket}/${encodedKey}` : `${base}/${this.bucket}`;
+    } else {
+      url.hostname = `${this.bucket}.${url.hostname}`;
+      url.pathname = `${base}/${encodedKey}`;
+    }
+    url.search = Object.entries(query)
+      .map(([k, v]) => `${uriEncode(k)}=${uriEncode(v)}`)
+      .join("&");
+    return url;
+  }
+
+  private blobKey(txId: string): string {
+    return `${this.prefix}blobs/${txId}`;
+  }
+
+  private tagKey(txId: string): string {
+    return `${this.prefix}tags/${txId}.json`;
+  }
+}
+
+export interface SignRequestInput {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  credentials: S3Credentials;
+  date: Date;
+  service?: string;
+}
+
+/**
+ * AWS Signature Version 4 for a single request. Returns the headers to send,
+ * including host, x-amz-date, x-amz-content-sha256 and Authorization.
+ */
+export function signRequest(input: SignRequestInput): Record<string, string> {
+  const service = input.service ?? "s3";
+  const amzDate = input.date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const day = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(input.headers).map(([k, v]) => [k.toLowerCase(), v.trim()])
+    ),
+    host: input.url.host,
+    "x-amz-content-sha256": input.payloadHash,
+    "x-amz-date": amzDate,
+  };
+  if (input.credentials.sessionToken) {
+    headers["x-amz-security-token"] = input.credentials.sessionToken;
+  }
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map((k) => `${k}:${headers[k]}\n`).join("");
+  const signedHeaders = signedHeaderNames.join(";");
+
+  const canonicalQuery = [...input.url.searchParams.entries()]
+    .map(([k, v]) => [uriEncode(k), uriEncode(v)] as const)
+    .sort(([ka, va], [kb, vb]) => (ka === kb ? (va < vb ? -1 : 1) : ka < kb ? -1 : 1))
+    .map(([k, v]) => `${k}=${v}`)
+    .join("&");
+
+  const canonicalRequest = [
+    input.method,
+    input.url.pathname || "/",
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    input.payloadHash,
+  ].join("\n");
+
+  const scope = `${day}/${input.region}/${service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const kDate = hmac(`AWS4${input.credentials.secretAccessKey}`, day);
+  const kRegion = hmac(kDate, input.region);
+  const kService = hmac(kRegion, service);
+  const kSigning = hmac(kService, "aws4_request");
+  const signature = createHmac("sha256", kSigning).update(stringToSign).digest("hex");
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${input.credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function sha256Hex(data: string | Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** RFC 3986 encoding as SigV4 expects (everything but unreserved characters). */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function normalizePrefix(prefix: string | undefined): string {
+  const trimmed = (prefix ?? "").replace(/^\/+|\/+$/g, "");
+  return trimmed ? `${trimmed}/` : "";
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,83 @@
+import { randomBytes } from "node:crypto";
+import type { Tag, TagFilter, TagQueryOptions, TransactionPage, TransactionTagInfo } from "../storage.js";
+
+/**
+ * Sidecar tag index shared by the backends that have no native tag queries
+ * (local directory, S3). Each transaction gets one JSON entry next to its blob.
+ */
+export interface IndexEntry {
+  id: string;
+  tags: Tag[];
+  uploadedAt: number;
+}
+
+// Same shape as Arweave transaction ids, so share tokens look alike.
+export const TX_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const DEFAULT_PAGE_SIZE = 1000;
+
+export function newTxId(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+let lastUploadedAt = 0;
+
+/**
+ * Upload timestamp, strictly increasing within this process so back-to-back
+ * uploads keep their order ("newest" identity or share wins).
+ */
+export function nextUploadedAt(): number {
+  lastUploadedAt = Math.max(Date.now(), lastUploadedAt + 1);
+  return lastUploadedAt;
+}
+
+export function parseIndexEntry(raw: string): IndexEntry | null {
+  try {
+    const parsed = JSON.parse(raw) as Partial<IndexEntry>;
+    if (
+      typeof parsed.id !== "string" ||
+      !TX_ID_PATTERN.test(parsed.id) ||
+      !Array.isArray(parsed.tags) ||
+      typeof parsed.uploadedAt !== "number"
+    ) {
+      return null;
+    }
+    return parsed as IndexEntry;
+  } catch {
+    return null;
+  }
+}
+
+export function toTagInfo(entry: IndexEntry): TransactionTagInfo {
+  return {
+    txId: entry.id,
+    tags: new Map(entry.tags.map((t) => [t.name, t.value])),
+  };
+}
+
+/**
+ * Entries whose tags match every filter (any of the listed values),
+ * oldest upload first unless `newestFirst` is set. The cursor is an offset.
+ */
+export function queryIndex(
+  entries: IndexEntry[],
+  filters: TagFilter[],
+  options: TagQueryOptions = {}
+): TransactionPage {
+  const matching = entries.filter((entry) =>
+    filters.every((filter) =>
+      entry.tags.some((t) => t.name === filter.name && filter.values.includes(t.value))
+    )
+  );
+
+  matching.sort((a, b) =>
+    a.uploadedAt !== b.uploadedAt ? a.uploadedAt - b.uploadedAt : a.id.localeCompare(b.id)
+  );
+  if (options.newestFirst) matching.reverse();
+
+  const start = options.cursor ? Number.parseInt(options.cursor, 10) || 0 : 0;
+  const end = start + (options.pageSize ?? DEFAULT_PAGE_SIZE);
+  return {
+    transactions: matching.slice(start, end).map(toTagInfo),
+    cursor: end < matching.length ? String(end) : null,
+  };
+}
@@ -0,0 +1,163 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+
+/**
+ * User configuration, read from `<SHAREDCONTEXT_HOME>/config.json`.
+ * Every field is optional; environment variables take precedence.
+ */
+export interface SharedContextConfig {
+  storage?: StorageConfig;
+  /** Extra conversation sources, e.g. in-house agent logs (see core/sources.ts). */
+  conversationSources?: ConversationSourceConfig[];
+  /** Keep tool calls, their results and touched files in parsed conversations. Off by default. */
+  captureToolCalls?: boolean;
+  /** Extra secret patterns masked before conversations are uploaded (see core/redact.ts). */
+  redaction?: RedactionConfig;
+  /**
+   * How conversation summaries are made: "extractive" (default, local heuristics) or
+   * "sampling" to ask the client's model over MCP when the client supports it.
+   */
+  summarizer?: "extractive" | "sampling";
+}
+
+export interface RedactionConfig {
+  /** Regexes for in-house secrets, e.g. { name: "acme-token", pattern: "acme_[a-z0-9]{32}" }. */
+  rules?: Array<{ name: string; pattern: string; flags?: string }>;
+  /** Mask long random-looking strings that no rule recognises. Defaults to true. */
+  highEntropy?: boolean;
+}
+
+/**
+ * A directory of JSONL logs, one conversation per file, one message per line.
+ */
+export interface ConversationSourceConfig {
+  /** Client id recorded on these conversations, e.g. "acme-agent". */
+  client: string;
+  directory: string;
+  /** File extension to pick up. Defaults to ".jsonl". */
+  extension?: string;
+  /** Project for every conversation. Defaults to the file's parent directory name. */
+  project?: string;
+  /** Dotted paths to each line's fields, e.g. { role: "author", content: "message.text" }. */
+  fields: { role: string; content: string; timestamp?: string };
+  /** Raw role values for each role. Defaults to "user" and "assistant". */
+  roles?: { user?: string[]; assistant?: string[] };
+}
+
+export interface StorageConfig {
+  /** "arweave" (default), "local" for a shared folder / NAS, or "s3". */
+  type?: "arweave" | "local" | "s3";
+  /** Directory used by the local backend. */
+  directory?: string;
+  /** Bucket settings used by the S3 backend. */
+  s3?: S3StorageConfig;
+}
+
+export interface S3StorageConfig {
+  bucket?: string;
+  prefix?: string;
+  region?: string;
+  /** S3-compatible endpoint, e.g. "http://localhost:9000" for MinIO. */
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  /** Prefer AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY over storing keys here. */
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/** Where shards are written and read, after applying env overrides. */
+export type ResolvedStorage =
+  | { type: "arweave" }
+  | { type: "local"; directory: string }
+  | {
+      type: "s3";
+      bucket: string;
+      prefix?: string;
+      region?: string;
+      endpoint?: string;
+      forcePathStyle?: boolean;
+      credentials: { accessKeyId: string; secretAccessKey: string; sessionToken?: string };
+    };
+
+export function getConfigPath(): string {
+  const home = process.env.SHAREDCONTEXT_HOME || join(homedir(), ".sharedcontext");
+  return join(home, "config.json");
+}
+
+/**
+ * Load the config file. A missing file is an empty config; a malformed one is an error.
+ */
+export function loadConfig(): SharedContextConfig {
+  const path = getConfigPath();
+  if (!existsSync(path)) return {};
+
+  const raw = readFileSync(path, "utf-8").trim();
+  if (raw === "") return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(
+      `Invalid JSON in ${path}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid config in ${path}: root value is not a JSON object`);
+  }
+  return parsed as SharedContextConfig;
+}
+
+/**
+ * Resolve the storage target. Environment variables win over the config file:
+ * SHAREDCONTEXT_STORAGE_DIR selects a local directory, SHAREDCONTEXT_S3_BUCKET
+ * (with SHAREDCONTEXT_S3_ENDPOINT / _PREFIX / _REGION) selects S3.
+ */
+export function resolveStorage(): ResolvedStorage {
+  const env = process.env;
+  const dirFromEnv = env.SHAREDCONTEXT_STORAGE_DIR?.trim();
+  if (dirFromEnv) return { type: "local", directory: resolve(dirFromEnv) };
+
+  const storage = loadConfig().storage ?? {};
+  const bucketFromEnv = env.SHAREDCONTEXT_S3_BUCKET?.trim();
+
+  if (bucketFromEnv || storage.type === "s3") {
+    const s3 = storage.s3 ?? {};
+    const bucket = bucketFromEnv || s3.bucket;
+    if (!bucket) {
+      throw new Error(`Config storage.type is "s3" but storage.s3.bucket is not set (${getConfigPath()}).`);
+    }
+    const accessKeyId = env.AWS_ACCESS_KEY_ID || s3.accessKeyId;
+    const secretAccessKey = env.AWS_SECRET_ACCESS_KEY || s3.secretAccessKey;
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error(
+        "S3 storage needs credentials: set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY."
+      );
+    }
+    return {
+      type: "s3",
+      bucket,
+      prefix: env.SHAREDCONTEXT_S3_PREFIX ?? s3.prefix,
+      region: env.SHAREDCONTEXT_S3_REGION || env.AWS_REGION || s3.region,
+      endpoint: env.SHAREDCONTEXT_S3_ENDPOINT || s3.endpoint,
+      forcePathStyle: s3.forcePathStyle,
+      credentials: {
+        accessKeyId,
+        secretAccessKey,
+        ...(env.AWS_SESSION_TOKEN ? { sessionToken: env.AWS_SESSION_TOKEN } : {}),
+      },
+    };
+  }
+
+  if (storage.type === "local") {
+    if (!storage.directory) {
+      throw new Error(
+        `Config storage.type is "local" but storage.directory is not set (${getConfigPath()}).`
+      );
+    }
+    return { type: "local", directory: resolve(storage.directory) };
+  }
+
+  return { type: "arweave" };
+}
@@ -0,0 +1,101 @@
+import { statSync } from "fs";
+import type Database from "better-sqlite3";
+import {
+  discoverConversationFiles,
+  getConversationSources,
+  getParseOptions,
+  parseConversationFile,
+  type ConversationFileRef,
+  type ConversationSource,
+} from "./sources.js";
+import {
+  getIndexedConversations,
+  getSharedConversationImports,
+  indexConversation,
+  removeIndexedConversation,
+} from "./db.js";
+import type { ParseOptions } from "./parsers/tools.js";
+import type { Conversation } from "../types.js";
+
+/**
+ * Index a conversation parsed from a local file, remembering the file's
+ * mtime so refreshes can skip it until it changes.
+ */
+export function indexLocalConversation(
+  db: Database.Database,
+  conversation: Conversation,
+  file: ConversationFileRef
+): void {
+  const mtimeMs = statSync(file.path).mtimeMs;
+  indexConversation(db, conversation, "local", { path: file.path, mtimeMs });
+}
+
+/**
+ * Index conversations pulled from storage. Ones that also exist as local
+ * files keep their local entry.
+ */
+export function indexRemoteConversations(
+  db: Database.Database,
+  conversations: Conversation[]
+): void {
+  for (const conversation of conversations) {
+    if (conversation.messages.length === 0) continue;
+    indexConversation(db, conversation, "remote");
+  }
+}
+
+/**
+ * Index conversations imported from shares, newest import of each first.
+ * Conversations of our own with the same id keep their entry.
+ */
+export function indexSharedConversations(db: Database.Database): number {
+  const seen = new Set<string>();
+  for (const entry of getSharedConversationImports(db)) {
+    const key = `${entry.client}:${entry.conversationId}`;
+    if (seen.has(key) || entry.conversation.messages.length === 0) continue;
+    seen.add(key);
+    indexConversation(db, entry.conversation, "shared");
+  }
+  return seen.size;
+}
+
+/**
+ * Bring the index up to date with the conversation files on disk: parse
+ * files that are new or changed since they were indexed, and drop local
+ * entries whose file is gone. Cheap when nothing changed (one stat per file).
+ */
+export function refreshLocalConversationIndex(
+  db: Database.Database,
+  sources: ConversationSource[] = getConversationSources(),
+  options: ParseOptions = getParseOptions()
+): { indexed: number; removed: number } {
+  const local = getIndexedConversations(db).filter((c) => c.origin === "local");
+  const byPath = new Map(local.map((c) => [c.sourcePath, c]));
+  const seen = new Set<string>();
+  let indexed = 0;
+  let removed = 0;
+
+  for (const file of discoverConversationFiles(sources)) {
+    seen.add(file.path);
+    try {
+      const mtimeMs = statSync(file.path).mtimeMs;
+      if (byPath.get(file.path)?.sourceMtime === mtimeMs) continue;
+
+      const conversation = parseConversationFile(file, sources, options);
+      if (conversation.messages.length === 0) continue;
+      indexConversation(db, conversation, "local", { path: file.path, mtimeMs });
+      indexed++;
+    } catch {
+      // Unreadable file — leave its entry as it was
+    }
+  }
+
+  for (const entry of local) {
+    if (entry.sourcePath && !seen.has(entry.sourcePath)) {
+      removeIndexedConversation(db, entry.client, entry.conversationId);
+      removed++;
+    }
+  }
+
+  return { indexed, removed };
+}
@@ -0,0 +1,169 @@
+import type { Conversation, ConversationMessage } from "../types.js";
+
+/** Rough estimate used to turn a token budget into characters. */
+export const CHARS_PER_TOKEN = 4;
+
+/** Messages shown before and after each match when recalling around a topic. */
+const DEFAULT_AROUND_CONTEXT = 2;
+
+export interface SliceOptions {
+  /** First message to show (0-based, inclusive). */
+  from?: number;
+  /** Last message to show (0-based, inclusive). */
+  to?: number;
+  /** Show only messages containing one of these tokens, with their neighbours. */
+  around?: string[];
+  /** Neighbours shown on each side of a match. */
+  context?: number;
+  tokenBudget: number;
+  includeTools?: boolean;
+}
+
+export interface ConversationSlice {
+  /** Indexes of the messages shown, ascending. */
+  indexes: number[];
+  /** Indexes of messages that matched `around`. */
+  matches: number[];
+  /** Messages in the requested range that did not fit the budget. */
+  truncated: number;
+  /** Tool calls left out because includeTools was off. */
+  hiddenTools: number;
+  text: string;
+}
+
+/**
+ * Pick the part of a conversation to show within a token budget.
+ *
+ * - `around`: matching messages and their neighbours, nearest to a match
+ *   first, so the matches themselves survive a tight budget.
+ * - `from` without `to`: reads forward from `from`.
+ * - otherwise: the tail of the range, as recall has always done.
+ *
+ * Gaps between shown messages are marked, and every message carries its
+ * index so a follow-up call can ask for a precise range.
+ */
+export function sliceConversation(
+  conversation: Conversation,
+  options: SliceOptions
+): ConversationSlice {
+  const total = conversation.messages.length;
+  if (total === 0) {
+    return { indexes: [], matches: [], truncated: 0, hiddenTools: 0, text: "" };
+  }
+  const first = clamp(options.from ?? 0, 0, total - 1);
+  const last = clamp(options.to ?? total - 1, first, total - 1);
+  const charBudget = options.tokenBudget * CHARS_PER_TOKEN;
+
+  const matches: number[] = [];
+  let order: number[];
+  if (options.around && options.around.length > 0) {
+    const tokens = new Set(options.around.map((t) => t.toLowerCase()));
+    for (let i = first; i <= last; i++) {
+      if (messageTokens(conversation.messages[i]).some((t) => tokens.has(t))) matches.push(i);
+    }
+    order = orderAroundMatches(matches, first, last, options.context ?? DEFAULT_AROUND_CONTEXT);
+  } else if (options.from !== undefined && options.to === undefined) {
+    order = range(first, last);
+  } else {
+    order = range(first, last).reverse();
+  }
+
+  const blocks = new Map<number, string>();
+  let totalChars = 0;
+  for (const i of order) {
+    const block = formatConversationMessage(conversation.messages[i], i, options.includeTools === true);
+    if (totalChars + block.length > charBudget) break;
+    blocks.set(i, block);
+    totalChars += block.length;
+  }
+
+  const indexes = [...blocks.keys()].sort((a, b) => a - b);
+  const parts: string[] = [];
+  let hiddenTools = 0;
+  for (let n = 0; n < indexes.length; n++) {
+    const i = indexes[n];
+    const gap = n === 0 ? 0 : i - indexes[n - 1] - 1;
+    if (gap > 0) parts.push(`[… ${gap} message(s) skipped …]`);
+    parts.push(blocks.get(i)!);
+    if (!options.includeTools) hiddenTools += conversation.messages[i].tools?.length ?? 0;
+  }
+
+  return {
+    indexes,
+    matches,
+    truncated: order.length - indexes.length,
+    hiddenTools,
+    text: parts.join("\n\n"),
+  };
+}
+
+/**
+ * One message for recall_conversation, prefixed with its index and
+ * optionally followed by the tool calls made after it, one per line.
+ */
+export function formatConversationMessage(
+  message: ConversationMessage,
+  index: number,
+  includeTools: boolean
+): string {
+  const text = `#${index} [${message.role}]: ${message.content}`;
+  if (!includeTools || !message.tools?.length) return text;
+
+  const calls = message.tools.map((call) => {
+    let line = `  ↳ ${call.name}${call.input ? `: ${call.input}` : ""}`;
+    if (call.files?.length && call.files.join(", ") !== call.input) {
+      line += ` (files: ${call.files.join(", ")})`;
+    }
+    if (call.result) {
+      const excerpt = call.result.replace(/\s+/g, " ").slice(0, 200);
+      line += `\n    ${call.isError ? "error" : "→"} ${excerpt}`;
+    }
+    return line;
+  });
+  return `${text}\n${calls.join("\n")}`;
+}
+
+/**
+ * A message's searchable text: its content plus captured tool inputs and
+ * files ("the migration in db/schema.ts").
+ */
+export function messageSearchText(message: ConversationMessage): string {
+  return [
+    message.content,
+    ...(message.tools ?? []).flatMap((t) => [t.input ?? "", ...(t.files ?? [])]),
+  ].join(" ");
+}
+
+/**
+ * The first user message, on one line, for conversation listings.
+ */
+export function conversationPreview(conversation: Conversation, maxLength = 100): string {
+  const message = conversation.messages.find((m) => m.role === "user") ?? conversation.messages[0];
+  if (!message) return "";
+  const text = message.content.replace(/\s+/g, " ").trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+function messageTokens(message: ConversationMessage): string[] {
+  return messageSearchText(message).toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Indexes within `context` of a match, closest first. */
+function orderAroundMatches(matches: number[], first: number, last: number, context: number): number[] {
+  const distance = new Map<number, number>();
+  for (const match of matches) {
+    for (let i = Math.max(first, match - context); i <= Math.min(last, match + context); i++) {
+      const d = Math.abs(i - match);
+      if (d < (distance.get(i) ?? Infinity)) distance.set(i, d);
+    }
+  }
+  return [...distance.entries()].sort((a, b) => a[1] - b[1] || a[0] - b[0]).map(([i]) => i);
+}
+
+function range(first: number, last: number): number[] {
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, n) => first + n);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), Math.max(min, max));
+}
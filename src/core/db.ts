@@ -1,5 +1,16 @@
 import Database from "better-sqlite3";
-import type { Fact, Conversation } from "../types.js";
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { formatHlc, parseHlc, receiveHlc, tickHlc } from "./hlc.js";
+import type { Tag } from "./storage.js";
+import type {
+  Fact,
+  Conversation,
+  ConversationClient,
+  ConversationMessage,
+  ConversationSummary,
+  FactConflict,
+} from "../types.js";
 
 export function openDatabase(dbPath: string): Database.Database {
   const db = new Database(dbPath);
@@ -22,12 +33,50 @@ function initSchema(db: Database.Database): void {
       created TEXT NOT NULL,
       last_confirmed TEXT NOT NULL,
       access_count INTEGER DEFAULT 0,
-      dirty INTEGER DEFAULT 1
+      dirty INTEGER DEFAULT 1,
+      hlc TEXT
     );
 
     CREATE TABLE IF NOT EXISTS pending_deletes (
       key TEXT PRIMARY KEY,
-      deleted_at TEXT NOT NULL
+      deleted_at TEXT NOT NULL,
+      hlc TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS fact_conflicts (
+      fact_key TEXT NOT NULL,
+      shard_version INTEGER NOT NULL,
+      detected_at TEXT NOT NULL,
+      candidates TEXT NOT NULL,
+      winner INTEGER NOT NULL,
+      resolved_at TEXT,
+      PRIMARY KEY (fact_key, shard_version)
+    );
+
+    CREATE TABLE IF NOT EXISTS outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      label TEXT NOT NULL,
+      version INTEGER,
+      data BLOB,
+      tags TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL,
+      last_error TEXT,
+      tx_id TEXT,
+      created_at TEXT NOT NULL,
+      sent_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_outbox_status
+      ON outbox (status, id);
+
+    CREATE TABLE IF NOT EXISTS pulled_shards (
+      tx_id TEXT PRIMARY KEY,
+      version INTEGER NOT NULL,
+      device_id TEXT,
+      pulled_at TEXT NOT NULL
     );
 
     CREATE TABLE IF NOT EXISTS meta (
@@ -35,6 +84,35 @@ function initSchema(db: Database.Database): void {
       value TEXT NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS fact_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      fact_key TEXT NOT NULL,
+      fact_id TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      value TEXT NOT NULL,
+      tags TEXT NOT NULL,
+      confidence REAL,
+      source_session TEXT,
+      created TEXT NOT NULL,
+      valid_from TEXT NOT NULL,
+      replaced_at TEXT NOT NULL,
+      change TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_fact_history_key
+      ON fact_history (fact_key, replaced_at);
+
+    CREATE TABLE IF NOT EXISTS ranker_vocabulary (
+      term TEXT PRIMARY KEY,
+      doc_freq INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS ranker_documents (
+      fact_key TEXT PRIMARY KEY,
+      content_hash TEXT NOT NULL,
+      terms TEXT NOT NULL
+    );
+
     CREATE TABLE IF NOT EXISTS shared_conversation_imports (
       share_id TEXT PRIMARY KEY,
       tx_id TEXT NOT NULL,
@@ -43,7 +121,59 @@ function initSchema(db: Database.Database): void {
       project TEXT NOT NULL,
       message_count INTEGER NOT NULL,
       imported_at TEXT NOT NULL,
-      payload TEXT NOT NULL
+      payload TEXT NOT NULL,
+      wallet TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS created_shares (
+      share_id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL DEFAULT 'conversation',
+      tx_id TEXT NOT NULL,
+      conversation_id TEXT NOT NULL,
+      client TEXT NOT NULL,
+      project TEXT NOT NULL,
+      message_count INTEGER NOT NULL,
+      recipients TEXT,
+      expires_at TEXT,
+      created_at TEXT NOT NULL,
+      revoked_at TEXT,
+      revocation_tx_id TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS fact_provenance (
+      fact_key TEXT PRIMARY KEY,
+      share_id TEXT NOT NULL,
+      wallet TEXT NOT NULL,
+      imported_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS conversation_segment_cache (
+      tx_id TEXT PRIMARY KEY,
+      wallet TEXT NOT NULL,
+      conversation_id TEXT NOT NULL,
+      client TEXT NOT NULL,
+      project TEXT NOT NULL,
+      message_offset INTEGER NOT NULL,
+      timestamp TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      message_count INTEGER NOT NULL,
+      messages TEXT NOT NULL,
+      cached_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_conversation_segment_cache_wallet
+      ON conversation_segment_cache (wallet, conversation_id);
+
+    CREATE TABLE IF NOT EXISTS conversation_summaries (
+      client TEXT NOT NULL,
+      conversation_id TEXT NOT NULL,
+      method TEXT NOT NULL,
+      message_count INTEGER NOT NULL,
+      summary TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      content_hash TEXT,
+      PRIMARY KEY (client, conversation_id)
     );
   `);
 
@@ -52,6 +182,141 @@ function initSchema(db: Database.Database): void {
   if (!cols.some((c) => c.name === "dirty")) {
     db.exec("ALTER TABLE facts ADD COLUMN dirty INTEGER DEFAULT 1");
   }
+
+  // Migration: add hybrid logical clock columns if missing
+  if (!cols.some((c) => c.name === "hlc")) {
+    db.exec("ALTER TABLE facts ADD COLUMN hlc TEXT");
+  }
+  const deleteCols = db.pragma("table_info(pending_deletes)") as { name: string }[];
+  if (!deleteCols.some((c) => c.name === "hlc")) {
+    db.exec("ALTER TABLE pending_deletes ADD COLUMN hlc TEXT");
+  }
+
+  // Migration: remember who shared an imported conversation
+  const importCols = db.pragma("table_info(shared_conversation_imports)") as { name: string }[];
+  if (!importCols.some((c) => c.name === "wallet")) {
+    db.exec("ALTER TABLE shared_conversation_imports ADD COLUMN wallet TEXT");
+  }
+
+  // Migration: created shares were all conversations before fact shares
+  const shareCols = db.pragma("table_info(created_shares)") as { name: string }[];
+  if (!shareCols.some((c) => c.name === "kind")) {
+    db.exec("ALTER TABLE created_shares ADD COLUMN kind TEXT NOT NULL DEFAULT 'conversation'");
+  }
+
+  // Migration: summaries were judged stale by message count alone
+  const summaryCols = db.pragma("table_info(conversation_summaries)") as { name: string }[];
+  if (!summaryCols.some((c) => c.name === "content_hash")) {
+    db.exec("ALTER TABLE conversation_summaries ADD COLUMN content_hash TEXT");
+  }
+
+  // Migration: snapshots record which devices' deltas they include
+  const pulledCols = db.pragma("table_info(pulled_shards)") as { name: string }[];
+  if (!pulledCols.some((c) => c.name === "device_id")) {
+    db.exec("ALTER TABLE pulled_shards ADD COLUMN device_id TEXT");
+  }
+
+  initFactSearch(db);
+  initConversationSearch(db);
+}
+
+/**
+ * Full-text index over facts (key, value, tags), kept in sync by triggers.
+ * Uses an external-content FTS5 table so fact text is not stored twice.
+ */
+function initFactSearch(db: Database.Database): void {
+  const existed = db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'facts_fts'")
+    .get();
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS facts_fts USING fts5(
+      key, value, tags,
+      content = 'facts',
+      content_rowid = 'rowid',
+      tokenize = 'porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS facts_fts_insert AFTER INSERT ON facts BEGIN
+      INSERT INTO facts_fts (rowid, key, value, tags)
+      VALUES (new.rowid, new.key, new.value, new.tags);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS facts_fts_delete AFTER DELETE ON facts BEGIN
+      INSERT INTO facts_fts (facts_fts, rowid, key, value, tags)
+      VALUES ('delete', old.rowid, old.key, old.value, old.tags);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS facts_fts_update AFTER UPDATE OF key, value, tags ON facts BEGIN
+      INSERT INTO facts_fts (facts_fts, rowid, key, value, tags)
+      VALUES ('delete', old.rowid, old.key, old.value, old.tags);
+      INSERT INTO facts_fts (rowid, key, value, tags)
+      VALUES (new.rowid, new.key, new.value, new.tags);
+    END;
+  `);
+
+  // Migration: index facts written before the search table existed.
+  if (!existed) {
+    db.exec("INSERT INTO facts_fts (facts_fts) VALUES ('rebuild')");
+  }
+}
+
+/**
+ * Local index of conversations for search_conversations: one row per
+ * conversation, one per message, and an FTS5 table over message text with
+ * client, project and timestamp alongside for display.
+ */
+function initConversationSearch(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS conversation_index (
+      client TEXT NOT NULL,
+      conversation_id TEXT NOT NULL,
+      project TEXT NOT NULL,
+      origin TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      message_count INTEGER NOT NULL,
+      source_path TEXT,
+      source_mtime REAL,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (client, conversation_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_conversation_index_path
+      ON conversation_index (source_path);
+
+    CREATE TABLE IF NOT EXISTS conversation_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      client TEXT NOT NULL,
+      conversation_id TEXT NOT NULL,
+      project TEXT NOT NULL,
+      idx INTEGER NOT NULL,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      timestamp TEXT,
+      hash TEXT NOT NULL,
+      UNIQUE (client, conversation_id, idx)
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS conversation_messages_fts USING fts5(
+      content, client UNINDEXED, project UNINDEXED, timestamp UNINDEXED,
+      content = 'conversation_messages',
+      content_rowid = 'id',
+      tokenize = 'porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS conversation_messages_fts_insert
+    AFTER INSERT ON conversation_messages BEGIN
+      INSERT INTO conversation_messages_fts (rowid, content, client, project, timestamp)
+      VALUES (new.id, new.content, new.client, new.project, new.timestamp);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS conversation_messages_fts_delete
+    AFTER DELETE ON conversation_messages BEGIN
+      INSERT INTO conversation_messages_fts (conversation_messages_fts, rowid, content, client, project, timestamp)
+      VALUES ('delete', old.id, old.content, old.client, old.project, old.timestamp);
+    END;
+  `);
 }
 
 // -- Meta operations --
@@ -73,12 +338,92 @@ export function setMeta(
   ).run(key, value);
 }
 
+/** Keys of meta rows starting with `prefix`. */
+export function getMetaKeys(db: Database.Database, prefix: string): string[] {
+  const rows = db
+    .prepare("SELECT key FROM meta WHERE substr(key, 1, ?) = ?")
+    .all(prefix.length, prefix) as Array<{ key: string }>;
+  return rows.map((row) => row.key);
+}
+
+export function deleteMeta(db: Database.Database, key: string): void {
+  db.prepare("DELETE FROM meta WHERE key = ?").run(key);
+}
+
+// -- Device identity and clock --
+
+/**
+ * Stable identifier for this device, created on first use.
+ */
+export function getDeviceId(db: Database.Database): string {
+  const existing = getMeta(db, "device_id");
+  if (existing) return existing;
+  const deviceId = uuidv4();
+  setMeta(db, "device_id", deviceId);
+  return deviceId;
+}
+
+/**
+ * Stamp a local change with the next hybrid logical clock value.
+ */
+export function nextHlc(db: Database.Database): string {
+  const last = parseHlc(getMeta(db, "hlc_clock") ?? "");
+  const next = formatHlc(tickHlc(last, Date.now(), getDeviceId(db)));
+  setMeta(db, "hlc_clock", next);
+  return next;
+}
+
+/**
+ * Fold a clock value seen from another device into the local clock.
+ */
+export function observeHlc(db: Database.Database, remote: string): void {
+  const parsed = parseHlc(remote);
+  if (!parsed) return;
+  const last = parseHlc(getMeta(db, "hlc_clock") ?? "");
+  setMeta(
+    db,
+    "hlc_clock",
+    formatHlc(receiveHlc(last, parsed, Date.now(), getDeviceId(db)))
+  );
+}
+
 // -- Fact operations --
 
-export function upsertFact(db: Database.Database, fact: Fact): void {
+/**
+ * Insert or update a fact. Local writes are marked dirty for the next push;
+ * changes pulled from other devices pass `dirty: false`.
+ */
+export function upsertFact(
+  db: Database.Database,
+  fact: Fact,
+  options: { dirty?: boolean } = {}
+): void {
+  // Keep the version being overwritten, unless this is just a re-confirmation.
+  // A changed fact is no longer the one imported from a share, if it was.
+  const existing = getFact(db, fact.key);
+  if (
+    existing &&
+    (existing.value !== fact.value ||
+      existing.scope !== fact.scope ||
+      existing.confidence !== fact.confidence ||
+      JSON.stringify(existing.tags) !== JSON.stringify(fact.tags))
+  ) {
+    recordFactHistory(db, existing, "update", fact.last_confirmed);
+    db.prepare("DELETE FROM fact_provenance WHERE fact_key = ?").run(fact.key);
+  }
+
+  // Local writes get a fresh clock; changes replayed from shards keep theirs.
+  let hlc: string;
+  if (fact.hlc) {
+    hlc = fact.hlc;
+    observeHlc(db, fact.hlc);
+  } else {
+    hlc = nextHlc(db);
+  }
+
   db.prepare(
-    `INSERT INTO facts (id, scope, key, value, tags, confidence, source_session, created, last_confirmed, access_count, dirty)
-     VALUES (@id, @scope, @key, @value, @tags, @confidence, @source_session, @created, @last_confirmed, @access_count, 1)
+    `INSERT INTO facts (id, scope, key, value, tags, confidence, source_session, created, last_confirmed, access_count, dirty, hlc)
+     VALUES (@id, @scope, @key, @value, @tags, @confidence, @source_session, @created, @last_confirmed, @access_count, @dirty, @hlc)
      ON CONFLICT(key) DO UPDATE SET
        id = excluded.id,
        scope = excluded.scope,
@@ -88,22 +433,39 @@ export function upsertFact(db: Database.Database, fact: Fact): void {
        source_session = excluded.source_session,
        last_confirmed = excluded.last_confirmed,
        access_count = excluded.access_count,
-       dirty = 1`
+       dirty = excluded.dirty,
+       hlc = excluded.hlc`
   ).run({
     ...fact,
     tags: JSON.stringify(fact.tags),
+    dirty: options.dirty === false ? 0 : 1,
+    hlc,
   });
   // If this key was pending delete, remove it from pending_deletes
   db.prepare("DELETE FROM pending_deletes WHERE key = ?").run(fact.key);
 }
 
-export function deleteFact(db: Database.Database, key: string): void {
-  const exists = db.prepare("SELECT 1 FROM facts WHERE key = ?").get(key);
+/**
+ * Delete a fact. Local deletes queue a tombstone for the next push;
+ * deletes pulled from other devices pass `dirty: false`.
+ */
+export function deleteFact(
+  db: Database.Database,
+  key: string,
+  hlc?: string,
+  options: { dirty?: boolean } = {}
+): void {
+  const existing = getFact(db, key);
   db.prepare("DELETE FROM facts WHERE key = ?").run(key);
-  if (exists) {
+  db.prepare("DELETE FROM fact_provenance WHERE fact_key = ?").run(key);
+  if (existing) {
+    const now = new Date().toISOString();
+    recordFactHistory(db, existing, "delete", now);
+    if (hlc) observeHlc(db, hlc);
+    if (options.dirty === false) return;
     db.prepare(
-      "INSERT OR REPLACE INTO pending_deletes (key, deleted_at) VALUES (?, ?)"
-    ).run(key, new Date().toISOString());
+      "INSERT OR REPLACE INTO pending_deletes (key, deleted_at, hlc) VALUES (?, ?, ?)"
+    ).run(key, now, hlc ?? nextHlc(db));
   }
 }
 
@@ -137,11 +499,62 @@ export function searchByTags(
   db: Database.Database,
   tags: string[]
 ): Fact[] {
-  // Pull all facts and filter in JS since tags are stored as JSON
-  const all = getAllFacts(db);
-  return all.filter((fact) =>
-    tags.some((tag) => fact.tags.includes(tag))
-  );
+  if (tags.length === 0) return [];
+  // Tags are stored as a JSON array; expand them with json_each to filter in SQL.
+  const placeholders = tags.map(() => "?").join(", ");
+  const rows = db
+    .prepare(
+      `SELECT * FROM facts
+       WHERE EXISTS (
+         SELECT 1 FROM json_each(facts.tags) WHERE json_each.value IN (${placeholders})
+       )
+       ORDER BY last_confirmed DESC`
+    )
+    .all(...tags) as Record<string, unknown>[];
+  return rows.map(rowToFact);
+}
+
+export interface FactSearchResult {
+  fact: Fact;
+  /** BM25 relevance, higher is better. */
+  score: number;
+}
+
+/**
+ * Full-text search over fact keys, values, and tags, ranked by BM25.
+ * Free-form input is tokenized and each term matched as a prefix, so
+ * punctuation in the query never reaches the FTS5 parser.
+ */
+export function searchFacts(
+  db: Database.Database,
+  query: string,
+  limit = 50
+): FactSearchResult[] {
+  const match = toFtsQuery(query);
+  if (!match) return [];
+
+  const rows = db
+    .prepare(
+      `SELECT facts.*, bm25(facts_fts, 2.0, 1.0, 1.5) AS rank
+       FROM facts_fts
+       JOIN facts ON facts.rowid = facts_fts.rowid
+       WHERE facts_fts MATCH ?
+       ORDER BY rank
+       LIMIT ?`
+    )
+    .all(match, limit) as Array<Record<string, unknown> & { rank: number }>;
+
+  // bm25() is negative, with more relevant rows further below zero.
+  return rows.map((row) => ({ fact: rowToFact(row), score: -row.rank }));
+}
+
+function toFtsQuery(query: string): string | null {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((t) => t.length > 1);
+  if (terms.length === 0) return null;
+  return terms.map((t) => `"${t}"*`).join(" OR ");
 }
 
 export function getDirtyFacts(db: Database.Database): Fact[] {
@@ -158,6 +571,14 @@ export function getPendingDeletes(db: Database.Database): string[] {
   return rows.map((r) => r.key);
 }
 
+export function getPendingDeleteEntries(
+  db: Database.Database
+): Array<{ key: string; hlc: string | null }> {
+  return db
+    .prepare("SELECT key, hlc FROM pending_deletes")
+    .all() as Array<{ key: string; hlc: string | null }>;
+}
+
 export function clearDirtyState(db: Database.Database): void {
   db.prepare("UPDATE facts SET dirty = 0").run();
   db.prepare("DELETE FROM pending_deletes").run();
@@ -172,11 +593,676 @@ export function incrementAccessCount(
   ).run(key);
 }
 
+// -- Conversation search --
+
+/**
+ * Where an indexed conversation came from: a file on this machine, a pull
+ * of our own uploads, or a share someone else sent us.
+ */
+export type ConversationOrigin = "local" | "remote" | "shared";
+
+export interface IndexedConversation {
+  client: ConversationClient;
+  conversationId: string;
+  project: string;
+  origin: ConversationOrigin;
+  startedAt: string;
+  updatedAt: string;
+  messageCount: number;
+  sourcePath: string | null;
+  sourceMtime: number | null;
+}
+
+export interface ConversationSearchHit {
+  client: ConversationClient;
+  conversationId: string;
+  project: string;
+  /** Position of the matching message in the conversation. */
+  messageIndex: number;
+  role: ConversationMessage["role"];
+  timestamp: string | null;
+  updatedAt: string;
+  /** Matching text with hits wrapped in [brackets]. */
+  snippet: string;
+  /** Wallet that shared the conversation, for imported shares ("unknown" if not recorded). */
+  sharedBy: string | null;
+  /** BM25 relevance, higher is better. */
+  score: number;
+}
+
+/**
+ * Add or refresh a conversation in the search index. Only messages whose
+ * text changed are rewritten. A remote copy never replaces a local one:
+ * the file on disk is always at least as fresh. A shared copy never
+ * replaces either, since a conversation of our own is the original.
+ */
+export function indexConversation(
+  db: Database.Database,
+  conversation: Conversation,
+  origin: ConversationOrigin,
+  source?: { path: string; mtimeMs: number }
+): void {
+  db.transaction(() => {
+    const existing = db
+      .prepare("SELECT origin FROM conversation_index WHERE client = ? AND conversation_id = ?")
+      .get(conversation.client, conversation.id) as { origin: ConversationOrigin } | undefined;
+    if (origin === "remote" && existing?.origin === "local") return;
+    if (origin === "shared" && existing && existing.origin !== "shared") return;
+
+    db.prepare(
+      `INSERT INTO conversation_index
+         (client, conversation_id, project, origin, started_at, updated_at, message_count,
+          source_path, source_mtime, indexed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (client, conversation_id) DO UPDATE SET
+         project = excluded.project,
+         origin = excluded.origin,
+         started_at = excluded.started_at,
+         updated_at = excluded.updated_at,
+         message_count = excluded.message_count,
+         source_path = excluded.source_path,
+         source_mtime = excluded.source_mtime,
+         indexed_at = excluded.indexed_at`
+    ).run(
+      conversation.client,
+      conversation.id,
+      conversation.project,
+      origin,
+      conversation.startedAt,
+      conversation.updatedAt,
+      conversation.messages.length,
+      source?.path ?? null,
+      source?.mtimeMs ?? null,
+      new Date().toISOString()
+    );
+
+    const stored = new Map(
+      (
+        db
+          .prepare(
+            "SELECT idx, hash FROM conversation_messages WHERE client = ? AND conversation_id = ?"
+          )
+          .all(conversation.client, conversation.id) as Array<{ idx: number; hash: string }>
+      ).map((row) => [row.idx, row.hash])
+    );
+
+    const remove = db.prepare(
+      "DELETE FROM conversation_messages WHERE client = ? AND conversation_id = ? AND idx = ?"
+    );
+    const insert = db.prepare(
+      `INSERT INTO conversation_messages
+         (client, conversation_id, project, idx, role, content, timestamp, hash)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    conversation.messages.forEach((message, idx) => {
+      const content = searchableMessageText(message);
+      const hash = createHash("sha256")
+        .update(`${conversation.project}\0${message.role}\0${content}`)
+        .digest("hex");
+      if (stored.get(idx) === hash) return;
+      if (stored.has(idx)) remove.run(conversation.client, conversation.id, idx);
+      insert.run(
+        conversation.client,
+        conversation.id,
+        conversation.project,
+        idx,
+        message.role,
+        content,
+        message.timestamp ?? null,
+        hash
+      );
+    });
+
+    db.prepare(
+      "DELETE FROM conversation_messages WHERE client = ? AND conversation_id = ? AND idx >= ?"
+    ).run(conversation.client, conversation.id, conversation.messages.length);
+  })();
+}
+
+export function getIndexedConversations(db: Database.Database): IndexedConversation[] {
+  const rows = db
+    .prepare("SELECT * FROM conversation_index ORDER BY updated_at DESC")
+    .all() as Array<Record<string, unknown>>;
+  return rows.map((row) => ({
+    client: row.client as ConversationClient,
+    conversationId: row.conversation_id as string,
+    project: row.project as string,
+    origin: row.origin as ConversationOrigin,
+    startedAt: row.started_at as string,
+    updatedAt: row.updated_at as string,
+    messageCount: row.message_count as number,
+    sourcePath: (row.source_path as string | null) ?? null,
+    sourceMtime: (row.source_mtime as number | null) ?? null,
+  }));
+}
+
+export function removeIndexedConversation(
+  db: Database.Database,
+  client: ConversationClient,
+  conversationId: string
+): void {
+  db.transaction(() => {
+    db.prepare("DELETE FROM conversation_messages WHERE client = ? AND conversation_id = ?").run(
+      client,
+      conversationId
+    );
+    db.prepare("DELETE FROM conversation_index WHERE client = ? AND conversation_id = ?").run(
+      client,
+      conversationId
+    );
+  })();
+}
+
+/**
+ * Full-text search over indexed conversation messages, ranked by BM25.
+ * Query terms are prefix-matched like searchFacts.
+ */
+export function searchConversations(
+  db: Database.Database,
+  query: string,
+  options: { client?: ConversationClient; project?: string; limit?: number } = {}
+): ConversationSearchHit[] {
+  const match = toFtsQuery(query);
+  if (!match) return [];
+
+  const filters: string[] = [];
+  const params: unknown[] = [match];
+  if (options.client) {
+    filters.push("m.client = ?");
+    params.push(options.client);
+  }
+  if (options.project) {
+    filters.push("m.project = ?");
+    params.push(options.project);
+  }
+  params.push(options.limit ?? 20);
+
+  const rows = db
+    .prepare(
+      `SELECT m.client, m.conversation_id, m.project, m.idx, m.role, m.timestamp,
+              c.updated_at,
+              CASE WHEN c.origin = 'shared' THEN COALESCE(
+                (SELECT s.wallet FROM shared_conversation_imports s
+                 WHERE s.client = c.client AND s.conversation_id = c.conversation_id
+                 ORDER BY s.imported_at DESC LIMIT 1),
+                'unknown'
+              ) END AS shared_by,
+              snippet(conversation_messages_fts, 0, '[', ']', '…', 16) AS snippet,
+              bm25(conversation_messages_fts) AS rank
+       FROM conversation_messages_fts
+       JOIN conversation_messages m ON m.id = conversation_messages_fts.rowid
+       JOIN conversation_index c
+         ON c.client = m.client AND c.conversation_id = m.conversation_id
+       WHERE conversation_messages_fts MATCH ?
+       ${filters.map((f) => `AND ${f}`).join(" ")}
+       ORDER BY rank
+       LIMIT ?`
+    )
+    .all(...params) as Array<Record<string, unknown> & { rank: number }>;
+
+  return rows.map((row) => ({
+    client: row.client as ConversationClient,
+    conversationId: row.conversation_id as string,
+    project: row.project as string,
+    messageIndex: row.idx as number,
+    role: row.role as ConversationMessage["role"],
+    timestamp: (row.timestamp as string | null) ?? null,
+    updatedAt: row.updated_at as string,
+    snippet: (row.snippet as string).replace(/\s+/g, " ").trim(),
+    sharedBy: (row.shared_by as string | null) ?? null,
+    score: -row.rank,
+  }));
+}
+
+/**
+ * Message text as indexed: the content plus any captured tool calls,
+ * so "which file did we change" can match a path.
+ */
+function searchableMessageText(message: ConversationMessage): string {
+  const tools = (message.tools ?? []).map((t) =>
+    [t.name, t.input ?? "", ...(t.files ?? [])].filter(Boolean).join(" ")
+  );
+  return [message.content, ...tools].join("\n");
+}
+
+// -- Conflicts --
+
+export interface StoredFactConflict extends FactConflict {
+  detectedAt: string;
+  resolvedAt: string | null;
+}
+
+/**
+ * Record conflicts found while pulling. Already-known conflicts are left untouched.
+ */
+export function saveFactConflicts(
+  db: Database.Database,
+  conflicts: FactConflict[]
+): number {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO fact_conflicts (fact_key, shard_version, detected_at, candidates, winner)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+  let added = 0;
+  const now = new Date().toISOString();
+  for (const conflict of conflicts) {
+    const result = insert.run(
+      conflict.key,
+      conflict.shard_version,
+      now,
+      JSON.stringify(conflict.candidates),
+      conflict.winner
+    );
+    added += result.changes;
+  }
+  return added;
+}
+
+export function getFactConflicts(
+  db: Database.Database,
+  options: { includeResolved?: boolean } = {}
+): StoredFactConflict[] {
+  const rows = db
+    .prepare(
+      `SELECT * FROM fact_conflicts
+       ${options.includeResolved ? "" : "WHERE resolved_at IS NULL"}
+       ORDER BY detected_at DESC, fact_key`
+    )
+    .all() as Array<{
+    fact_key: string;
+    shard_version: number;
+    detected_at: string;
+    candidates: string;
+    winner: number;
+    resolved_at: string | null;
+  }>;
+  return rows.map((row) => ({
+    key: row.fact_key,
+    shard_version: row.shard_version,
+    candidates: JSON.parse(row.candidates),
+    winner: row.winner,
+    detectedAt: row.detected_at,
+    resolvedAt: row.resolved_at,
+  }));
+}
+
+/**
+ * Mark every open conflict for a key as resolved.
+ */
+export function resolveFactConflicts(db: Database.Database, key: string): void {
+  db.prepare(
+    "UPDATE fact_conflicts SET resolved_at = ? WHERE fact_key = ? AND resolved_at IS NULL"
+  ).run(new Date().toISOString(), key);
+}
+
+// -- Outbox --
+
+export type OutboxKind = "delta" | "snapshot" | "conversation";
+/** pending: waiting for (another) attempt; failed: gave up, needs a manual retry. */
+export type OutboxStatus = "pending" | "failed" | "sent";
+
+export interface NewOutboxItem {
+  kind: OutboxKind;
+  /** Human-readable description, e.g. "delta v12". */
+  label: string;
+  /** Shard version for delta/snapshot items. */
+  version?: number;
+  data: Uint8Array;
+  tags: Tag[];
+}
+
+export interface OutboxItem {
+  id: number;
+  kind: OutboxKind;
+  label: string;
+  version: number | null;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  txId: string | null;
+  bytes: number;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+/**
+ * Queue prepared uploads. Returns their ids in order.
+ * Call inside the same transaction as the state change the uploads carry.
+ */
+export function enqueueOutboxItems(
+  db: Database.Database,
+  items: NewOutboxItem[]
+): number[] {
+  const insert = db.prepare(
+    `INSERT INTO outbox (kind, label, version, data, tags, next_attempt_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const now = new Date().toISOString();
+  return items.map((item) =>
+    Number(
+      insert.run(
+        item.kind,
+        item.label,
+        item.version ?? null,
+        Buffer.from(item.data),
+        JSON.stringify(item.tags),
+        now,
+        now
+      ).lastInsertRowid
+    )
+  );
+}
+
+/**
+ * Outbox items in queue order. Sent items are only included on request.
+ */
+export function getOutboxItems(
+  db: Database.Database,
+  options: { includeSent?: boolean; afterId?: number } = {}
+): OutboxItem[] {
+  const rows = db
+    .prepare(
+      `SELECT id, kind, label, version, status, attempts, next_attempt_at, last_error, tx_id,
+              COALESCE(length(data), 0) AS bytes, created_at, sent_at
+       FROM outbox
+       WHERE id > ? ${options.includeSent ? "" : "AND status != 'sent'"}
+       ORDER BY id`
+    )
+    .all(options.afterId ?? 0) as Array<Record<string, unknown>>;
+  return rows.map((row) => ({
+    id: row.id as number,
+    kind: row.kind as OutboxKind,
+    label: row.label as string,
+    version: (row.version as number | null) ?? null,
+    status: row.status as OutboxStatus,
+    attempts: row.attempts as number,
+    nextAttemptAt: row.next_attempt_at as string,
+    lastError: (row.last_error as string | null) ?? null,
+    txId: (row.tx_id as string | null) ?? null,
+    bytes: row.bytes as number,
+    createdAt: row.created_at as string,
+    sentAt: (row.sent_at as string | null) ?? null,
+  }));
+}
+
+export function getOutboxPayload(
+  db: Database.Database,
+  id: number
+): { data: Uint8Array; tags: Tag[] } | null {
+  const row = db
+    .prepare("SELECT data, tags FROM outbox WHERE id = ? AND data IS NOT NULL")
+    .get(id) as { data: Buffer; tags: string } | undefined;
+  if (!row) return null;
+  return { data: new Uint8Array(row.data), tags: JSON.parse(row.tags) as Tag[] };
+}
+
+/**
+ * Record a successful upload. The payload is dropped; the row stays for inspection.
+ */
+export function markOutboxSent(db: Database.Database, id: number, txId: string): void {
+  db.prepare(
+    "UPDATE outbox SET status = 'sent', tx_id = ?, sent_at = ?, data = NULL, last_error = NULL WHERE id = ?"
+  ).run(txId, new Date().toISOString(), id);
+}
+
+export function markOutboxAttemptFailed(
+  db: Database.Database,
+  id: number,
+  update: { error: string; nextAttemptAt: string; giveUp: boolean }
+): void {
+  db.prepare(
+    `UPDATE outbox SET attempts = attempts + 1, last_error = ?, next_attempt_at = ?, status = ?
+     WHERE id = ?`
+  ).run(update.error, update.nextAttemptAt, update.giveUp ? "failed" : "pending", id);
+}
+
+/**
+ * Make unsent items due now with a fresh attempt budget.
+ * Without an id, every unsent item is retried. Returns the number of items reset.
+ */
+export function retryOutboxItems(db: Database.Database, id?: number): number {
+  const result = db
+    .prepare(
+      `UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = ?
+       WHERE status != 'sent' ${id === undefined ? "" : "AND id = ?"}`
+    )
+    .run(new Date().toISOString(), ...(id === undefined ? [] : [id]));
+  return result.changes;
+}
+
+/**
+ * Remove an unsent item without uploading it. Returns false if there was none.
+ */
+export function dropOutboxItem(db: Database.Database, id: number): boolean {
+  return db.prepare("DELETE FROM outbox WHERE id = ? AND status != 'sent'").run(id).changes > 0;
+}
+
+export function pruneSentOutboxItems(db: Database.Database, sentBefore: string): number {
+  return db
+    .prepare("DELETE FROM outbox WHERE status = 'sent' AND sent_at < ?")
+    .run(sentBefore).changes;
+}
+
+// -- Pulled shards --
+
+/**
+ * Tx ids of fact shards already applied here (or pushed from here).
+ * Pulls skip these instead of everything below a version cursor, so a delta
+ * another device uploads late, under a version already passed, is not lost.
+ */
+export function getPulledShardIds(db: Database.Database): Set<string> {
+  const rows = db.prepare("SELECT tx_id FROM pulled_shards").all() as Array<{ tx_id: string }>;
+  return new Set(rows.map((row) => row.tx_id));
+}
+
+export function markShardsPulled(
+  db: Database.Database,
+  shards: Array<{ txId: string; version: number; deviceId?: string | null }>
+): void {
+  const insert = db.prepare(
+    "INSERT OR IGNORE INTO pulled_shards (tx_id, version, device_id, pulled_at) VALUES (?, ?, ?, ?)"
+  );
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (const shard of shards) insert.run(shard.txId, shard.version, shard.deviceId ?? null, now);
+  })();
+}
+
+/**
+ * Highest pulled shard version per device, for the devices whose shards were
+ * tagged with one. A snapshot built from this state includes those deltas.
+ */
+export function getPulledDeviceVersions(db: Database.Database): Record<string, number> {
+  const rows = db
+    .prepare(
+      "SELECT device_id, MAX(version) AS version FROM pulled_shards WHERE device_id IS NOT NULL GROUP BY device_id"
+    )
+    .all() as Array<{ device_id: string; version: number }>;
+  return Object.fromEntries(rows.map((row) => [row.device_id, row.version]));
+}
+
+// -- Fact history --
+
+export interface FactHistoryEntry {
+  /** The fact as it was before being replaced or deleted. */
+  fact: Fact;
+  /** When this version started being true. */
+  validFrom: string;
+  /** When this version was replaced or deleted. */
+  replacedAt: string;
+  change: "update" | "delete";
+}
+
+function recordFactHistory(
+  db: Database.Database,
+  fact: Fact,
+  change: "update" | "delete",
+  replacedAt: string
+): void {
+  db.prepare(
+    `INSERT INTO fact_history (
+      fact_key, fact_id, scope, value, tags, confidence, source_session, created, valid_from, replaced_at, change
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    fact.key,
+    fact.id,
+    fact.scope,
+    fact.value,
+    JSON.stringify(fact.tags),
+    fact.confidence,
+    fact.source_session,
+    fact.created,
+    versionStart(db, fact),
+    replacedAt,
+    change
+  );
+}
+
+/**
+ * When the live version of a fact started: the last time a previous version
+ * was replaced, or the fact's creation if it was never changed.
+ */
+function versionStart(db: Database.Database, fact: Fact): string {
+  const row = db
+    .prepare(
+      `SELECT MAX(replaced_at) AS t FROM fact_history
+       WHERE fact_key = ? AND change = 'update' AND replaced_at >= ?`
+    )
+    .get(fact.key, fact.created) as { t: string | null };
+  return row.t ?? fact.created;
+}
+
+/**
+ * Prior versions of a fact, newest first. The live version is not included.
+ */
+export function getFactHistory(
+  db: Database.Database,
+  key: string
+): FactHistoryEntry[] {
+  const rows = db
+    .prepare(
+      "SELECT * FROM fact_history WHERE fact_key = ? ORDER BY replaced_at DESC, id DESC"
+    )
+    .all(key) as Record<string, unknown>[];
+  return rows.map(rowToHistoryEntry);
+}
+
+/**
+ * Reconstruct the fact set as it was at a point in time from local history.
+ * Only changes made on (or synced to) this device are known.
+ */
+export function getFactsAsOf(db: Database.Database, asOf: string): Fact[] {
+  const asOfMs = Date.parse(asOf);
+  const byKey = new Map<string, Fact>();
+
+  for (const fact of getAllFacts(db)) {
+    if (Date.parse(versionStart(db, fact)) <= asOfMs) {
+      byKey.set(fact.key, fact);
+    }
+  }
+
+  const rows = db
+    .prepare("SELECT * FROM fact_history ORDER BY replaced_at DESC, id DESC")
+    .all() as Record<string, unknown>[];
+  for (const entry of rows.map(rowToHistoryEntry)) {
+    if (byKey.has(entry.fact.key)) continue;
+    if (Date.parse(entry.validFrom) <= asOfMs && asOfMs < Date.parse(entry.replacedAt)) {
+      byKey.set(entry.fact.key, entry.fact);
+    }
+  }
+
+  return Array.from(byKey.values()).sort((a, b) =>
+    b.last_confirmed.localeCompare(a.last_confirmed)
+  );
+}
+
+function rowToHistoryEntry(row: Record<string, unknown>): FactHistoryEntry {
+  return {
+    fact: {
+      id: row.fact_id as string,
+      scope: row.scope as string,
+      key: row.fact_key as string,
+      value: row.value as string,
+      tags: JSON.parse(row.tags as string),
+      confidence: row.confidence as number,
+      source_session: (row.source_session as string) || null,
+      created: row.created as string,
+      last_confirmed: row.valid_from as string,
+      access_count: 0,
+    },
+    validFrom: row.valid_from as string,
+    replacedAt: row.replaced_at as string,
+    change: row.change as "update" | "delete",
+  };
+}
+
+// -- Ranker vocabulary --
+
+export interface RankerDocument {
+  factKey: string;
+  contentHash: string;
+  /** Weighted term frequencies for the fact's key, value, and tags. */
+  terms: Record<string, number>;
+}
+
+export function getRankerDocuments(db: Database.Database): RankerDocument[] {
+  const rows = db
+    .prepare("SELECT fact_key, content_hash, terms FROM ranker_documents")
+    .all() as Array<{ fact_key: string; content_hash: string; terms: string }>;
+  return rows.map((row) => ({
+    factKey: row.fact_key,
+    contentHash: row.content_hash,
+    terms: JSON.parse(row.terms) as Record<string, number>,
+  }));
+}
+
+export function upsertRankerDocument(
+  db: Database.Database,
+  doc: RankerDocument
+): void {
+  db.prepare(
+    `INSERT INTO ranker_documents (fact_key, content_hash, terms) VALUES (?, ?, ?)
+     ON CONFLICT(fact_key) DO UPDATE SET content_hash = excluded.content_hash, terms = excluded.terms`
+  ).run(doc.factKey, doc.contentHash, JSON.stringify(doc.terms));
+}
+
+export function deleteRankerDocument(db: Database.Database, factKey: string): void {
+  db.prepare("DELETE FROM ranker_documents WHERE fact_key = ?").run(factKey);
+}
+
+/**
+ * Add `delta` to the document frequency of each term. Terms that drop to zero are removed.
+ */
+export function adjustDocumentFrequencies(
+  db: Database.Database,
+  terms: string[],
+  delta: number
+): void {
+  const bump = db.prepare(
+    `INSERT INTO ranker_vocabulary (term, doc_freq) VALUES (?, ?)
+     ON CONFLICT(term) DO UPDATE SET doc_freq = doc_freq + excluded.doc_freq`
+  );
+  for (const term of terms) bump.run(term, delta);
+  db.prepare("DELETE FROM ranker_vocabulary WHERE doc_freq <= 0").run();
+}
+
+export function getDocumentFrequencies(db: Database.Database): Map<string, number> {
+  const rows = db
+    .prepare("SELECT term, doc_freq FROM ranker_vocabulary")
+    .all() as Array<{ term: string; doc_freq: number }>;
+  return new Map(rows.map((r) => [r.term, r.doc_freq]));
+}
+
 export interface SharedConversationImport {
   shareId: string;
   txId: string;
+  /** Wallet that signed the share; null for imports made before it was kept. */
+  wallet: string | null;
   conversationId: string;
-  client: "cursor" | "claude-code";
+  client: ConversationClient;
   project: string;
   messageCount: number;
   importedAt: string;
@@ -198,17 +1284,19 @@ export function saveSharedConversationImport(
   entry: {
     shareId: string;
     txId: string;
+    wallet: string;
     conversation: Conversation;
   }
 ): void {
   db.prepare(
     `INSERT INTO shared_conversation_imports (
-      share_id, tx_id, conversation_id, client, project, message_count, imported_at, payload
+      share_id, tx_id, wallet, conversation_id, client, project, message_count, imported_at, payload
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     entry.shareId,
     entry.txId,
+    entry.wallet,
     entry.conversation.id,
     entry.conversation.client,
     entry.conversation.project,
@@ -223,15 +1311,16 @@ export function getSharedConversationImports(
 ): SharedConversationImport[] {
   const rows = db
     .prepare(
-      `SELECT share_id, tx_id, conversation_id, client, project, message_count, imported_at, payload
+      `SELECT share_id, tx_id, wallet, conversation_id, client, project, message_count, imported_at, payload
        FROM shared_conversation_imports
        ORDER BY imported_at DESC`
     )
     .all() as Array<{
     share_id: string;
     tx_id: string;
+    wallet: string | null;
     conversation_id: string;
-    client: "cursor" | "claude-code";
+    client: ConversationClient;
     project: string;
     message_count: number;
     imported_at: string;
@@ -245,6 +1334,7 @@ export function getSharedConversationImports(
       imports.push({
         shareId: row.share_id,
         txId: row.tx_id,
+        wallet: row.wallet,
         conversationId: row.conversation_id,
         client: row.client,
         project: row.project,
@@ -259,6 +1349,323 @@ export function getSharedConversationImports(
   return imports;
 }
 
+// -- Created shares --
+
+/**
+ * A share made on this machine, kept so it can be listed and revoked later.
+ * The token itself is not stored.
+ */
+export interface CreatedShare {
+  shareId: string;
+  kind: ShareKind;
+  txId: string;
+  /** The conversation id, or the scope of a fact bundle. */
+  conversationId: string;
+  /** The conversation's client; empty for fact bundles. */
+  client: ConversationClient | "";
+  project: string;
+  /** Messages, or facts in a fact bundle. */
+  messageCount: number;
+  /** Wallets a recipient-bound share was addressed to; null for link-only shares. */
+  recipients: string[] | null;
+  expiresAt: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+  revocationTxId: string | null;
+}
+
+export type ShareKind = "conversation" | "facts";
+
+export function saveCreatedShare(
+  db: Database.Database,
+  share: Omit<CreatedShare, "createdAt" | "revokedAt" | "revocationTxId">
+): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO created_shares (
+      share_id, kind, tx_id, conversation_id, client, project, message_count, recipients, expires_at, created_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    share.shareId,
+    share.kind,
+    share.txId,
+    share.conversationId,
+    share.client,
+    share.project,
+    share.messageCount,
+    share.recipients ? JSON.stringify(share.recipients) : null,
+    share.expiresAt,
+    new Date().toISOString()
+  );
+}
+
+/** Shares created on this machine, newest first. */
+export function getCreatedShares(db: Database.Database): CreatedShare[] {
+  const rows = db
+    .prepare(
+      `SELECT share_id, kind, tx_id, conversation_id, client, project, message_count, recipients,
+              expires_at, created_at, revoked_at, revocation_tx_id
+       FROM created_shares
+       ORDER BY created_at DESC`
+    )
+    .all() as Array<{
+    share_id: string;
+    kind: ShareKind;
+    tx_id: string;
+    conversation_id: string;
+    client: ConversationClient | "";
+    project: string;
+    message_count: number;
+    recipients: string | null;
+    expires_at: string | null;
+    created_at: string;
+    revoked_at: string | null;
+    revocation_tx_id: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    shareId: row.share_id,
+    kind: row.kind,
+    txId: row.tx_id,
+    conversationId: row.conversation_id,
+    client: row.client,
+    project: row.project,
+    messageCount: row.message_count,
+    recipients: row.recipients ? (JSON.parse(row.recipients) as string[]) : null,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+    revocationTxId: row.revocation_tx_id,
+  }));
+}
+
+export function markShareRevoked(
+  db: Database.Database,
+  shareId: string,
+  revocationTxId: string,
+  revokedAt: string
+): void {
+  db.prepare(
+    "UPDATE created_shares SET revoked_at = ?, revocation_tx_id = ? WHERE share_id = ?"
+  ).run(revokedAt, revocationTxId, shareId);
+}
+
+// -- Fact provenance --
+
+/** Where an imported fact came from: the share it was accepted from. */
+export interface FactProvenance {
+  factKey: string;
+  shareId: string;
+  wallet: string;
+  importedAt: string;
+}
+
+export function saveFactProvenance(
+  db: Database.Database,
+  provenance: Omit<FactProvenance, "importedAt">
+): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO fact_provenance (fact_key, share_id, wallet, imported_at)
+     VALUES (?, ?, ?, ?)`
+  ).run(provenance.factKey, provenance.shareId, provenance.wallet, new Date().toISOString());
+}
+
+/** Provenance of imported facts, by fact key. */
+export function getFactProvenance(db: Database.Database): Map<string, FactProvenance> {
+  const rows = db
+    .prepare("SELECT fact_key, share_id, wallet, imported_at FROM fact_provenance")
+    .all() as Array<{ fact_key: string; share_id: string; wallet: string; imported_at: string }>;
+  return new Map(
+    rows.map((row) => [
+      row.fact_key,
+      { factKey: row.fact_key, shareId: row.share_id, wallet: row.wallet, importedAt: row.imported_at },
+    ])
+  );
+}
+
+// -- Conversation segment cache --
+
+/**
+ * A decrypted conversation upload (one chunk group), cached under the tx id
+ * of its first chunk. Uploads are immutable, so a cached segment never goes
+ * stale; it is only dropped when the user clears the cache.
+ */
+export interface CachedConversationSegment {
+  txId: string;
+  conversationId: string;
+  client: ConversationClient;
+  project: string;
+  offset: number;
+  /** Upload timestamp, used to order segments that share an offset. */
+  timestamp: string;
+  startedAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+}
+
+export interface ConversationCacheStats {
+  segments: number;
+  conversations: number;
+  messages: number;
+  bytes: number;
+  oldest: string | null;
+  newest: string | null;
+}
+
+export function getCachedConversationSegments(
+  db: Database.Database,
+  wallet: string
+): Map<string, CachedConversationSegment> {
+  const rows = db
+    .prepare(
+      `SELECT tx_id, conversation_id, client, project, message_offset, timestamp, started_at, updated_at, messages
+       FROM conversation_segment_cache
+       WHERE wallet = ?`
+    )
+    .all(wallet.toLowerCase()) as Array<Record<string, unknown>>;
+
+  const segments = new Map<string, CachedConversationSegment>();
+  for (const row of rows) {
+    try {
+      segments.set(row.tx_id as string, {
+        txId: row.tx_id as string,
+        conversationId: row.conversation_id as string,
+        client: row.client as ConversationClient,
+        project: row.project as string,
+        offset: row.message_offset as number,
+        timestamp: row.timestamp as string,
+        startedAt: row.started_at as string,
+        updatedAt: row.updated_at as string,
+        messages: JSON.parse(row.messages as string) as ConversationMessage[],
+      });
+    } catch {
+      // Skip malformed rows; the segment is fetched again.
+    }
+  }
+  return segments;
+}
+
+export function saveCachedConversationSegment(
+  db: Database.Database,
+  wallet: string,
+  segment: CachedConversationSegment
+): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO conversation_segment_cache (
+      tx_id, wallet, conversation_id, client, project, message_offset, timestamp,
+      started_at, updated_at, message_count, messages, cached_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    segment.txId,
+    wallet.toLowerCase(),
+    segment.conversationId,
+    segment.client,
+    segment.project,
+    segment.offset,
+    segment.timestamp,
+    segment.startedAt,
+    segment.updatedAt,
+    segment.messages.length,
+    JSON.stringify(segment.messages),
+    new Date().toISOString()
+  );
+}
+
+export function getConversationCacheStats(db: Database.Database): ConversationCacheStats {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS segments,
+              COUNT(DISTINCT client || ':' || conversation_id) AS conversations,
+              COALESCE(SUM(message_count), 0) AS messages,
+              COALESCE(SUM(LENGTH(CAST(messages AS BLOB))), 0) AS bytes,
+              MIN(cached_at) AS oldest,
+              MAX(cached_at) AS newest
+       FROM conversation_segment_cache`
+    )
+    .get() as Record<string, unknown>;
+  return {
+    segments: row.segments as number,
+    conversations: row.conversations as number,
+    messages: row.messages as number,
+    bytes: row.bytes as number,
+    oldest: (row.oldest as string | null) ?? null,
+    newest: (row.newest as string | null) ?? null,
+  };
+}
+
+/**
+ * Drop cached segments — all of them, or one conversation's. Returns how
+ * many were removed.
+ */
+export function clearConversationCache(
+  db: Database.Database,
+  conversationId?: string
+): number {
+  const result = conversationId
+    ? db.prepare("DELETE FROM conversation_segment_cache WHERE conversation_id = ?").run(conversationId)
+    : db.prepare("DELETE FROM conversation_segment_cache").run();
+  return result.changes;
+}
+
+// -- Conversation summaries --
+
+export function getStoredConversationSummary(
+  db: Database.Database,
+  client: ConversationClient,
+  conversationId: string
+): ConversationSummary | null {
+  const row = db
+    .prepare(
+      `SELECT method, message_count, summary, created_at, content_hash FROM conversation_summaries
+       WHERE client = ? AND conversation_id = ?`
+    )
+    .get(client, conversationId) as Record<string, unknown> | undefined;
+  if (!row) return null;
+  try {
+    const parts = JSON.parse(row.summary as string) as Pick<
+      ConversationSummary,
+      "decisions" | "openQuestions" | "files"
+    >;
+    return {
+      decisions: parts.decisions ?? [],
+      openQuestions: parts.openQuestions ?? [],
+      files: parts.files ?? [],
+      method: row.method as ConversationSummary["method"],
+      messageCount: row.message_count as number,
+      contentHash: (row.content_hash as string | null) ?? "",
+      createdAt: row.created_at as string,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveConversationSummary(
+  db: Database.Database,
+  client: ConversationClient,
+  conversationId: string,
+  summary: ConversationSummary
+): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO conversation_summaries
+       (client, conversation_id, method, message_count, summary, created_at, content_hash)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    client,
+    conversationId,
+    summary.method,
+    summary.messageCount,
+    JSON.stringify({
+      decisions: summary.decisions,
+      openQuestions: summary.openQuestions,
+      files: summary.files,
+    }),
+    summary.createdAt,
+    summary.contentHash
+  );
+}
+
 function rowToFact(row: Record<string, unknown>): Fact {
   return {
     id: row.id as string,
@@ -271,5 +1678,6 @@ function rowToFact(row: Record<string, unknown>): Fact {
     created: row.created as string,
     last_confirmed: row.last_confirmed as string,
     access_count: row.access_count as number,
+    ...(row.hlc ? { hlc: row.hlc as string } : {}),
   };
 }
@@ -0,0 +1,60 @@
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { hkdf } from "@noble/hashes/hkdf.js";
+import { encrypt, decrypt } from "./crypto.js";
+
+const EPHEMERAL_KEY_LENGTH = 33; // compressed secp256k1 point
+const KDF_INFO = new TextEncoder().encode("sharedcontext-ecies-v1");
+
+/**
+ * Encrypt for the holder of a secp256k1 private key (ECIES).
+ * A fresh ephemeral key agrees on a secret with the recipient's public key;
+ * HKDF-SHA256 turns it into an AES-256-GCM key.
+ * Returns: ephemeral public key (33 bytes) + nonce + ciphertext + tag.
+ */
+export function eciesEncrypt(plaintext: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array {
+  const ephemeralPrivate = secp256k1.utils.randomSecretKey();
+  const ephemeralPublic = secp256k1.getPublicKey(ephemeralPrivate, true);
+  const key = deriveEciesKey(
+    secp256k1.getSharedSecret(ephemeralPrivate, recipientPublicKey, true),
+    ephemeralPublic
+  );
+
+  const sealed = encrypt(plaintext, key);
+  const result = new Uint8Array(EPHEMERAL_KEY_LENGTH + sealed.length);
+  result.set(ephemeralPublic, 0);
+  result.set(sealed, EPHEMERAL_KEY_LENGTH);
+  return result;
+}
+
+/**
+ * Decrypt an eciesEncrypt envelope with the recipient's private key.
+ * Throws if the key is wrong or data is tampered.
+ */
+export function eciesDecrypt(envelope: Uint8Array, privateKey: Uint8Array): Uint8Array {
+  const ephemeralPublic = envelope.slice(0, EPHEMERAL_KEY_LENGTH);
+  const key = deriveEciesKey(
+    secp256k1.getSharedSecret(privateKey, ephemeralPublic, true),
+    ephemeralPublic
+  );
+  return decrypt(envelope.slice(EPHEMERAL_KEY_LENGTH), key);
+}
+
+/**
+ * Parse a hex public key (compressed or uncompressed, optional 0x) into
+ * its compressed form, or null if it is not a point on the curve.
+ */
+export function parsePublicKey(hex: string): Uint8Array | null {
+  const clean = hex.trim().replace(/^0x/i, "");
+  if (!/^(?:0[23][0-9a-f]{64}|04[0-9a-f]{128})$/i.test(clean)) return null;
+  try {
+    return secp256k1.Point.fromHex(clean.toLowerCase()).toBytes(true);
+  } catch {
+    return null;
+  }
+}
+
+function deriveEciesKey(sharedPoint: Uint8Array, ephemeralPublic: Uint8Array): Uint8Array {
+  // x-coordinate only; the ephemeral key salts the derivation.
+  return hkdf(sha256, sharedPoint.slice(1), ephemeralPublic, KDF_INFO, 32);
+}
@@ -7,6 +7,11 @@ export const MODEL_BUDGETS: Record<string, { window: number; allocation: number
   "claude-4-opus": { window: 200_000, allocation: 0.15 },
   "claude-4-sonnet": { window: 200_000, allocation: 0.15 },
   "claude-3.5-sonnet": { window: 200_000, allocation: 0.15 },
+  "claude-opus-4": { window: 200_000, allocation: 0.15 },
+  "claude-sonnet-4": { window: 200_000, allocation: 0.15 },
+  "claude-haiku-4": { window: 200_000, allocation: 0.15 },
+  "gpt-4.1": { window: 1_000_000, allocation: 0.15 },
+  "gpt-5": { window: 400_000, allocation: 0.15 },
   "gpt-4o": { window: 128_000, allocation: 0.15 },
   "gpt-4o-mini": { window: 128_000, allocation: 0.15 },
   "llama-3-70b": { window: 128_000, allocation: 0.15 },
@@ -17,6 +22,23 @@ export const MODEL_BUDGETS: Record<string, { window: number; allocation: number
 /** Rough estimate: ~50 tokens per fact on average. */
 const TOKENS_PER_FACT = 50;
 
+/**
+ * Pluggable relevance ranker. Given a topic and the full fact set, returns
+ * a relevance score per fact key. Scores are normalized against the best
+ * match, so any positive scale works; facts absent from the map score 0.
+ */
+export interface FactRanker {
+  readonly name: string;
+  rank(topic: string, facts: Fact[]): Map<string, number>;
+}
+
+export interface RecallOptions {
+  /** Full-text relevance per fact key (e.g. BM25 from searchFacts). */
+  textScores?: Map<string, number>;
+  /** Ranker scoring facts by meaning rather than exact tag overlap. */
+  ranker?: FactRanker;
+}
+
 /**
  * Extract keywords from a topic string for tag matching.
  */
@@ -28,9 +50,15 @@ function extractKeywords(topic: string): string[] {
 }
 
 /**
- * Score a fact's relevance based on tag matches, recency, and access frequency.
+ * Score a fact's relevance based on tag matches, full-text and ranker relevance, recency, and access frequency.
+ * `textScore` and `rankerScore` are normalized to 0-1 (0 when the fact did not match).
  */
-function scoreFact(fact: Fact, keywords: string[]): number {
+function scoreFact(
+  fact: Fact,
+  keywords: string[],
+  textScore = 0,
+  rankerScore = 0
+): number {
   // Tag match score: 10 points per matching tag
   const tagMatches = fact.tags.filter((tag) =>
     keywords.some((kw) => tag.toLowerCase().includes(kw) || kw.includes(tag.toLowerCase()))
@@ -45,21 +73,32 @@ function scoreFact(fact: Fact, keywords: string[]): number {
     (Date.now() - new Date(fact.last_confirmed).getTime()) / (1000 * 60 * 60 * 24);
   const recencyScore = Math.max(0, 10 - daysSinceConfirmed / 3);
 
+  // Full-text: 0-15 points, so a strong match on what the fact says outranks a single tag hit
+  const fullTextScore = textScore * 15;
+
+  // Ranker: 0-20 points, the strongest signal when a ranker is in use
+  const semanticScore = rankerScore * 20;
+
   // Frequency: log scale, capped at 5 points
   const frequencyScore = Math.min(5, Math.log2(fact.access_count + 1));
 
-  return tagScore + keyMatchScore + recencyScore + frequencyScore;
+  return tagScore + keyMatchScore + fullTextScore + semanticScore + recencyScore + frequencyScore;
 }
 
 /**
- * Run the context engine pipeline: scope filter -> tag/recency scoring -> budget trim.
+ * Run the context engine pipeline: scope filter -> tag/text/ranker/recency scoring -> budget trim.
  */
 export function recallContext(
   topic: string,
   currentScope: string,
   allFacts: Fact[],
-  model?: string
+  model?: string,
+  options: RecallOptions = {}
 ): Fact[] {
+  // Rankers see every fact so corpus statistics don't depend on the scope.
+  const textScores = normalizeScores(options.textScores);
+  const rankerScores = normalizeScores(options.ranker?.rank(topic, allFacts));
+
   // Tier 1: Scope filter
   const scopeFiltered = allFacts.filter(
     (f) => f.scope === "global" || f.scope === currentScope
@@ -69,7 +108,12 @@ export function recallContext(
   const keywords = extractKeywords(topic);
   const scored = scopeFiltered.map((fact) => ({
     fact,
-    score: scoreFact(fact, keywords),
+    score: scoreFact(
+      fact,
+      keywords,
+      textScores.get(fact.key) ?? 0,
+      rankerScores.get(fact.key) ?? 0
+    ),
   }));
   scored.sort((a, b) => b.score - a.score);
 
@@ -81,11 +125,37 @@ export function recallContext(
   return trimmed.map((s) => s.fact);
 }
 
-function getTokenBudget(model?: string): number {
-  const config = model ? (MODEL_BUDGETS[model] ?? MODEL_BUDGETS.default) : MODEL_BUDGETS.default;
+/**
+ * Scale scores to 0-1 relative to the best one. Non-positive scores are dropped.
+ */
+function normalizeScores(scores?: Map<string, number>): Map<string, number> {
+  const normalized = new Map<string, number>();
+  if (!scores) return normalized;
+  const max = Math.max(0, ...scores.values());
+  if (max === 0) return normalized;
+  for (const [key, score] of scores) {
+    if (score > 0) normalized.set(key, score / max);
+  }
+  return normalized;
+}
+
+/**
+ * Tokens to spend on injected context for a model. Dated or suffixed ids
+ * ("claude-sonnet-4-5-20250929") use the longest listed prefix.
+ */
+export function getTokenBudget(model?: string): number {
+  const config = (model && findModelBudget(model.toLowerCase())) || MODEL_BUDGETS.default;
   return Math.floor(config.window * config.allocation);
 }
 
+function findModelBudget(model: string): { window: number; allocation: number } | undefined {
+  if (MODEL_BUDGETS[model]) return MODEL_BUDGETS[model];
+  const prefix = Object.keys(MODEL_BUDGETS)
+    .filter((name) => name !== "default" && model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_BUDGETS[prefix] : undefined;
+}
+
 /**
  * Strip the scope prefix from a fact key to get a short, readable label.
  * "project:sharedcontext:storage:backend" → "storage backend"
@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from "uuid";
+import type Database from "better-sqlite3";
+import { getFact, saveFactProvenance, upsertFact } from "./db.js";
+import { getRedactionRules, redactText, type RedactionFinding } from "./redact.js";
+import type { Fact } from "../types.js";
+
+/** A fact as it travels in a bundle: no local ids, counters or clocks. */
+export type SharedFact = Pick<
+  Fact,
+  "key" | "scope" | "value" | "tags" | "confidence" | "created" | "last_confirmed"
+>;
+
+/**
+ * Encrypted payload of a fact share. Travels under the same share record
+ * and token as a conversation; `kind` tells them apart after decryption.
+ */
+export interface FactSharePayload {
+  v: 1;
+  kind: "facts";
+  createdAt: string;
+  expiresAt?: string;
+  scope: string;
+  /** Tags the bundle was filtered by, if any. */
+  tags?: string[];
+  facts: SharedFact[];
+}
+
+/** "rejected": outside the bundle's scope, never imported. */
+export type FactImportStatus = "new" | "changed" | "unchanged" | "rejected";
+
+export type FactImportDecision = "accept" | "overwrite" | "skip";
+
+export interface FactImportItem {
+  fact: SharedFact;
+  status: FactImportStatus;
+  /** The local fact under the same key, if any. */
+  local: Fact | null;
+}
+
+export interface FactShareOrigin {
+  shareId: string;
+  wallet: string;
+}
+
+/**
+ * The facts to share: those stored directly in `scope` (global facts are
+ * not pulled into a project bundle) under its key prefix, optionally only
+ * those carrying one of `tags`. Values are masked like shared conversations.
+ */
+export function buildFactBundle(
+  facts: Fact[],
+  scope: string,
+  tags: string[] = []
+): { facts: SharedFact[]; findings: Array<RedactionFinding & { key: string }> } {
+  const rules = getRedactionRules();
+  const wanted = new Set(tags.map((t) => t.toLowerCase()));
+  const findings: Array<RedactionFinding & { key: string }> = [];
+
+  const bundle = facts
+    .filter((f) => isInScope(f, scope))
+    .filter((f) => wanted.size === 0 || f.tags.some((t) => wanted.has(t.toLowerCase())))
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map((f) => {
+      const redacted = redactText(f.value, rules);
+      for (const finding of redacted.findings) findings.push({ ...finding, key: f.key });
+      return {
+        key: f.key,
+        scope: f.scope,
+        value: redacted.text,
+        tags: f.tags,
+        confidence: f.confidence,
+        created: f.created,
+        last_confirmed: f.last_confirmed,
+      };
+    });
+  return { facts: bundle, findings };
+}
+
+/**
+ * Compare each shared fact with the local one under the same key. Facts
+ * outside the bundle's `scope` are rejected: a bundle shared as one
+ * project's facts must not write global keys or another project's.
+ */
+export function planFactImport(
+  db: Database.Database,
+  facts: SharedFact[],
+  scope: string
+): FactImportItem[] {
+  return facts.map((fact) => {
+    const local = getFact(db, fact.key);
+    let status: FactImportStatus = "new";
+    if (!isInScope(fact, scope)) {
+      status = "rejected";
+    } else if (local) {
+      const same =
+        local.value === fact.value &&
+        local.scope === fact.scope &&
+        JSON.stringify(local.tags) === JSON.stringify(fact.tags);
+      status = same ? "unchanged" : "changed";
+    }
+    return { fact, status, local };
+  });
+}
+
+/**
+ * Store the facts the user accepted (new keys) or chose to overwrite
+ * (changed keys), as local changes so they sync like any other, and record
+ * which share each came from. Returns the keys written.
+ */
+export function applyFactImport(
+  db: Database.Database,
+  items: Array<FactImportItem & { decision: FactImportDecision }>,
+  origin: FactShareOrigin
+): string[] {
+  const imported: string[] = [];
+  const run = db.transaction(() => {
+    for (const item of items) {
+      if (item.decision === "skip" || item.status === "unchanged" || item.status === "rejected") continue;
+      if (item.decision === "accept" && item.status !== "new") continue;
+
+      const now = new Date().toISOString();
+      upsertFact(db, {
+        id: item.local?.id ?? uuidv4(),
+        scope: item.fact.scope,
+        key: item.fact.key,
+        value: item.fact.value,
+        tags: item.fact.tags,
+        confidence: item.fact.confidence,
+        source_session: `share:${origin.shareId}`,
+        created: item.local?.created ?? item.fact.created,
+        last_confirmed: now,
+        access_count: item.local?.access_count ?? 0,
+      });
+      saveFactProvenance(db, { factKey: item.fact.key, ...origin });
+      imported.push(item.fact.key);
+    }
+  });
+  run();
+  return imported;
+}
+
+/** Stored in `scope`, under a key with its prefix, as store_fact writes them. */
+function isInScope(fact: Pick<SharedFact, "key" | "scope">, scope: string): boolean {
+  return fact.scope === scope && fact.key.startsWith(`${scope}:`);
+}
+
+/** Shape check for a decrypted fact bundle. */
+export function isFactSharePayload(value: unknown): value is FactSharePayload {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    v.v === 1 &&
+    v.kind === "facts" &&
+    typeof v.scope === "string" &&
+    Array.isArray(v.facts) &&
+    v.facts.every((f) => {
+      if (typeof f !== "object" || f === null) return false;
+      const fact = f as Record<string, unknown>;
+      return (
+        typeof fact.key === "string" &&
+        typeof fact.scope === "string" &&
+        typeof fact.value === "string" &&
+        typeof fact.confidence === "number" &&
+        typeof fact.created === "string" &&
+        Array.isArray(fact.tags) &&
+        fact.tags.every((t) => typeof t === "string")
+      );
+    })
+  );
+}
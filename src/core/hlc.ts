@@ -0,0 +1,74 @@
+/**
+ * Hybrid logical clocks for ordering fact changes across devices.
+ *
+ * Serialized as "<ms>:<counter>:<device>" with fixed-width numeric parts,
+ * so plain string comparison orders timestamps correctly and the device id
+ * breaks ties deterministically.
+ */
+
+const MS_WIDTH = 15;
+const COUNTER_WIDTH = 5;
+
+export interface Hlc {
+  ms: number;
+  counter: number;
+  device: string;
+}
+
+export function formatHlc(hlc: Hlc): string {
+  return [
+    String(hlc.ms).padStart(MS_WIDTH, "0"),
+    String(hlc.counter).padStart(COUNTER_WIDTH, "0"),
+    hlc.device,
+  ].join(":");
+}
+
+export function parseHlc(value: string): Hlc | null {
+  const match = /^(\d+):(\d+):(.+)$/.exec(value);
+  if (!match) return null;
+  const ms = Number.parseInt(match[1], 10);
+  const counter = Number.parseInt(match[2], 10);
+  if (!Number.isFinite(ms) || !Number.isFinite(counter)) return null;
+  return { ms, counter, device: match[3] };
+}
+
+/**
+ * Order two serialized clocks. Negative if a happened before b.
+ */
+export function compareHlc(a: string, b: string): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Advance the clock for a local event.
+ */
+export function tickHlc(last: Hlc | null, nowMs: number, device: string): Hlc {
+  if (!last || nowMs > last.ms) {
+    return { ms: nowMs, counter: 0, device };
+  }
+  return { ms: last.ms, counter: last.counter + 1, device };
+}
+
+/**
+ * Advance the clock after observing a remote timestamp, so later local
+ * events are ordered after everything this device has seen.
+ */
+export function receiveHlc(
+  last: Hlc | null,
+  remote: Hlc,
+  nowMs: number,
+  device: string
+): Hlc {
+  const lastMs = last?.ms ?? 0;
+  const ms = Math.max(lastMs, remote.ms, nowMs);
+  let counter = 0;
+  if (ms === lastMs && ms === remote.ms) {
+    counter = Math.max(last?.counter ?? 0, remote.counter) + 1;
+  } else if (ms === lastMs) {
+    counter = (last?.counter ?? 0) + 1;
+  } else if (ms === remote.ms) {
+    counter = remote.counter + 1;
+  }
+  return { ms, counter, device };
+}
@@ -95,3 +95,18 @@ export function verifySignature(
     return false;
   }
 }
+
+/**
+ * Recover the compressed public key that produced a signature over `data`,
+ * or null if the signature is malformed.
+ */
+export function recoverPublicKey(data: Uint8Array, signatureHex: string): Uint8Array | null {
+  try {
+    const hash = sha256(data);
+    const sigBytes = Buffer.from(signatureHex.replace("0x", ""), "hex");
+    const sig = secp256k1.Signature.fromBytes(new Uint8Array(sigBytes), "recovered");
+    return sig.recoverPublicKey(hash).toBytes(true);
+  } catch {
+    return null;
+  }
+}
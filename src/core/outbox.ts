@@ -0,0 +1,134 @@
+import {
+  getOutboxItems,
+  getOutboxPayload,
+  getMeta,
+  setMeta,
+  markOutboxSent,
+  markOutboxAttemptFailed,
+  pruneSentOutboxItems,
+  markShardsPulled,
+  type OutboxItem,
+} from "./db.js";
+import type { StorageBackend } from "./storage.js";
+import type Database from "better-sqlite3";
+
+// After this many failed attempts an item stops retrying until `sharedcontext outbox retry`.
+export const OUTBOX_MAX_ATTEMPTS = 10;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 30 * 60_000;
+// Sent rows are kept for a week so `sharedcontext outbox --all` can show recent uploads.
+const SENT_RETENTION_MS = 7 * 24 * 60 * 60_000;
+
+/**
+ * Delay before the next attempt after `attempts` failures: 30s, 1m, 2m, ... capped at 30m.
+ */
+export function outboxBackoffMs(attempts: number): number {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+export interface OutboxFlushOptions {
+  /** Ignore backoff timers (manual retries, `compact`). Failed items still need a retry. */
+  force?: boolean;
+  onSent?: (item: OutboxItem, txId: string) => void;
+  onError?: (item: OutboxItem, message: string) => void;
+}
+
+export interface OutboxFlushResult {
+  sent: number;
+  /** Attempts that failed during this flush. */
+  failed: number;
+  /** Items still waiting after this flush, including ones that gave up. */
+  remaining: number;
+}
+
+// One flush per database at a time. Plain callers share the running one;
+// callers with their own options queue a flush behind it.
+const inFlight = new WeakMap<Database.Database, Promise<OutboxFlushResult>>();
+
+/**
+ * Upload queued items in order.
+ *
+ * Fact shards (delta, snapshot) go out strictly by queue order: if one cannot
+ * be sent, later shards wait, so other devices never pull past a missing
+ * version. Conversation chunks are independent and are sent regardless.
+ * An upload that succeeded but was not recorded (crash) is simply sent again
+ * under a new tx id, with the same data and tags. Pulls recognise the copy
+ * by its signature and do not apply it a second time.
+ */
+export function flushOutbox(
+  db: Database.Database,
+  backend: StorageBackend,
+  options: OutboxFlushOptions = {}
+): Promise<OutboxFlushResult> {
+  const running = inFlight.get(db);
+  const hasOptions = options.force || options.onSent || options.onError;
+  if (running && !hasOptions) return running;
+
+  // Its own pass, so force and callbacks apply: the running flush may have
+  // skipped items still in backoff.
+  const flush = (
+    running
+      ? running.catch(() => undefined).then(() => runFlush(db, backend, options))
+      : runFlush(db, backend, options)
+  ).finally(() => {
+    if (inFlight.get(db) === flush) inFlight.delete(db);
+  });
+  inFlight.set(db, flush);
+  return flush;
+}
+
+async function runFlush(
+  db: Database.Database,
+  backend: StorageBackend,
+  options: OutboxFlushOptions
+): Promise<OutboxFlushResult> {
+  const result: OutboxFlushResult = { sent: 0, failed: 0, remaining: 0 };
+  let factsBlocked = false;
+  let lastId = 0;
+
+  // Re-query after each item so uploads queued during the flush are picked up.
+  for (;;) {
+    const [item] = getOutboxItems(db, { afterId: lastId });
+    if (!item) break;
+    lastId = item.id;
+
+    const isFactShard = item.kind !== "conversation";
+    const due = options.force || Date.parse(item.nextAttemptAt) <= Date.now();
+    if (item.status === "failed" || !due || (isFactShard && factsBlocked)) {
+      if (isFactShard) factsBlocked = true;
+      result.remaining++;
+      continue;
+    }
+
+    const payload = getOutboxPayload(db, item.id);
+    if (!payload) continue;
+
+    try {
+      const { txId } = await backend.upload(payload.data, payload.tags);
+      markOutboxSent(db, item.id, txId);
+      if (isFactShard && item.version !== null) {
+        // Our own shard: later pulls need not download it.
+        markShardsPulled(db, [{ txId, version: item.version }]);
+        const lastPushed = parseInt(getMeta(db, "last_pushed_version") ?? "0", 10);
+        setMeta(db, "last_pushed_version", String(Math.max(lastPushed, item.version)));
+      }
+      result.sent++;
+      options.onSent?.(item, txId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const attempts = item.attempts + 1;
+      markOutboxAttemptFailed(db, item.id, {
+        error: message,
+        nextAttemptAt: new Date(Date.now() + outboxBackoffMs(attempts)).toISOString(),
+        giveUp: attempts >= OUTBOX_MAX_ATTEMPTS,
+      });
+      if (isFactShard) factsBlocked = true;
+      result.failed++;
+      result.remaining++;
+      options.onError?.(item, message);
+    }
+  }
+
+  pruneSentOutboxItems(db, new Date(Date.now() - SENT_RETENTION_MS).toISOString());
+  return result;
+}
@@ -1,5 +1,6 @@
-import type { Conversation, ConversationMessage } from "../../types.js";
+import type { Conversation, ConversationMessage, ConversationToolCall } from "../../types.js";
 import { mergeConsecutiveMessages } from "./cursor.js";
+import { ToolCallCollector, collectToolBlocks, type ParseOptions } from "./tools.js";
 
 /**
  * Parse a Claude Code session JSONL file into a Conversation.
@@ -12,14 +13,19 @@ import { mergeConsecutiveMessages } from "./cursor.js";
  * Each line also has: sessionId, cwd, timestamp, uuid
  *
  * We extract only text content from user and assistant messages.
- * Tool use blocks and tool results are skipped.
+ * Tool use blocks and tool results are skipped, unless `includeTools` is set:
+ * then each tool_use (with the tool_result sharing its id, which arrives on a
+ * later "user" line) is kept on the message it follows.
  */
 export function parseClaudeCodeJSONL(
   text: string,
   fileId: string,
-  project: string
+  project: string,
+  options: ParseOptions = {}
 ): Conversation {
   const messages: ConversationMessage[] = [];
+  const tools = new ToolCallCollector(messages);
+  const callsById = new Map<string, ConversationToolCall>();
   const lines = text.split("\n").filter((l) => l.trim());
 
   let firstTimestamp: string | null = null;
@@ -44,15 +50,20 @@ export function parseClaudeCodeJSONL(
     if (type === "user") {
       const content = extractUserContent(obj);
       if (content) {
-        messages.push({ role: "user", content, timestamp: timestamp ?? undefined });
+        tools.push({ role: "user", content, timestamp: timestamp ?? undefined });
       }
     } else if (type === "assistant") {
       const content = extractAssistantContent(obj);
       if (content) {
-        messages.push({ role: "assistant", content, timestamp: timestamp ?? undefined });
+        tools.push({ role: "assistant", content, timestamp: timestamp ?? undefined });
       }
     }
     // Skip file-history-snapshot, system, etc.
+
+    if (options.includeTools && (type === "user" || type === "assistant")) {
+      const blocks = (obj.message as Record<string, unknown> | undefined)?.content;
+      if (Array.isArray(blocks)) collectToolBlocks(blocks, tools, callsById);
+    }
   }
 
   const merged = mergeConsecutiveMessages(messages);
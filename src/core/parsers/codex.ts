@@ -0,0 +1,200 @@
+import { closeSync, openSync, readSync } from "fs";
+import { basename } from "path";
+import type { Conversation, ConversationMessage, ConversationToolCall } from "../../types.js";
+import { mergeConsecutiveMessages } from "./cursor.js";
+import { ToolCallCollector, setToolResult, toolCallFromInput, type ParseOptions } from "./tools.js";
+
+// Context Codex injects as user messages; not something the user typed.
+const INJECTED_USER_PREFIXES = ["<environment_context>", "<user_instructions>"];
+// The session header can embed long instructions; never read more than this for it.
+const MAX_HEADER_BYTES = 1024 * 1024;
+
+export interface CodexSessionMeta {
+  id: string | null;
+  cwd: string | null;
+  timestamp: string | null;
+}
+
+/**
+ * Parse a Codex CLI session ("rollout") JSONL file into a Conversation.
+ *
+ * Current format: one JSON object per line, each { timestamp, type, payload }.
+ *   type: "session_meta"   → payload has id, cwd, timestamp
+ *   type: "response_item"  → payload.type "message" with role user|assistant and
+ *                            content blocks (input_text / output_text)
+ *   type: "event_msg", "turn_context" → skip (event_msg repeats response items)
+ *
+ * Older files start with a bare { id, timestamp } header and store response
+ * items directly on each line ({ type: "message", role, content }).
+ *
+ * Like the Claude Code parser, only text is extracted: function calls,
+ * their outputs, and reasoning items are skipped. With `includeTools`,
+ * function and custom tool calls (matched to their outputs by call_id)
+ * are kept on the message they follow.
+ */
+export function parseCodexJSONL(
+  text: string,
+  fileId: string,
+  project: string,
+  options: ParseOptions = {}
+): Conversation {
+  const messages: ConversationMessage[] = [];
+  const tools = new ToolCallCollector(messages);
+  const callsById = new Map<string, ConversationToolCall>();
+  const lines = text.split("\n").filter((l) => l.trim());
+
+  let firstTimestamp: string | null = null;
+  let lastTimestamp: string | null = null;
+
+  for (const line of lines) {
+    let obj: Record<string, unknown>;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      continue; // skip malformed lines
+    }
+
+    const timestamp = typeof obj.timestamp === "string" ? obj.timestamp : null;
+    if (timestamp) {
+      if (!firstTimestamp) firstTimestamp = timestamp;
+      lastTimestamp = timestamp;
+    }
+
+    const item = toResponseItem(obj);
+    if (item && options.includeTools) collectToolItem(item, tools, callsById);
+    if (!item || item.type !== "message") continue;
+
+    const role = item.role;
+    if (role !== "user" && role !== "assistant") continue;
+
+    const content = extractText(item.content);
+    if (!content) continue;
+    if (role === "user" && INJECTED_USER_PREFIXES.some((p) => content.startsWith(p))) {
+      continue;
+    }
+
+    tools.push({ role, content, timestamp: timestamp ?? undefined });
+  }
+
+  const merged = mergeConsecutiveMessages(messages);
+
+  const now = new Date().toISOString();
+  return {
+    id: fileId,
+    client: "codex",
+    project,
+    messages: merged,
+    startedAt: firstTimestamp ?? now,
+    updatedAt: lastTimestamp ?? now,
+  };
+}
+
+/**
+ * Read the session header (first line) without loading the whole file.
+ * Discovery uses it to name the project after the session's working directory.
+ */
+export function readCodexSessionMeta(path: string): CodexSessionMeta {
+  const empty: CodexSessionMeta = { id: null, cwd: null, timestamp: null };
+
+  const chunks: Buffer[] = [];
+  const fd = openSync(path, "r");
+  try {
+    let position = 0;
+    while (position < MAX_HEADER_BYTES) {
+      const buffer = Buffer.alloc(64 * 1024);
+      const read = readSync(fd, buffer, 0, buffer.length, position);
+      if (read === 0) break;
+      const newline = buffer.subarray(0, read).indexOf(0x0a);
+      chunks.push(buffer.subarray(0, newline >= 0 ? newline : read));
+      if (newline >= 0) break;
+      position += read;
+    }
+  } finally {
+    closeSync(fd);
+  }
+  const firstLine = Buffer.concat(chunks).toString("utf-8");
+
+  let obj: Record<string, unknown>;
+  try {
+    obj = JSON.parse(firstLine);
+  } catch {
+    return empty;
+  }
+
+  // New format wraps the header in { type: "session_meta", payload }.
+  const meta =
+    obj.type === "session_meta" && typeof obj.payload === "object" && obj.payload !== null
+      ? (obj.payload as Record<string, unknown>)
+      : obj;
+  return {
+    id: typeof meta.id === "string" ? meta.id : null,
+    cwd: typeof meta.cwd === "string" ? meta.cwd : null,
+    timestamp: typeof meta.timestamp === "string" ? meta.timestamp : null,
+  };
+}
+
+/**
+ * Session id for a rollout file: the header id, else the UUID at the end of
+ * "rollout-<date>-<uuid>.jsonl", else the file name.
+ */
+export function codexSessionId(path: string, meta: CodexSessionMeta): string {
+  if (meta.id) return meta.id;
+  const name = basename(path, ".jsonl");
+  const uuid = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.exec(name);
+  return uuid ? uuid[0] : name;
+}
+
+function toResponseItem(obj: Record<string, unknown>): Record<string, unknown> | null {
+  if (obj.type === "response_item") {
+    const payload = obj.payload;
+    return typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : null;
+  }
+  // Older files: the line itself is the response item.
+  if (obj.type === "message" && "role" in obj) return obj;
+  return null;
+}
+
+function collectToolItem(
+  item: Record<string, unknown>,
+  tools: ToolCallCollector,
+  callsById: Map<string, ConversationToolCall>
+): void {
+  const callId = typeof item.call_id === "string" ? item.call_id : null;
+  let call: ConversationToolCall | null = null;
+
+  if (item.type === "function_call" && typeof item.name === "string") {
+    call = toolCallFromInput(item.name, item.arguments);
+  } else if (item.type === "custom_tool_call" && typeof item.name === "string") {
+    call = toolCallFromInput(item.name, item.input);
+  } else if (item.type === "local_shell_call") {
+    call = toolCallFromInput("shell", (item.action as Record<string, unknown> | undefined) ?? {});
+  } else if (item.type === "function_call_output" || item.type === "custom_tool_call_output") {
+    const existing = callId ? callsById.get(callId) : undefined;
+    if (existing) setToolResult(existing, item.output);
+    return;
+  }
+
+  if (call) {
+    if (callId) callsById.set(callId, call);
+    tools.add(call);
+  }
+}
+
+function extractText(content: unknown): string | null {
+  if (typeof content === "string") return content.trim() || null;
+  if (!Array.isArray(content)) return null;
+
+  const texts: string[] = [];
+  for (const block of content) {
+    if (typeof block === "object" && block !== null) {
+      const b = block as Record<string, unknown>;
+      if ((b.type === "input_text" || b.type === "output_text") && typeof b.text === "string") {
+        texts.push(b.text);
+      }
+    }
+  }
+  const joined = texts.join("\n").trim();
+  return joined || null;
+}
@@ -1,4 +1,11 @@
-import type { Conversation, ConversationMessage } from "../../types.js";
+import type { Conversation, ConversationMessage, ConversationToolCall } from "../../types.js";
+import {
+  ToolCallCollector,
+  collectToolBlocks,
+  setToolResult,
+  toolCallFromInput,
+  type ParseOptions,
+} from "./tools.js";
 
 /**
  * Parse a Cursor JSONL transcript (new directory-based format) into a Conversation.
@@ -7,13 +14,18 @@ import type { Conversation, ConversationMessage } from "../../types.js";
  *   { "role": "user"|"assistant", "message": { "content": [{ "type": "text", "text": "..." }] } }
  *
  * User messages have their text wrapped in <user_query> tags which we strip.
+ * With `includeTools`, tool_use blocks (and tool_result blocks matched by id)
+ * are kept on the message they follow.
  */
 export function parseCursorJSONL(
   text: string,
   fileId: string,
-  project: string
+  project: string,
+  options: ParseOptions = {}
 ): Conversation {
   const messages: ConversationMessage[] = [];
+  const tools = new ToolCallCollector(messages);
+  const callsById = new Map<string, ConversationToolCall>();
   const lines = text.split("\n").filter((l) => l.trim());
 
   for (const line of lines) {
@@ -44,8 +56,6 @@ export function parseCursorJSONL(
     }
 
     let joined = texts.join("\n").trim();
-    if (!joined) continue;
-
     if (role === "user") {
       joined = joined
         .replace(/^\s*<user_query>\s*/, "")
@@ -54,7 +64,11 @@ export function parseCursorJSONL(
     }
 
     if (joined) {
-      messages.push({ role, content: joined });
+      tools.push({ role, content: joined });
+    }
+
+    if (options.includeTools) {
+      collectToolBlocks(content, tools, callsById);
     }
   }
 
@@ -88,52 +102,83 @@ export function parseCursorJSONL(
  *   [Tool result] ToolName
  *   ...
  *
- * We extract only user and assistant text content.
- * Tool calls, tool results, and thinking blocks are stripped.
+ * We extract user and assistant text content; thinking blocks are stripped.
+ * Tool calls and results are stripped too, unless `includeTools` is set:
+ * then each call (with its `arg: value` lines) and the next result for the
+ * same tool are kept on the message they follow.
  */
 export function parseCursorTranscript(
   text: string,
   fileId: string,
-  project: string
+  project: string,
+  options: ParseOptions = {}
 ): Conversation {
   const messages: ConversationMessage[] = [];
+  const tools = new ToolCallCollector(messages);
   const lines = text.split("\n");
 
   let currentRole: "user" | "assistant" | null = null;
   let currentContent: string[] = [];
   let inToolBlock = false;
+  // The tool block being read: a call's arguments or a result's output.
+  let toolBlock: { kind: "call" | "result"; name: string; lines: string[] } | null = null;
 
   function flush() {
     if (currentRole && currentContent.length > 0) {
       const content = currentContent.join("\n").trim();
       if (content) {
-        messages.push({ role: currentRole, content });
+        tools.push({ role: currentRole, content });
       }
     }
     currentContent = [];
   }
 
+  function endToolBlock() {
+    if (toolBlock && options.includeTools) {
+      const { kind, name, lines: blockLines } = toolBlock;
+      if (kind === "call") {
+        const args: Record<string, string> = {};
+        for (const argLine of blockLines) {
+          const match = /^\s*([\w.-]+):\s?(.*)$/.exec(argLine);
+          if (match) args[match[1]] = match[2];
+        }
+        tools.add(toolCallFromInput(name, args));
+      } else {
+        const call = messages
+          .flatMap((m) => m.tools ?? [])
+          .find((c) => c.name === name && c.result === undefined);
+        if (call) setToolResult(call, blockLines.join("\n"));
+      }
+    }
+    toolBlock = null;
+    inToolBlock = false;
+  }
+
   for (const line of lines) {
     const trimmed = line.trim();
 
     // Role label on its own line
     if (trimmed === "user:") {
+      endToolBlock();
       flush();
       currentRole = "user";
-      inToolBlock = false;
       continue;
     }
 
     if (trimmed === "assistant:") {
+      endToolBlock();
       flush();
       currentRole = "assistant";
-      inToolBlock = false;
       continue;
     }
 
-    // Skip tool call/result blocks entirely
+    // Tool call/result blocks are skipped unless tools are captured
     if (trimmed.startsWith("[Tool call]") || trimmed.startsWith("[Tool result]")) {
+      endToolBlock();
       flush();
+      const kind = trimmed.startsWith("[Tool call]") ? "call" : "result";
+      const name = trimmed.replace(/^\[Tool (?:call|result)\]\s*/, "") || "tool";
+      toolBlock = { kind, name, lines: [] };
       inToolBlock = true;
       continue;
     }
@@ -142,7 +187,9 @@ export function parseCursorTranscript(
     if (inToolBlock) {
       // Tool blocks end at the next empty line or role label
       if (trimmed === "") {
-        inToolBlock = false;
+        endToolBlock();
+      } else {
+        toolBlock?.lines.push(line);
       }
       continue;
     }
@@ -163,6 +210,7 @@ export function parseCursorTranscript(
     }
   }
 
+  endToolBlock();
   flush();
 
   const merged = mergeConsecutiveMessages(messages);
@@ -190,6 +238,7 @@ export function mergeConsecutiveMessages(
     const last = merged[merged.length - 1];
     if (last && last.role === msg.role) {
       last.content += "\n\n" + msg.content;
+      if (msg.tools) last.tools = [...(last.tools ?? []), ...msg.tools];
     } else {
       merged.push({ ...msg });
     }
@@ -0,0 +1,112 @@
+import type { Conversation, ConversationClient, ConversationMessage } from "../../types.js";
+import { mergeConsecutiveMessages } from "./cursor.js";
+
+export interface JsonlFieldMapping {
+  /** Dotted paths into each line. */
+  fields: { role: string; content: string; timestamp?: string };
+  /** Raw role values for each role. Defaults to "user" and "assistant". */
+  roles?: { user?: string[]; assistant?: string[] };
+}
+
+/**
+ * Parse a JSONL log with a user-supplied field mapping into a Conversation.
+ * Used for sources configured in config.json.
+ *
+ * Each line is one message. The content field may be a string, an object
+ * with a `text` string, or an array of either (joined with newlines).
+ * Lines whose role maps to neither user nor assistant are skipped.
+ * Numeric timestamps are read as epoch seconds or milliseconds.
+ */
+export function parseMappedJSONL(
+  text: string,
+  fileId: string,
+  project: string,
+  client: ConversationClient,
+  mapping: JsonlFieldMapping
+): Conversation {
+  const userRoles = mapping.roles?.user ?? ["user"];
+  const assistantRoles = mapping.roles?.assistant ?? ["assistant"];
+  const messages: ConversationMessage[] = [];
+  const lines = text.split("\n").filter((l) => l.trim());
+
+  let firstTimestamp: string | null = null;
+  let lastTimestamp: string | null = null;
+
+  for (const line of lines) {
+    let obj: unknown;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      continue; // skip malformed lines
+    }
+
+    const timestamp = mapping.fields.timestamp
+      ? toIsoTimestamp(getPath(obj, mapping.fields.timestamp))
+      : null;
+    if (timestamp) {
+      if (!firstTimestamp) firstTimestamp = timestamp;
+      lastTimestamp = timestamp;
+    }
+
+    const rawRole = getPath(obj, mapping.fields.role);
+    const role = typeof rawRole !== "string"
+      ? null
+      : userRoles.includes(rawRole)
+        ? "user"
+        : assistantRoles.includes(rawRole)
+          ? "assistant"
+          : null;
+    if (!role) continue;
+
+    const content = extractText(getPath(obj, mapping.fields.content));
+    if (content) {
+      messages.push({ role, content, timestamp: timestamp ?? undefined });
+    }
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: fileId,
+    client,
+    project,
+    messages: mergeConsecutiveMessages(messages),
+    startedAt: firstTimestamp ?? now,
+    updatedAt: lastTimestamp ?? now,
+  };
+}
+
+function getPath(obj: unknown, path: string): unknown {
+  let current = obj;
+  for (const part of path.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function extractText(value: unknown): string | null {
+  const parts: string[] = [];
+  const collect = (v: unknown) => {
+    if (typeof v === "string") parts.push(v);
+    else if (Array.isArray(v)) v.forEach(collect);
+    else if (typeof v === "object" && v !== null) {
+      const text = (v as Record<string, unknown>).text;
+      if (typeof text === "string") parts.push(text);
+    }
+  };
+  collect(value);
+  const joined = parts.join("\n").trim();
+  return joined || null;
+}
+
+function toIsoTimestamp(value: unknown): string | null {
+  let ms: number;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    ms = value < 1e12 ? value * 1000 : value;
+  } else if (typeof value === "string") {
+    ms = Date.parse(value);
+  } else {
+    return null;
+  }
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
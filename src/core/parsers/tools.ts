@@ -0,0 +1,193 @@
+import type { ConversationMessage, ConversationToolCall } from "../../types.js";
+
+const INPUT_SUMMARY_MAX = 200;
+const RESULT_EXCERPT_MAX = 500;
+
+// Input fields that name a file the tool read or wrote, across clients.
+const FILE_KEYS = ["file_path", "path", "notebook_path", "target_file", "filePath", "file"];
+const FILE_LIST_KEYS = ["paths", "files", "file_paths"];
+// Input fields that best describe a call, in order of preference.
+const SUMMARY_KEYS = ["command", "cmd", "pattern", "query", "url", "description", "prompt"];
+
+export interface ParseOptions {
+  /** Keep tool calls and results on the messages they follow. Off by default. */
+  includeTools?: boolean;
+}
+
+/**
+ * Build a tool call record from a tool's name and raw input (an object,
+ * or a JSON or plain string as some clients send it).
+ */
+export function toolCallFromInput(name: string, input: unknown): ConversationToolCall {
+  const args = typeof input === "string" ? parseJsonObject(input) ?? input : input;
+  const files = filesFromInput(args);
+  const summary = summarizeInput(args, files);
+
+  const call: ConversationToolCall = { name };
+  if (summary) call.input = truncate(summary, INPUT_SUMMARY_MAX);
+  if (files.length > 0) call.files = files;
+  return call;
+}
+
+/**
+ * Record a tool's output on its call: the first part of the text only.
+ */
+export function setToolResult(call: ConversationToolCall, output: unknown, isError = false): void {
+  const text = resultText(output);
+  if (text) call.result = truncate(text, RESULT_EXCERPT_MAX);
+  if (isError) call.isError = true;
+}
+
+/**
+ * Collects tool calls for a parser and hangs each one on the message it
+ * follows, so capturing tools never changes how many messages a
+ * conversation has (sync offsets count messages). Calls made before the
+ * first message wait for it.
+ */
+export class ToolCallCollector {
+  private messages: ConversationMessage[];
+  private pending: ConversationToolCall[] = [];
+
+  constructor(messages: ConversationMessage[]) {
+    this.messages = messages;
+  }
+
+  add(call: ConversationToolCall): void {
+    const last = this.messages[this.messages.length - 1];
+    if (last) {
+      last.tools = [...(last.tools ?? []), call];
+    } else {
+      this.pending.push(call);
+    }
+  }
+
+  /** Push a message, giving it any calls that were waiting for one. */
+  push(message: ConversationMessage): void {
+    if (this.pending.length > 0) {
+      message.tools = [...this.pending, ...(message.tools ?? [])];
+      this.pending = [];
+    }
+    this.messages.push(message);
+  }
+}
+
+/**
+ * Record Anthropic-style content blocks: `tool_use` blocks become calls and
+ * `tool_result` blocks fill in the call with the same id.
+ */
+export function collectToolBlocks(
+  blocks: unknown[],
+  collector: ToolCallCollector,
+  callsById: Map<string, ConversationToolCall>
+): void {
+  for (const block of blocks) {
+    if (typeof block !== "object" || block === null) continue;
+    const b = block as Record<string, unknown>;
+
+    if (b.type === "tool_use" && typeof b.name === "string") {
+      const call = toolCallFromInput(b.name, b.input);
+      if (typeof b.id === "string") callsById.set(b.id, call);
+      collector.add(call);
+    } else if (b.type === "tool_result" && typeof b.tool_use_id === "string") {
+      const call = callsById.get(b.tool_use_id);
+      if (call) setToolResult(call, b.content, b.is_error === true);
+    }
+  }
+}
+
+/**
+ * Files named in a tool's input, including paths in an apply_patch body.
+ */
+function filesFromInput(input: unknown): string[] {
+  const files: string[] = [];
+  const add = (value: unknown) => {
+    if (typeof value === "string" && value.trim() && !files.includes(value.trim())) {
+      files.push(value.trim());
+    }
+  };
+
+  if (typeof input === "string") {
+    for (const match of input.matchAll(/^\*\*\* (?:Add|Update|Delete) File: (.+)$|^\*\*\* Move to: (.+)$/gm)) {
+      add(match[1] ?? match[2]);
+    }
+    return files;
+  }
+  if (typeof input !== "object" || input === null) return files;
+
+  const obj = input as Record<string, unknown>;
+  for (const key of FILE_KEYS) add(obj[key]);
+  for (const key of FILE_LIST_KEYS) {
+    if (Array.isArray(obj[key])) (obj[key] as unknown[]).forEach(add);
+  }
+  // Codex sends apply_patch as { input: "*** Begin Patch ..." }
+  if (typeof obj.input === "string") filesFromInput(obj.input).forEach(add);
+  return files;
+}
+
+function summarizeInput(input: unknown, files: string[]): string | null {
+  if (typeof input === "string") {
+    return files.length > 0 ? files.join(", ") : firstLine(input);
+  }
+  if (typeof input !== "object" || input === null) return null;
+
+  const obj = input as Record<string, unknown>;
+  for (const key of SUMMARY_KEYS) {
+    const value = obj[key];
+    if (typeof value === "string" && value.trim()) return firstLine(value);
+    if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+      return value.join(" ");
+    }
+  }
+  if (files.length > 0) return files.join(", ");
+  const json = JSON.stringify(obj);
+  return json === "{}" ? null : json;
+}
+
+function resultText(output: unknown): string | null {
+  if (typeof output === "string") {
+    // Codex wraps shell output as JSON: { output, metadata }.
+    const wrapped = parseJsonObject(output);
+    if (wrapped && typeof wrapped.output === "string") return wrapped.output.trim() || null;
+    return output.trim() || null;
+  }
+  if (Array.isArray(output)) {
+    const texts = output
+      .map((block) =>
+        typeof block === "object" && block !== null && typeof (block as Record<string, unknown>).text === "string"
+          ? ((block as Record<string, unknown>).text as string)
+          : typeof block === "string"
+            ? block
+            : ""
+      )
+      .filter(Boolean);
+    return texts.join("\n").trim() || null;
+  }
+  if (typeof output === "object" && output !== null) {
+    const o = output as Record<string, unknown>;
+    if (typeof o.content === "string") return resultText(o.content);
+    if (typeof o.output === "string") return resultText(o.output);
+  }
+  return null;
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{")) return null;
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function firstLine(text: string): string {
+  const line = text.trim().split("\n")[0];
+  return line.length < text.trim().length ? `${line} …` : line;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
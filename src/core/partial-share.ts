@@ -0,0 +1,92 @@
+import { messageSearchText } from "./conversation-slice.js";
+import type { Conversation } from "../types.js";
+
+/**
+ * Which messages of a conversation to share. Message numbers are 1-based,
+ * as in the share preview and dry-run report.
+ */
+export interface MessageSelection {
+  /** "5-20", "5-" or "-20", inclusive. */
+  range?: string;
+  /** Only user and assistant messages, without captured tool calls. */
+  turnsOnly?: boolean;
+  /** Case-insensitive regular expression a message must match. */
+  match?: string;
+}
+
+export interface SelectedMessages {
+  conversation: Conversation;
+  /** 0-based index in the original conversation of each kept message. */
+  indexes: number[];
+}
+
+/**
+ * Narrow a conversation to the messages to share. Returns a copy; the
+ * original indexes let previews number messages as the sharer knows them.
+ */
+export function selectMessages(
+  conversation: Conversation,
+  selection: MessageSelection
+): SelectedMessages {
+  const total = conversation.messages.length;
+  const { from, to } = selection.range
+    ? parseMessageRange(selection.range, total)
+    : { from: 0, to: total - 1 };
+  let pattern: RegExp | null = null;
+  if (selection.match) {
+    try {
+      pattern = new RegExp(selection.match, "i");
+    } catch {
+      throw new Error(`Invalid --match pattern: ${selection.match}`);
+    }
+  }
+
+  const indexes: number[] = [];
+  const messages = [];
+  for (let i = from; i <= to; i++) {
+    let message = conversation.messages[i];
+    if (selection.turnsOnly) {
+      if (message.role === "tool") continue;
+      if (message.tools) {
+        const { tools: _tools, ...rest } = message;
+        message = rest;
+      }
+    }
+    if (pattern && !pattern.test(messageSearchText(message))) continue;
+    indexes.push(i);
+    messages.push(message);
+  }
+  return { conversation: { ...conversation, messages }, indexes };
+}
+
+/**
+ * Parse "5-20", "5-", "-20" or "7" (1-based, inclusive) into 0-based
+ * bounds within a conversation of `total` messages.
+ */
+export function parseMessageRange(value: string, total: number): { from: number; to: number } {
+  const match = /^\s*(\d*)\s*(?:-\s*(\d*))?\s*$/.exec(value);
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new Error(`Invalid --range: ${value} (use e.g. 5-20, 5- or -20)`);
+  }
+  const from = match[1] ? Number(match[1]) : 1;
+  const to = match[2] !== undefined ? (match[2] ? Number(match[2]) : total) : from;
+  if (from < 1 || to < from || from > total) {
+    throw new Error(`--range ${value} is outside messages 1-${total}.`);
+  }
+  return { from: from - 1, to: Math.min(to, total) - 1 };
+}
+
+/**
+ * Parse a list of message numbers such as "3, 7-9" into a set of numbers.
+ */
+export function parseMessageList(value: string): Set<number> {
+  const numbers = new Set<number>();
+  for (const part of value.split(/[\s,]+/).filter(Boolean)) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Not a message number or range: ${part}`);
+    const first = Number(match[1]);
+    const last = match[2] ? Number(match[2]) : first;
+    for (let n = Math.min(first, last); n <= Math.max(first, last); n++) numbers.add(n);
+  }
+  return numbers;
+}
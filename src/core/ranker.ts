@@ -0,0 +1,240 @@
+import { createHash } from "node:crypto";
+import {
+  getRankerDocuments,
+  upsertRankerDocument,
+  deleteRankerDocument,
+  adjustDocumentFrequencies,
+  getDocumentFrequencies,
+} from "./db.js";
+import type { FactRanker } from "./engine.js";
+import type { Fact } from "../types.js";
+import type Database from "better-sqlite3";
+
+/**
+ * Rankers selectable per recall call.
+ * "keyword" uses only the built-in tag/key/text heuristics (no extra ranker).
+ */
+export const RANKER_NAMES = ["keyword", "tfidf"] as const;
+export type RankerName = (typeof RANKER_NAMES)[number];
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have",
+  "in", "is", "it", "its", "of", "on", "or", "our", "that", "the", "this", "to",
+  "use", "uses", "using", "was", "we", "were", "what", "which", "with",
+]);
+
+/**
+ * Related-term groups. Every member also contributes its group's concept term,
+ * so a query for "orm" reaches facts that only mention "prisma".
+ */
+const CONCEPT_GROUPS: Record<string, string[]> = {
+  orm: ["prisma", "drizzle", "typeorm", "sequelize", "sqlalchemy", "hibernate", "knex", "mikroorm"],
+  database: ["db", "postgres", "postgresql", "mysql", "sqlite", "mongodb", "mongo", "redis", "dynamodb", "sql", "schema", "migration"],
+  auth: ["authentication", "authorization", "login", "oauth", "jwt", "session", "sso", "signin", "password", "token"],
+  test: ["testing", "jest", "vitest", "mocha", "spec", "pytest", "unittest", "coverage"],
+  style: ["formatting", "prettier", "eslint", "lint", "linter", "convention", "indent"],
+  deploy: ["deployment", "ci", "cd", "release", "vercel", "docker", "kubernetes", "k8s", "pipeline"],
+  frontend: ["react", "vue", "svelte", "angular", "ui", "nextjs", "css", "tailwind", "component"],
+  backend: ["server", "api", "express", "fastify", "nestjs", "django", "flask", "endpoint"],
+  package: ["dependency", "npm", "pnpm", "yarn", "bun", "library"],
+  language: ["typescript", "ts", "javascript", "js", "python", "rust", "golang"],
+  storage: ["arweave", "s3", "ipfs", "blob", "bucket", "upload"],
+};
+
+/** Weight of a concept term relative to the term that produced it. */
+const CONCEPT_WEIGHT = 0.5;
+/** Tags are curated by the agent, so they count double. */
+const TAG_WEIGHT = 2;
+
+const CONCEPT_INDEX = buildConceptIndex();
+
+/**
+ * Light suffix-stripping stemmer. Not Porter, but enough to fold
+ * plurals and common verb/noun endings onto one term.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+
+  let stemmed = word;
+  const rules: Array<[string, string]> = [
+    ["ations", "ate"],
+    ["ation", "ate"],
+    ["ments", ""],
+    ["ment", ""],
+    ["ings", ""],
+    ["ing", ""],
+    ["edly", ""],
+    ["ed", ""],
+    ["ies", "y"],
+    ["sses", "ss"],
+    ["ches", "ch"],
+    ["shes", "sh"],
+    ["xes", "x"],
+    ["zes", "z"],
+  ];
+  let matched = false;
+  for (const [suffix, replacement] of rules) {
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length) + replacement;
+      matched = true;
+      // "running" -> "runn" -> "run"
+      if ((suffix === "ing" || suffix === "ed") && /([^aeiouslz])\1$/.test(stemmed)) {
+        stemmed = stemmed.slice(0, -1);
+      }
+      break;
+    }
+  }
+  if (!matched && stemmed.endsWith("s") && !/(ss|us|is)$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  if (stemmed.length > 4 && stemmed.endsWith("e")) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+/**
+ * Tokenize, drop stopwords, stem, and expand related concepts.
+ * Returns weighted term frequencies.
+ */
+export function analyzeText(text: string, weight = 1): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (term: string, w: number) => terms.set(term, (terms.get(term) ?? 0) + w);
+
+  for (const raw of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (raw.length < 2 || STOPWORDS.has(raw)) continue;
+    const term = stem(raw);
+    add(term, weight);
+    const concept = CONCEPT_INDEX.get(term);
+    if (concept && concept !== term) add(concept, weight * CONCEPT_WEIGHT);
+  }
+  return terms;
+}
+
+/**
+ * Offline TF-IDF ranker. Each fact (key + value + tags) becomes a weighted
+ * term vector; the topic is compared by cosine similarity.
+ *
+ * Per-fact term vectors and the vocabulary's document frequencies are
+ * persisted in SQLite and updated incrementally: only facts whose content
+ * changed since the last call are re-analyzed.
+ */
+export class TfIdfRanker implements FactRanker {
+  readonly name = "tfidf";
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  rank(topic: string, facts: Fact[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const docs = this.refresh(facts);
+    if (docs.size === 0) return scores;
+
+    const query = analyzeText(topic);
+    if (query.size === 0) return scores;
+
+    const docFreqs = getDocumentFrequencies(this.db);
+    const idf = (term: string) => Math.log((docs.size + 1) / ((docFreqs.get(term) ?? 0) + 1)) + 1;
+
+    const queryVec = new Map<string, number>();
+    for (const [term, tf] of query) queryVec.set(term, tf * idf(term));
+    const queryNorm = vectorNorm(queryVec.values());
+
+    for (const [key, terms] of docs) {
+      let dot = 0;
+      const weights: number[] = [];
+      for (const [term, tf] of Object.entries(terms)) {
+        const w = tf * idf(term);
+        weights.push(w);
+        const q = queryVec.get(term);
+        if (q !== undefined) dot += q * w;
+      }
+      if (dot === 0) continue;
+      scores.set(key, dot / (queryNorm * vectorNorm(weights)));
+    }
+    return scores;
+  }
+
+  /**
+   * Bring the persisted index in line with the current facts.
+   * Returns term vectors keyed by fact key.
+   */
+  private refresh(facts: Fact[]): Map<string, Record<string, number>> {
+    const stored = new Map(getRankerDocuments(this.db).map((d) => [d.factKey, d]));
+    const docs = new Map<string, Record<string, number>>();
+
+    this.db.transaction(() => {
+      for (const fact of facts) {
+        const hash = contentHash(fact);
+        const existing = stored.get(fact.key);
+        stored.delete(fact.key);
+        if (existing && existing.contentHash === hash) {
+          docs.set(fact.key, existing.terms);
+          continue;
+        }
+
+        const terms = factTerms(fact);
+        if (existing) adjustDocumentFrequencies(this.db, Object.keys(existing.terms), -1);
+        adjustDocumentFrequencies(this.db, Object.keys(terms), 1);
+        upsertRankerDocument(this.db, { factKey: fact.key, contentHash: hash, terms });
+        docs.set(fact.key, terms);
+      }
+
+      // Whatever is left no longer exists as a fact.
+      for (const gone of stored.values()) {
+        adjustDocumentFrequencies(this.db, Object.keys(gone.terms), -1);
+        deleteRankerDocument(this.db, gone.factKey);
+      }
+    })();
+
+    return docs;
+  }
+}
+
+/**
+ * Build the ranker for a given name. "keyword" has no extra ranker.
+ */
+export function createRanker(
+  name: RankerName,
+  db: Database.Database
+): FactRanker | undefined {
+  if (name === "tfidf") return new TfIdfRanker(db);
+  return undefined;
+}
+
+function factTerms(fact: Fact): Record<string, number> {
+  const terms: Record<string, number> = {};
+  const sources = [
+    analyzeText(fact.key),
+    analyzeText(fact.value),
+    analyzeText(fact.tags.join(" "), TAG_WEIGHT),
+  ];
+  for (const source of sources) {
+    for (const [term, tf] of source) terms[term] = (terms[term] ?? 0) + tf;
+  }
+  return terms;
+}
+
+function contentHash(fact: Fact): string {
+  return createHash("sha256")
+    .update(`${fact.key}\0${fact.value}\0${fact.tags.join("\0")}`)
+    .digest("hex");
+}
+
+function vectorNorm(values: Iterable<number>): number {
+  let sum = 0;
+  for (const v of values) sum += v * v;
+  return Math.sqrt(sum) || 1;
+}
+
+function buildConceptIndex(): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const [concept, members] of Object.entries(CONCEPT_GROUPS)) {
+    const stemmedConcept = stem(concept);
+    index.set(stemmedConcept, stemmedConcept);
+    for (const member of members) index.set(stem(member), stemmedConcept);
+  }
+  return index;
+}
@@ -0,0 +1,195 @@
+import { loadConfig, type RedactionConfig } from "./config.js";
+import type { Conversation, ConversationMessage } from "../types.js";
+
+/**
+ * A secret pattern. Each match is replaced with `[REDACTED:<name>]`;
+ * patterns use lookarounds when only part of the match is secret
+ * (the password in a connection string, the value of an env assignment).
+ */
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  /** Further check on each match; rejected matches are left as they are. */
+  accept?: (match: string) => boolean;
+}
+
+export interface RedactionFinding {
+  rule: string;
+  /** Start of the masked value, never the whole secret. */
+  preview: string;
+}
+
+export interface ConversationRedactionFinding extends RedactionFinding {
+  messageIndex: number;
+}
+
+// Random-looking strings: long, mixed-case with digits, and close to uniform.
+const HIGH_ENTROPY_MIN_LENGTH = 32;
+const HIGH_ENTROPY_MIN_BITS = 4.3;
+
+// Values that are already masked or are obviously placeholders.
+const NOT_PLACEHOLDER = "(?!\\[REDACTED|\\$\\{|<)";
+
+/**
+ * Built-in detectors, most specific first so the report names the real
+ * kind of secret rather than a generic one.
+ */
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: "private-key",
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY-----|$)/g,
+  },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { name: "anthropic-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "stripe-key", pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { name: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    name: "connection-string-password",
+    pattern: new RegExp(`(?<=\\b[a-z][a-z0-9+.-]*://[^\\s:@/]*:)${NOT_PLACEHOLDER}[^\\s@/]+(?=@)`, "gi"),
+  },
+  {
+    name: "bearer-token",
+    pattern: new RegExp(`(?<=\\bBearer\\s+)${NOT_PLACEHOLDER}[A-Za-z0-9._~+/-]{16,}=*`, "g"),
+  },
+  {
+    name: "env-secret",
+    pattern: new RegExp(
+      `(?<=\\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|PRIVATE_KEY|ACCESS_KEY)[A-Z0-9_]*\\s*[=:]\\s*["']?)${NOT_PLACEHOLDER}[^\\s"'#]{6,}`,
+      "g"
+    ),
+  },
+];
+
+const HIGH_ENTROPY_RULE: RedactionRule = {
+  name: "high-entropy",
+  pattern: /[A-Za-z0-9+/_=-]{32,}/g,
+  accept: isHighEntropy,
+};
+
+/**
+ * Built-in rules, the user's rules from config.json, then the high-entropy
+ * catch-all unless it is turned off. A bad user rule is reported on stderr
+ * and skipped; it never disables the built-in ones.
+ */
+export function getRedactionRules(config?: RedactionConfig): RedactionRule[] {
+  if (!config) {
+    try {
+      config = loadConfig().redaction ?? {};
+    } catch (err) {
+      warnRedaction(err instanceof Error ? err.message : String(err));
+      config = {};
+    }
+  }
+
+  const rules = [...BUILTIN_REDACTION_RULES];
+  for (const rule of Array.isArray(config.rules) ? config.rules : []) {
+    try {
+      if (typeof rule?.name !== "string" || typeof rule?.pattern !== "string") {
+        throw new Error("a rule needs a name and a pattern");
+      }
+      const flags = rule.flags ?? "";
+      rules.push({
+        name: rule.name,
+        pattern: new RegExp(rule.pattern, flags.includes("g") ? flags : `${flags}g`),
+      });
+    } catch (err) {
+      warnRedaction(
+        `skipping redaction rule ${JSON.stringify(rule?.name)}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+  if (config.highEntropy !== false) rules.push(HIGH_ENTROPY_RULE);
+  return rules;
+}
+
+/**
+ * Mask every secret in `text`. Rules run in order over the already-masked
+ * text, so a value is only reported once.
+ */
+export function redactText(
+  text: string,
+  rules: RedactionRule[] = getRedactionRules()
+): { text: string; findings: RedactionFinding[] } {
+  const findings: RedactionFinding[] = [];
+  let result = text;
+  for (const rule of rules) {
+    result = result.replace(rule.pattern, (match: string) => {
+      if (match === "" || (rule.accept && !rule.accept(match))) return match;
+      findings.push({ rule: rule.name, preview: previewSecret(match) });
+      return `[REDACTED:${rule.name}]`;
+    });
+  }
+  return { text: result, findings };
+}
+
+/**
+ * A copy of the message with secrets masked in its text and in any
+ * captured tool inputs and results.
+ */
+export function redactMessage(
+  message: ConversationMessage,
+  rules: RedactionRule[] = getRedactionRules()
+): { message: ConversationMessage; findings: RedactionFinding[] } {
+  const findings: RedactionFinding[] = [];
+  const mask = (text: string): string => {
+    const redacted = redactText(text, rules);
+    findings.push(...redacted.findings);
+    return redacted.text;
+  };
+
+  const redacted: ConversationMessage = { ...message, content: mask(message.content) };
+  if (message.tools) {
+    redacted.tools = message.tools.map((call) => ({
+      ...call,
+      ...(call.input !== undefined ? { input: mask(call.input) } : {}),
+      ...(call.result !== undefined ? { result: mask(call.result) } : {}),
+    }));
+  }
+  return { message: redacted, findings };
+}
+
+/**
+ * A copy of the conversation with secrets masked in every message.
+ */
+export function redactConversation(
+  conversation: Conversation,
+  rules: RedactionRule[] = getRedactionRules()
+): { conversation: Conversation; findings: ConversationRedactionFinding[] } {
+  const findings: ConversationRedactionFinding[] = [];
+  const messages = conversation.messages.map((message, messageIndex) => {
+    const redacted = redactMessage(message, rules);
+    for (const finding of redacted.findings) findings.push({ ...finding, messageIndex });
+    return redacted.message;
+  });
+  return { conversation: { ...conversation, messages }, findings };
+}
+
+/**
+ * Shannon entropy in bits per character, with at least one digit, one
+ * lowercase and one uppercase letter. Hex digests and identifiers fall short.
+ */
+function isHighEntropy(value: string): boolean {
+  if (value.length < HIGH_ENTROPY_MIN_LENGTH) return false;
+  if (!/[0-9]/.test(value) || !/[a-z]/.test(value) || !/[A-Z]/.test(value)) return false;
+
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits >= HIGH_ENTROPY_MIN_BITS;
+}
+
+function previewSecret(value: string): string {
+  return `${value.slice(0, 4)}… (${value.length} chars)`;
+}
+
+function warnRedaction(message: string): void {
+  process.stderr.write(`SharedContext: ${message}\n`);
+}
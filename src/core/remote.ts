@@ -0,0 +1,412 @@
+/**
+ * SharedContext's tag schema on top of a StorageReader: shards, conversation
+ * chunks, conversation shares and the identity transaction. Works the same
+ * against Arweave, a local directory, or a test double.
+ */
+
+import type { StorageReader, TagFilter, TagQueryOptions, TransactionTagInfo } from "./storage.js";
+import { addressFromPublicKey, recoverPublicKey, verifySignature } from "./identity.js";
+import { parsePublicKey } from "./ecies.js";
+import { isConversationClient, type ConversationClient } from "../types.js";
+
+// Guard against a reader that never stops returning cursors.
+const MAX_QUERY_PAGES = 1000;
+
+export interface ShardInfo {
+  txId: string;
+  version: number;
+  type: "delta" | "snapshot" | "identity";
+  timestamp: string;
+  signature: string | null;
+  wallet: string;
+  /** Device that queued the shard; null for shards from before the tag existed. */
+  deviceId: string | null;
+  /** Position of this shard within a multi-part snapshot (1-based). Always 1 for deltas. */
+  partIndex: number;
+  /** Number of shards the snapshot was split into. Always 1 for deltas. */
+  partTotal: number;
+}
+
+export interface ConversationChunkInfo {
+  txId: string;
+  wallet: string;
+  client: ConversationClient;
+  project: string;
+  session: string;
+  chunkIndex: number;
+  chunkTotal: number;
+  offset: number;
+  count: number;
+  timestamp: string;
+  signature: string | null;
+}
+
+export interface ConversationShareInfo {
+  txId: string;
+  shareId: string;
+  wallet: string;
+  timestamp: string;
+  signature: string | null;
+  /** ISO time after which the sharer no longer wants the share imported. */
+  expiresAt: string | null;
+}
+
+export interface ShareRevocationInfo {
+  txId: string;
+  shareId: string;
+  wallet: string;
+  revokedAt: string;
+}
+
+/** Signed data of a "conversation-share-revocation" record. */
+export interface ShareRevocationPayload {
+  v: 1;
+  shareId: string;
+  revokedAt: string;
+}
+
+/**
+ * Query all shards belonging to a wallet.
+ * Returns them sorted by version ascending.
+ */
+export async function queryShards(
+  reader: StorageReader,
+  walletAddress: string
+): Promise<ShardInfo[]> {
+  const shards: ShardInfo[] = [];
+  const transactions = await queryAllByTags(reader, [
+    { name: "App-Name", values: ["sharedcontext"] },
+    { name: "Wallet", values: [walletAddress] },
+  ]);
+
+  for (const tx of transactions) {
+    const tagMap = tx.tags;
+    const rawType = tagMap.get("Type");
+    if (
+      rawType !== "delta" &&
+      rawType !== "snapshot" &&
+      rawType !== "identity"
+    ) {
+      continue;
+    }
+
+    const wallet = tagMap.get("Wallet") ?? "";
+    if (!wallet || wallet.toLowerCase() !== walletAddress.toLowerCase()) {
+      continue;
+    }
+
+    const rawSignature = tagMap.get("Signature")?.trim() ?? "";
+    const signature = rawSignature.length > 0 ? rawSignature : null;
+    const timestamp = tagMap.get("Timestamp") ?? "";
+
+    // Strict parsing:
+    // - delta/snapshot require a valid integer version and a signature
+    // - identity can omit version (set to 0) but still requires a signature
+    let version = 0;
+    if (rawType === "delta" || rawType === "snapshot") {
+      const rawVersion = tagMap.get("Version");
+      if (!rawVersion) continue;
+      const parsedVersion = Number.parseInt(rawVersion, 10);
+      if (!Number.isFinite(parsedVersion) || parsedVersion < 1) continue;
+      if (!signature) continue;
+      version = parsedVersion;
+    } else {
+      if (!signature) continue;
+    }
+
+    // Snapshots may span several consecutive versions ("Snapshot-Part: 2/3").
+    // Untagged snapshots predate multi-part support and are single-part.
+    let partIndex = 1;
+    let partTotal = 1;
+    if (rawType === "snapshot") {
+      const rawPart = tagMap.get("Snapshot-Part") ?? "1/1";
+      const partParts = rawPart.split("/");
+      partIndex = Number.parseInt(partParts[0] ?? "1", 10);
+      partTotal = Number.parseInt(partParts[1] ?? "1", 10);
+      if (
+        !Number.isFinite(partIndex) ||
+        !Number.isFinite(partTotal) ||
+        partIndex < 1 ||
+        partTotal < 1 ||
+        partIndex > partTotal
+      ) {
+        continue;
+      }
+    }
+
+    shards.push({
+      txId: tx.txId,
+      version,
+      type: rawType,
+      timestamp,
+      signature,
+      wallet,
+      deviceId: tagMap.get("Device-Id") || null,
+      partIndex,
+      partTotal,
+    });
+  }
+
+  // Sort by version ascending (upload order is not version order)
+  shards.sort((a, b) => a.version - b.version);
+  return shards;
+}
+
+/**
+ * Query conversation chunks belonging to a wallet.
+ * Returns all conversation transactions (paginated) with parsed metadata.
+ */
+export async function queryConversationChunks(
+  reader: StorageReader,
+  walletAddress: string
+): Promise<ConversationChunkInfo[]> {
+  const chunks: ConversationChunkInfo[] = [];
+  const transactions = await queryAllByTags(reader, [
+    { name: "App-Name", values: ["sharedcontext"] },
+    { name: "Wallet", values: [walletAddress] },
+    { name: "Type", values: ["conversation"] },
+  ]);
+
+  for (const tx of transactions) {
+    const tagMap = tx.tags;
+    const wallet = tagMap.get("Wallet") ?? "";
+    if (!wallet || wallet.toLowerCase() !== walletAddress.toLowerCase()) {
+      continue;
+    }
+
+    const client = tagMap.get("Client");
+    if (!isConversationClient(client)) continue;
+
+    const project = tagMap.get("Project") ?? "";
+    const session = tagMap.get("Session") ?? "";
+    if (!project || !session) continue;
+
+    const rawChunk = tagMap.get("Chunk") ?? "1/1";
+    const chunkParts = rawChunk.split("/");
+    const chunkIndex = Number.parseInt(chunkParts[0] ?? "1", 10);
+    const chunkTotal = Number.parseInt(chunkParts[1] ?? "1", 10);
+    if (
+      !Number.isFinite(chunkIndex) ||
+      !Number.isFinite(chunkTotal) ||
+      chunkIndex < 1 ||
+      chunkTotal < 1 ||
+      chunkIndex > chunkTotal
+    ) {
+      continue;
+    }
+
+    const rawOffset = tagMap.get("Offset");
+    const rawCount = tagMap.get("Count");
+    const offset = rawOffset ? Number.parseInt(rawOffset, 10) : 0;
+    const count = rawCount ? Number.parseInt(rawCount, 10) : 0;
+    if (!Number.isFinite(offset) || offset < 0) continue;
+    if (!Number.isFinite(count) || count < 0) continue;
+
+    const rawSignature = tagMap.get("Signature")?.trim() ?? "";
+    const signature = rawSignature.length > 0 ? rawSignature : null;
+    if (!signature) continue;
+
+    chunks.push({
+      txId: tx.txId,
+      wallet,
+      client,
+      project,
+      session,
+      chunkIndex,
+      chunkTotal,
+      offset,
+      count,
+      timestamp: tagMap.get("Timestamp") ?? "",
+      signature,
+    });
+  }
+
+  chunks.sort((a, b) => {
+    if (a.session !== b.session) return a.session.localeCompare(b.session);
+    if (a.offset !== b.offset) return a.offset - b.offset;
+    if (a.chunkIndex !== b.chunkIndex) return a.chunkIndex - b.chunkIndex;
+    return a.timestamp.localeCompare(b.timestamp);
+  });
+  return chunks;
+}
+
+/**
+ * Query a conversation share transaction by Share-Id.
+ * Returns the newest matching transaction.
+ */
+export async function queryConversationShare(
+  reader: StorageReader,
+  shareId: string
+): Promise<ConversationShareInfo | null> {
+  const { transactions: [node] } = await reader.queryByTags(
+    [
+      { name: "App-Name", values: ["sharedcontext"] },
+      { name: "Type", values: ["conversation-share"] },
+      { name: "Share-Id", values: [shareId] },
+    ],
+    { newestFirst: true, pageSize: 1 }
+  );
+  if (!node) return null;
+
+  const tagMap = node.tags;
+  const type = tagMap.get("Type");
+  const taggedShareId = tagMap.get("Share-Id");
+  if (type !== "conversation-share" || taggedShareId !== shareId) {
+    return null;
+  }
+
+  const wallet = tagMap.get("Wallet") ?? "";
+  const timestamp = tagMap.get("Timestamp") ?? "";
+  const rawSignature = tagMap.get("Signature")?.trim() ?? "";
+  const signature = rawSignature.length > 0 ? rawSignature : null;
+
+  return {
+    txId: node.txId,
+    shareId,
+    wallet,
+    timestamp,
+    signature,
+    expiresAt: tagMap.get("Expires-At") ?? null,
+  };
+}
+
+/**
+ * Find the sharer's revocation of a share. Only records signed by `wallet`
+ * (the wallet that signed the share) whose signed data names this share
+ * count, so nobody else can revoke it and a revocation cannot be replayed
+ * onto another share.
+ */
+export async function queryShareRevocation(
+  reader: StorageReader,
+  shareId: string,
+  wallet: string
+): Promise<ShareRevocationInfo | null> {
+  const revocations = await queryAllByTags(
+    reader,
+    [
+      { name: "App-Name", values: ["sharedcontext"] },
+      { name: "Type", values: ["conversation-share-revocation"] },
+      { name: "Share-Id", values: [shareId] },
+      { name: "Wallet", values: [wallet] },
+    ],
+    { newestFirst: true }
+  );
+
+  for (const tx of revocations) {
+    const signature = tx.tags.get("Signature")?.trim();
+    if (!signature) continue;
+    try {
+      const data = await reader.fetchData(tx.txId, 4 * 1024);
+      if (!verifySignature(data, signature, wallet)) continue;
+      const payload = JSON.parse(new TextDecoder().decode(data)) as ShareRevocationPayload;
+      if (payload.v !== 1 || payload.shareId !== shareId) continue;
+      return { txId: tx.txId, shareId, wallet, revokedAt: payload.revokedAt };
+    } catch {
+      // Unreadable record — ignore it
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a wallet's public key, for encrypting to it. Uses the newest
+ * published "public-key" record, falling back to recovering the key from
+ * the signature on the wallet's identity transaction. A key is only
+ * returned if it hashes to the wallet address, so neither can be forged.
+ */
+export async function queryPublicKey(
+  reader: StorageReader,
+  walletAddress: string
+): Promise<Uint8Array | null> {
+  const published = await queryAllByTags(
+    reader,
+    [
+      { name: "App-Name", values: ["sharedcontext"] },
+      { name: "Type", values: ["public-key"] },
+      { name: "Wallet", values: [walletAddress] },
+    ],
+    { newestFirst: true }
+  );
+  for (const tx of published) {
+    const publicKey = parsePublicKey(tx.tags.get("Public-Key") ?? "");
+    if (publicKey && matchesWallet(publicKey, walletAddress)) return publicKey;
+  }
+
+  const identity = (await queryShards(reader, walletAddress))
+    .filter((s) => s.type === "identity" && s.signature)
+    .pop();
+  if (!identity?.signature) return null;
+  try {
+    const data = await reader.fetchData(identity.txId, 16 * 1024);
+    const publicKey = recoverPublicKey(data, identity.signature);
+    return publicKey && matchesWallet(publicKey, walletAddress) ? publicKey : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesWallet(publicKey: Uint8Array, walletAddress: string): boolean {
+  return addressFromPublicKey(publicKey).toLowerCase() === walletAddress.toLowerCase();
+}
+
+/**
+ * Find the identity transaction for a wallet (Type: "identity").
+ * Returns the salt (from tags) and encrypted private key (from data).
+ */
+export async function fetchIdentity(
+  reader: StorageReader,
+  walletAddress: string,
+  identityMaxBytes = 16 * 1024
+): Promise<{ salt: Uint8Array; encryptedPrivateKey: Uint8Array } | null> {
+  const shards = await queryShards(reader, walletAddress);
+  const identityTxs = shards.filter((s) => s.type === "identity" && !!s.signature);
+  if (identityTxs.length === 0) return null;
+  const identityTx = identityTxs.sort((a, b) => {
+    const ta = Number.parseInt(a.timestamp, 10);
+    const tb = Number.parseInt(b.timestamp, 10);
+    const sa = Number.isFinite(ta) ? ta : 0;
+    const sb = Number.isFinite(tb) ? tb : 0;
+    if (sa !== sb) return sb - sa; // newest first
+    return b.txId.localeCompare(a.txId);
+  })[0];
+
+  const txMeta = await reader.fetchTags(identityTx.txId);
+  if (!txMeta) return null;
+
+  const saltHex = txMeta.tags.get("Salt");
+  if (!saltHex) return null;
+
+  const salt = Buffer.from(saltHex, "hex");
+  const encryptedPrivateKey = await reader.fetchData(identityTx.txId, identityMaxBytes);
+
+  return { salt: new Uint8Array(salt), encryptedPrivateKey };
+}
+
+/**
+ * Follow a tag query's cursors to the end and return every transaction.
+ * Transactions seen on an earlier page are skipped.
+ */
+export async function queryAllByTags(
+  reader: StorageReader,
+  filters: TagFilter[],
+  options: Omit<TagQueryOptions, "cursor"> = {}
+): Promise<TransactionTagInfo[]> {
+  const results: TransactionTagInfo[] = [];
+  const seen = new Set<string>();
+  let cursor: string | null = null;
+
+  for (let page = 1; ; page++) {
+    if (page > MAX_QUERY_PAGES) {
+      throw new Error(`Tag query pagination exceeded ${MAX_QUERY_PAGES} pages.`);
+    }
+    const result = await reader.queryByTags(filters, { ...options, cursor });
+    for (const tx of result.transactions) {
+      if (seen.has(tx.txId)) continue;
+      seen.add(tx.txId);
+      results.push(tx);
+    }
+    if (!result.cursor || result.transactions.length === 0) break;
+    cursor = result.cursor;
+  }
+  return results;
+}
@@ -1,5 +1,12 @@
 import { v4 as uuidv4 } from "uuid";
-import type { Fact, Shard, ShardOperation } from "../types.js";
+import { compareHlc } from "./hlc.js";
+import type {
+  ConflictCandidate,
+  Fact,
+  FactConflict,
+  Shard,
+  ShardOperation,
+} from "../types.js";
 
 /**
  * Max encrypted shard size in bytes.
@@ -17,12 +24,14 @@ const ENCRYPTION_OVERHEAD = 28;
 export function createShard(
   operations: ShardOperation[],
   version: number,
-  sessionId: string
+  sessionId: string,
+  deviceId?: string
 ): Shard {
   return {
     shard_version: version,
     timestamp: new Date().toISOString(),
     session_id: sessionId,
+    ...(deviceId ? { device_id: deviceId } : {}),
     operations,
   };
 }
@@ -37,7 +46,8 @@ export function createChunkedShards(
   operations: ShardOperation[],
   startVersion: number,
   sessionId: string,
-  maxEncryptedBytes: number = MAX_SHARD_BYTES
+  maxEncryptedBytes: number = MAX_SHARD_BYTES,
+  deviceId?: string
 ): Shard[] {
   if (operations.length === 0) return [];
 
@@ -45,7 +55,7 @@ export function createChunkedShards(
   const chunks = chunkOperationsBySize(operations, maxJsonBytes);
 
   return chunks.map((ops, i) =>
-    createShard(ops, startVersion + i, sessionId)
+    createShard(ops, startVersion + i, sessionId, deviceId)
   );
 }
 
@@ -62,13 +72,14 @@ function chunkOperationsBySize(
   let currentOps: ShardOperation[] = [];
 
   // Measure the cost of the shard wrapper without any operations:
-  // {"shard_version":N,"timestamp":"...","session_id":"...","operations":[]}
-  // This is roughly ~90-120 bytes depending on values. We use a live measurement.
+  // {"shard_version":N,"timestamp":"...","session_id":"...","device_id":"...","operations":[]}
+  // This is roughly ~90-170 bytes depending on values. We use a live measurement.
   const wrapperSize = encoder.encode(
     JSON.stringify({
       shard_version: 999999,
       timestamp: new Date().toISOString(),
       session_id: "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+      device_id: "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
       operations: [],
     })
   ).byteLength;
@@ -116,12 +127,24 @@ export function deserializeShard(data: Uint8Array): Shard {
  * Replay an ordered list of shards to produce the current state.
  * Later shards override earlier ones for the same key.
  * Delete operations remove a key entirely.
+ *
+ * Operations carrying a hybrid logical clock merge deterministically:
+ * an operation older than the last applied change to its key is ignored,
+ * so devices that pushed the same version converge on the same state
+ * regardless of shard order. Operations without a clock apply in order.
  */
 export function replayShards(shards: Shard[]): Fact[] {
   const state = new Map<string, Fact>();
+  const clocks = new Map<string, string>();
 
   for (const shard of shards) {
     for (const op of shard.operations) {
+      if (op.hlc) {
+        const applied = clocks.get(op.key);
+        if (applied && compareHlc(op.hlc, applied) < 0) continue;
+        clocks.set(op.key, op.hlc);
+      }
+
       if (op.op === "delete") {
         state.delete(op.key);
       } else if (op.op === "upsert") {
@@ -137,6 +160,7 @@ export function replayShards(shards: Shard[]): Fact[] {
           created: existing?.created ?? shard.timestamp,
           last_confirmed: shard.timestamp,
           access_count: existing?.access_count ?? 0,
+          ...(op.hlc ? { hlc: op.hlc } : {}),
         });
       }
     }
@@ -145,6 +169,77 @@ export function replayShards(shards: Shard[]): Fact[] {
   return Array.from(state.values());
 }
 
+/**
+ * Find keys that diverged because two devices pushed the same shard version.
+ * For each such key, every device's final operation in that version is a
+ * candidate; the winner is the one the replay merge rule keeps (newest clock).
+ */
+export function detectConflicts(shards: Shard[]): FactConflict[] {
+  const byVersion = new Map<number, Shard[]>();
+  for (const shard of shards) {
+    const group = byVersion.get(shard.shard_version);
+    if (group) group.push(shard);
+    else byVersion.set(shard.shard_version, [shard]);
+  }
+
+  const conflicts: FactConflict[] = [];
+  for (const [version, group] of byVersion) {
+    if (group.length < 2) continue;
+
+    // Last operation per key, per pushing device (sessions stand in for legacy shards).
+    const perDevice = new Map<string, Map<string, ConflictCandidate>>();
+    for (const shard of group) {
+      const origin = shard.device_id ?? `session:${shard.session_id}`;
+      const ops = perDevice.get(origin) ?? new Map<string, ConflictCandidate>();
+      for (const op of shard.operations) {
+        ops.set(op.key, {
+          device_id: shard.device_id ?? null,
+          session_id: shard.session_id,
+          op: op.op,
+          value: op.value,
+          tags: op.tags,
+          scope: op.scope,
+          confidence: op.confidence,
+          hlc: op.hlc,
+        });
+      }
+      perDevice.set(origin, ops);
+    }
+    if (perDevice.size < 2) continue;
+
+    const keys = new Set<string>();
+    for (const ops of perDevice.values()) for (const key of ops.keys()) keys.add(key);
+
+    for (const key of [...keys].sort()) {
+      const candidates: ConflictCandidate[] = [];
+      for (const ops of perDevice.values()) {
+        const candidate = ops.get(key);
+        if (candidate) candidates.push(candidate);
+      }
+      if (candidates.length < 2) continue;
+
+      const first = candidates[0];
+      const diverged = candidates.some(
+        (c) =>
+          c.op !== first.op ||
+          c.value !== first.value ||
+          c.scope !== first.scope ||
+          JSON.stringify(c.tags ?? []) !== JSON.stringify(first.tags ?? [])
+      );
+      if (!diverged) continue;
+
+      let winner = 0;
+      for (let i = 1; i < candidates.length; i++) {
+        const current = candidates[winner].hlc ?? "";
+        if (compareHlc(candidates[i].hlc ?? "", current) > 0) winner = i;
+      }
+      conflicts.push({ key, shard_version: version, candidates, winner });
+    }
+  }
+
+  return conflicts;
+}
+
 /**
  * Build a ShardOperation from a Fact (for creating shards from local state).
  */
@@ -157,5 +252,6 @@ export function factToUpsertOp(fact: Fact): ShardOperation {
     tags: fact.tags,
     scope: fact.scope,
     confidence: fact.confidence,
+    ...(fact.hlc ? { hlc: fact.hlc } : {}),
   };
 }
@@ -0,0 +1,423 @@
+import { readdirSync, statSync, readFileSync, existsSync } from "fs";
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from "path";
+import { homedir } from "os";
+import { parseCursorTranscript, parseCursorJSONL } from "./parsers/cursor.js";
+import { parseClaudeCodeJSONL } from "./parsers/claude-code.js";
+import { parseCodexJSONL, readCodexSessionMeta, codexSessionId } from "./parsers/codex.js";
+import { parseMappedJSONL } from "./parsers/mapped-jsonl.js";
+import type { ParseOptions } from "./parsers/tools.js";
+import { loadConfig, getConfigPath, type ConversationSourceConfig } from "./config.js";
+import {
+  CONVERSATION_CLIENTS,
+  isConversationClient,
+  type Conversation,
+  type ConversationClient,
+} from "../types.js";
+
+export type ConversationFormat = "txt" | "jsonl";
+
+export interface ConversationFileRef {
+  path: string;
+  client: ConversationClient;
+  format: ConversationFormat;
+  project: string;
+  fileId: string;
+}
+
+/**
+ * Where one AI client keeps its conversations and how to read them.
+ * The watcher, the MCP server and `list` only talk to sources, so a new
+ * client is one more entry here (or in config.json), not another if/else.
+ */
+export interface ConversationSource {
+  /** Client id stamped on every conversation from this source. */
+  client: ConversationClient;
+  /** Display name, e.g. "Claude Code". */
+  name: string;
+  /** All conversation files this source can currently see. */
+  discover(): ConversationFileRef[];
+  /** Directories to watch for changes; they may not exist yet. */
+  watchRoots(): string[];
+  /** The file ref for a path this source owns, or null if it is not one of its files. */
+  resolveFile(path: string): ConversationFileRef | null;
+  parse(text: string, file: ConversationFileRef, options?: ParseOptions): Conversation;
+}
+
+function cursorProjectsDir(): string {
+  return join(homedir(), ".cursor", "projects");
+}
+
+function claudeProjectsDir(): string {
+  return join(homedir(), ".claude", "projects");
+}
+
+function codexSessionsDir(): string {
+  return join(process.env.CODEX_HOME || join(homedir(), ".codex"), "sessions");
+}
+
+/**
+ * Cursor agent transcripts: ~/.cursor/projects/<project>/agent-transcripts/
+ * holding either <id>.txt (old) or <id>/<id>.jsonl (new).
+ */
+const cursorSource: ConversationSource = {
+  client: "cursor",
+  name: "Cursor",
+
+  discover() {
+    const results: ConversationFileRef[] = [];
+    const cursorDir = cursorProjectsDir();
+    if (!existsSync(cursorDir)) return results;
+
+    try {
+      for (const projectDir of readdirSync(cursorDir)) {
+        const transcriptsDir = join(cursorDir, projectDir, "agent-transcripts");
+        if (!existsSync(transcriptsDir)) continue;
+
+        const project = projectDir.split("-").pop() ?? projectDir;
+
+        for (const entry of readdirSync(transcriptsDir)) {
+          const entryPath = join(transcriptsDir, entry);
+
+          if (entry.endsWith(".txt")) {
+            results.push({
+              path: entryPath,
+              client: "cursor",
+              format: "txt",
+              project,
+              fileId: entry.replace(".txt", ""),
+            });
+            continue;
+          }
+
+          // New format: directory containing <uuid>.jsonl
+          try {
+            if (!statSync(entryPath).isDirectory()) continue;
+          } catch {
+            continue;
+          }
+          const jsonlPath = join(entryPath, `${entry}.jsonl`);
+          if (existsSync(jsonlPath)) {
+            results.push({
+              path: jsonlPath,
+              client: "cursor",
+              format: "jsonl",
+              project,
+              fileId: entry,
+            });
+          }
+        }
+      }
+    } catch {
+      // Directory access error — skip
+    }
+
+    return results;
+  },
+
+  watchRoots() {
+    return [cursorProjectsDir()];
+  },
+
+  resolveFile(path) {
+    const parts = relativeParts(path, cursorProjectsDir());
+    if (!parts || parts[1] !== "agent-transcripts") return null;
+    const project = parts[0].split("-").pop() ?? parts[0];
+
+    if (parts.length === 3 && parts[2].endsWith(".txt")) {
+      return { path, client: "cursor", format: "txt", project, fileId: parts[2].replace(".txt", "") };
+    }
+    if (parts.length === 4 && parts[3] === `${parts[2]}.jsonl`) {
+      return { path, client: "cursor", format: "jsonl", project, fileId: parts[2] };
+    }
+    return null;
+  },
+
+  parse(text, file, options) {
+    const conversation = file.format === "jsonl"
+      ? parseCursorJSONL(text, file.fileId, file.project, options)
+      : parseCursorTranscript(text, file.fileId, file.project, options);
+    // Cursor transcripts carry no timestamps; the file's mtime is the best signal.
+    conversation.updatedAt = new Date(statSync(file.path).mtimeMs).toISOString();
+    return conversation;
+  },
+};
+
+/**
+ * Claude Code sessions: ~/.claude/projects/<project>/<session>.jsonl
+ */
+const claudeCodeSource: ConversationSource = {
+  client: "claude-code",
+  name: "Claude Code",
+
+  discover() {
+    const results: ConversationFileRef[] = [];
+    const claudeDir = claudeProjectsDir();
+    if (!existsSync(claudeDir)) return results;
+
+    try {
+      for (const projectDir of readdirSync(claudeDir)) {
+        const fullProjectDir = join(claudeDir, projectDir);
+        const stat = statSync(fullProjectDir);
+        if (!stat.isDirectory()) continue;
+
+        const project = projectDir.split("-").pop() ?? projectDir;
+
+        for (const file of readdirSync(fullProjectDir)) {
+          if (!file.endsWith(".jsonl")) continue;
+          const filePath = join(fullProjectDir, file);
+          const fileStat = statSync(filePath);
+          if (fileStat.size === 0) continue;
+
+          results.push({
+            path: filePath,
+            client: "claude-code",
+            format: "jsonl",
+            project,
+            fileId: file.replace(".jsonl", ""),
+          });
+        }
+      }
+    } catch {
+      // Directory access error — skip
+    }
+
+    return results;
+  },
+
+  watchRoots() {
+    return [claudeProjectsDir()];
+  },
+
+  resolveFile(path) {
+    const parts = relativeParts(path, claudeProjectsDir());
+    if (!parts || parts.length !== 2 || !parts[1].endsWith(".jsonl")) return null;
+    return {
+      path,
+      client: "claude-code",
+      format: "jsonl",
+      project: parts[0].split("-").pop() ?? parts[0],
+      fileId: parts[1].replace(".jsonl", ""),
+    };
+  },
+
+  parse(text, file, options) {
+    return parseClaudeCodeJSONL(text, file.fileId, file.project, options);
+  },
+};
+
+/**
+ * Codex keeps one JSONL "rollout" per session under
+ * $CODEX_HOME/sessions/YYYY/MM/DD/ (CODEX_HOME defaults to ~/.codex).
+ * The project is the last segment of the session's working directory.
+ */
+const codexSource: ConversationSource = {
+  client: "codex",
+  name: "Codex",
+
+  discover() {
+    const sessionsDir = codexSessionsDir();
+    if (!existsSync(sessionsDir)) return [];
+
+    return walkFiles(sessionsDir, ".jsonl").flatMap((path) => codexSource.resolveFile(path) ?? []);
+  },
+
+  watchRoots() {
+    return [codexSessionsDir()];
+  },
+
+  resolveFile(path) {
+    if (!isInside(path, codexSessionsDir()) || !path.endsWith(".jsonl")) return null;
+    let meta;
+    try {
+      meta = readCodexSessionMeta(path);
+    } catch {
+      return null; // gone or unreadable
+    }
+    return {
+      path,
+      client: "codex",
+      format: "jsonl",
+      project: meta.cwd ? basename(meta.cwd) || "unknown" : "unknown",
+      fileId: codexSessionId(path, meta),
+    };
+  },
+
+  parse(text, file, options) {
+    return parseCodexJSONL(text, file.fileId, file.project, options);
+  },
+};
+
+const BUILTIN_SOURCES: ConversationSource[] = [cursorSource, claudeCodeSource, codexSource];
+
+/**
+ * A source over a directory of JSONL logs, configured in config.json.
+ * Each file is one conversation, named after the file; the project is the
+ * configured one or the file's parent directory.
+ */
+export function createMappedJsonlSource(config: ConversationSourceConfig): ConversationSource {
+  if (!isConversationClient(config.client)) {
+    throw new Error(
+      `invalid client id ${JSON.stringify(config.client)} (lowercase letters, digits, ".", "_", "-")`
+    );
+  }
+  if ((CONVERSATION_CLIENTS as readonly string[]).includes(config.client)) {
+    throw new Error(`client id "${config.client}" is reserved for the built-in source`);
+  }
+  if (typeof config.directory !== "string" || !config.directory.trim()) {
+    throw new Error(`source "${config.client}" needs a directory`);
+  }
+  if (typeof config.fields?.role !== "string" || typeof config.fields?.content !== "string") {
+    throw new Error(`source "${config.client}" needs fields.role and fields.content`);
+  }
+
+  const directory = resolve(config.directory.replace(/^~(?=$|\/)/, homedir()));
+  const extension = config.extension ?? ".jsonl";
+  const client = config.client;
+
+  const source: ConversationSource = {
+    client,
+    name: client,
+
+    discover() {
+      if (!existsSync(directory)) return [];
+      return walkFiles(directory, extension).flatMap((path) => source.resolveFile(path) ?? []);
+    },
+
+    watchRoots() {
+      return [directory];
+    },
+
+    resolveFile(path) {
+      if (!isInside(path, directory) || !path.endsWith(extension)) return null;
+      return {
+        path,
+        client,
+        format: "jsonl",
+        project: config.project ?? basename(dirname(path)),
+        fileId: basename(path, extname(path)),
+      };
+    },
+
+    parse(text, file) {
+      return parseMappedJSONL(text, file.fileId, file.project, client, config);
+    },
+  };
+  return source;
+}
+
+/**
+ * Built-in sources followed by the ones configured in config.json.
+ * A bad configured entry is reported on stderr and skipped, so it can
+ * never take the built-in clients down with it.
+ */
+export function getConversationSources(): ConversationSource[] {
+  let configured: ConversationSourceConfig[] = [];
+  try {
+    configured = loadConfig().conversationSources ?? [];
+  } catch (err) {
+    warnSource(err instanceof Error ? err.message : String(err));
+  }
+  if (!Array.isArray(configured)) {
+    warnSource(`conversationSources in ${getConfigPath()} must be an array`);
+    configured = [];
+  }
+
+  const sources = [...BUILTIN_SOURCES];
+  for (const config of configured) {
+    try {
+      const source = createMappedJsonlSource(config);
+      if (sources.some((s) => s.client === source.client)) {
+        throw new Error(`duplicate client id "${source.client}"`);
+      }
+      sources.push(source);
+    } catch (err) {
+      warnSource(`skipping conversation source: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return sources;
+}
+
+/**
+ * Parse options from config.json: tool calls are only kept when
+ * `captureToolCalls` is on.
+ */
+export function getParseOptions(): ParseOptions {
+  try {
+    return { includeTools: loadConfig().captureToolCalls === true };
+  } catch {
+    return {}; // Already reported by getConversationSources()
+  }
+}
+
+/**
+ * Discover all conversation files across every source.
+ */
+export function discoverConversationFiles(
+  sources: ConversationSource[] = getConversationSources()
+): ConversationFileRef[] {
+  return sources.flatMap((source) => source.discover());
+}
+
+/**
+ * The file ref for a path, from the first source that claims it, or null.
+ */
+export function resolveConversationFile(
+  path: string,
+  sources: ConversationSource[] = getConversationSources()
+): ConversationFileRef | null {
+  for (const source of sources) {
+    const file = source.resolveFile(path);
+    if (file) return file;
+  }
+  return null;
+}
+
+/**
+ * Read and parse a discovered file with the source it came from.
+ */
+export function parseConversationFile(
+  file: ConversationFileRef,
+  sources: ConversationSource[] = getConversationSources(),
+  options: ParseOptions = getParseOptions()
+): Conversation {
+  const source = sources.find((s) => s.client === file.client);
+  if (!source) throw new Error(`No conversation source for client "${file.client}"`);
+  return source.parse(readFileSync(file.path, "utf-8"), file, options);
+}
+
+function walkFiles(dir: string, extension: string): string[] {
+  const results: string[] = [];
+  const walk = (current: string): void => {
+    for (const entry of readdirSync(current)) {
+      const entryPath = join(current, entry);
+      const stat = statSync(entryPath);
+      if (stat.isDirectory()) {
+        walk(entryPath);
+      } else if (entry.endsWith(extension) && stat.size > 0) {
+        results.push(entryPath);
+      }
+    }
+  };
+
+  try {
+    walk(dir);
+  } catch {
+    // Directory access error — skip
+  }
+  return results;
+}
+
+function isInside(path: string, dir: string): boolean {
+  const rel = relative(resolve(dir), resolve(path));
+  return rel !== "" && rel.split(sep)[0] !== ".." && !isAbsolute(rel);
+}
+
+/** Path segments below `dir`, or null if the path is not inside it. */
+function relativeParts(path: string, dir: string): string[] | null {
+  if (!isInside(path, dir)) return null;
+  return relative(dir, resolve(path)).split(sep);
+}
+
+function warnSource(message: string): void {
+  process.stderr.write(`SharedContext: ${message}\n`);
+}
@@ -25,7 +25,7 @@ export interface BalanceInfo {
 
 /**
  * Pluggable storage backend interface.
- * Handles uploads only. Reads go through Arweave directly (free, no auth).
+ * Handles uploads only; reads go through a StorageReader.
  */
 export interface StorageBackend {
   /** Upload encrypted data with tags. Returns the transaction ID. */
@@ -33,3 +33,48 @@ export interface StorageBackend {
   /** Get current balance and estimated remaining uploads. */
   getBalance(): Promise<BalanceInfo>;
 }
+
+/**
+ * Matches transactions carrying tag `name` with any of `values`.
+ */
+export interface TagFilter {
+  name: string;
+  values: string[];
+}
+
+/**
+ * A stored transaction's id and tags.
+ */
+export interface TransactionTagInfo {
+  txId: string;
+  tags: Map<string, string>;
+}
+
+/**
+ * One page of a tag query. `cursor` is null on the last page.
+ */
+export interface TransactionPage {
+  transactions: TransactionTagInfo[];
+  cursor: string | null;
+}
+
+export interface TagQueryOptions {
+  /** Cursor from the previous page; omit for the first page. */
+  cursor?: string | null;
+  pageSize?: number;
+  /** Newest uploads first (default: oldest first). */
+  newestFirst?: boolean;
+}
+
+/**
+ * Pluggable read side, the counterpart of StorageBackend.
+ * Reads need no auth: anyone can list and fetch, only keyholders can decrypt.
+ */
+export interface StorageReader {
+  /** Find transactions matching every tag filter, one page at a time. */
+  queryByTags(filters: TagFilter[], options?: TagQueryOptions): Promise<TransactionPage>;
+  /** Fetch a transaction's raw data. Fails if larger than maxBytes. */
+  fetchData(txId: string, maxBytes?: number): Promise<Uint8Array>;
+  /** Fetch a transaction's tags, or null if it does not exist. */
+  fetchTags(txId: string): Promise<TransactionTagInfo | null>;
+}
@@ -0,0 +1,206 @@
+import { createHash } from "crypto";
+import type Database from "better-sqlite3";
+import { getStoredConversationSummary, saveConversationSummary } from "./db.js";
+import { messageSearchText } from "./conversation-slice.js";
+import type { Conversation, ConversationSummary } from "../types.js";
+
+const MAX_DECISIONS = 8;
+const MAX_OPEN_QUESTIONS = 5;
+const MAX_FILES = 10;
+const MAX_SENTENCE = 200;
+// How much of a conversation a sampling summarizer is shown.
+const SAMPLING_MAX_CHARS = 40_000;
+
+// "we'll go with Postgres", "decided to drop the cache", "switched to pnpm"
+const DECISION_CUE =
+  /\b(?:decided|decision|settled on|agreed|opted|chose|going with|go with|instead of|switch(?:ed|ing)? (?:to|from)|(?:I|we)(?:'ll| will| should) (?:use|keep|switch|drop|move)|let's (?:use|keep|switch|drop|move))\b/i;
+const OPEN_CUE =
+  /\b(?:TODO|FIXME|open question|still (?:need|have) to|not sure|unclear|follow[- ]up|next steps?|remaining)\b/i;
+const FILE_PATTERN =
+  /(?<![\w/:.-])(\/?(?:[\w.-]+\/)*[\w-][\w.-]*\.(?:ts|tsx|js|jsx|mjs|cjs|json|md|py|rs|go|java|kt|rb|php|cs|c|h|cpp|hpp|swift|sql|ya?ml|toml|sh|css|scss|html|vue|svelte|lock|proto|graphql|prisma))(?![\w/-])/g;
+// Library names that look like files.
+const NOT_A_FILE = /^(?:node|next|nuxt|vue|react|express|deno|three|d3|chart|ember|backbone|socket\.io)\.js$/i;
+
+/**
+ * Produces a summary some other way, e.g. by asking the client's model
+ * through MCP sampling. Returns null to fall back to the extractive one.
+ */
+export type Summarizer = (conversation: Conversation) => Promise<ConversationSummary | null>;
+
+/**
+ * Deterministic extractive summary: sentences that state a decision, the
+ * questions and to-dos left at the end, and the files talked about most.
+ */
+export function summarizeConversation(conversation: Conversation): ConversationSummary {
+  const decisions: string[] = [];
+  const openQuestions: string[] = [];
+  const fileCounts = new Map<string, number>();
+  const messages = conversation.messages;
+  const lastAssistant = messages.map((m) => m.role).lastIndexOf("assistant");
+  const tailStart = Math.floor(messages.length * 0.75);
+
+  messages.forEach((message, index) => {
+    for (const sentence of sentences(message.content)) {
+      if (DECISION_CUE.test(sentence)) addUnique(decisions, sentence);
+      // Questions nobody answered, and to-dos raised near the end.
+      const unanswered = message.role === "user" && index > lastAssistant && sentence.endsWith("?");
+      if (unanswered || (index >= tailStart && OPEN_CUE.test(sentence))) {
+        addUnique(openQuestions, sentence);
+      }
+    }
+
+    const named = [
+      ...messageSearchText(message).matchAll(FILE_PATTERN),
+    ].map((m) => m[1]);
+    for (const file of [...named, ...(message.tools ?? []).flatMap((t) => t.files ?? [])]) {
+      if (NOT_A_FILE.test(file)) continue;
+      fileCounts.set(file, (fileCounts.get(file) ?? 0) + 1);
+    }
+  });
+
+  const files = [...fileCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_FILES)
+    .map(([file]) => file);
+
+  return {
+    decisions: decisions.slice(-MAX_DECISIONS),
+    openQuestions: openQuestions.slice(-MAX_OPEN_QUESTIONS),
+    files,
+    method: "extractive",
+    messageCount: messages.length,
+    contentHash: contentHash(conversation),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The stored summary of a conversation, or a fresh extractive one (stored)
+ * when there is none or the conversation changed since: new messages, or
+ * existing ones that grew (merged replies, tool results).
+ *
+ * Summaries live in their own table, not as facts. They are derived from
+ * the conversation, which syncs itself, so any device can make them again;
+ * as facts, every listed conversation would upload a delta shard and show
+ * up in recall_context next to what the user chose to remember.
+ */
+export function getConversationSummary(
+  db: Database.Database,
+  conversation: Conversation
+): ConversationSummary {
+  const stored = getStoredConversationSummary(db, conversation.client, conversation.id);
+  if (stored && stored.contentHash === contentHash(conversation)) return stored;
+
+  const summary = summarizeConversation(conversation);
+  saveConversationSummary(db, conversation.client, conversation.id, summary);
+  return summary;
+}
+
+/**
+ * Like getConversationSummary, but tries `summarizer` first unless a summary
+ * it made for these messages is already stored.
+ */
+export async function summarizeWith(
+  db: Database.Database,
+  conversation: Conversation,
+  summarizer: Summarizer
+): Promise<ConversationSummary> {
+  const stored = getStoredConversationSummary(db, conversation.client, conversation.id);
+  if (stored && stored.method !== "extractive" && stored.contentHash === contentHash(conversation)) {
+    return stored;
+  }
+
+  try {
+    const summary = await summarizer(conversation);
+    if (summary) {
+      saveConversationSummary(db, conversation.client, conversation.id, summary);
+      return summary;
+    }
+  } catch {
+    // Fall back to the extractive summary.
+  }
+  return getConversationSummary(db, conversation);
+}
+
+/**
+ * A Summarizer backed by a text-completion function, such as MCP sampling.
+ * The model is asked for JSON; anything else falls back to extractive.
+ */
+export function createCompletionSummarizer(
+  complete: (prompt: string) => Promise<string>
+): Summarizer {
+  return async (conversation) => {
+    const reply = await complete(buildSummaryPrompt(conversation));
+    const json = reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1);
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    const list = (value: unknown, max: number) =>
+      Array.isArray(value)
+        ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "").slice(0, max)
+        : [];
+
+    return {
+      decisions: list(parsed.decisions, MAX_DECISIONS),
+      openQuestions: list(parsed.openQuestions, MAX_OPEN_QUESTIONS),
+      files: list(parsed.files, MAX_FILES),
+      method: "sampling",
+      messageCount: conversation.messages.length,
+      contentHash: contentHash(conversation),
+      createdAt: new Date().toISOString(),
+    };
+  };
+}
+
+/**
+ * Summary block for recall output; empty when there is nothing to say.
+ */
+export function formatConversationSummary(summary: ConversationSummary): string {
+  const lines: string[] = [];
+  if (summary.decisions.length > 0) {
+    lines.push("Decisions:", ...summary.decisions.map((d) => `- ${d}`));
+  }
+  if (summary.openQuestions.length > 0) {
+    lines.push("Open questions:", ...summary.openQuestions.map((q) => `- ${q}`));
+  }
+  if (summary.files.length > 0) {
+    lines.push(`Files: ${summary.files.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function buildSummaryPrompt(conversation: Conversation): string {
+  let transcript = conversation.messages
+    .map((m, i) => `#${i} [${m.role}]: ${m.content}`)
+    .join("\n\n");
+  if (transcript.length > SAMPLING_MAX_CHARS) {
+    const half = SAMPLING_MAX_CHARS / 2;
+    transcript = `${transcript.slice(0, half)}\n\n[…]\n\n${transcript.slice(-half)}`;
+  }
+  return [
+    "Summarize this coding conversation for someone resuming it later.",
+    'Reply with JSON only: {"decisions": [...], "openQuestions": [...], "files": [...]}',
+    "decisions: choices that were made, one short sentence each.",
+    "openQuestions: what is still unresolved or left to do.",
+    "files: paths that were discussed or changed.",
+    "",
+    transcript,
+  ].join("\n");
+}
+
+function contentHash(conversation: Conversation): string {
+  return createHash("sha256").update(JSON.stringify(conversation.messages)).digest("hex");
+}
+
+/** Prose sentences of a message, without code blocks. */
+function sentences(text: string): string[] {
+  return text
+    .replace(/```[\s\S]*?```/g, " ")
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.replace(/^[\s>*#-]+/, "").replace(/\s+/g, " ").trim())
+    .filter((s) => s.length >= 12)
+    .map((s) => (s.length > MAX_SENTENCE ? `${s.slice(0, MAX_SENTENCE)}…` : s));
+}
+
+function addUnique(list: string[], sentence: string): void {
+  const normalized = sentence.toLowerCase();
+  if (!list.some((s) => s.toLowerCase() === normalized)) list.push(sentence);
+}
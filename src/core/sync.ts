@@ -1,17 +1,61 @@
-import { signShard, verifySignature } from "./identity.js";
+import { publicKeyFromPrivate, signShard, verifySignature } from "./identity.js";
 import { encrypt, decrypt, deriveKey } from "./crypto.js";
-import { deserializeShard, replayShards, MAX_SHARD_BYTES } from "./shard.js";
+import {
+  createShard,
+  createChunkedShards,
+  deserializeShard,
+  factToUpsertOp,
+  replayShards,
+  detectConflicts,
+  serializeShard,
+  MAX_SHARD_BYTES,
+} from "./shard.js";
 import {
   queryShards,
   queryConversationChunks,
-  downloadShard,
   fetchIdentity,
   type ConversationChunkInfo,
-} from "./arweave.js";
-import { openDatabase, upsertFact, setMeta, clearDirtyState } from "./db.js";
-import type { StorageBackend, Tag } from "./storage.js";
-import type { ShardInfo } from "./arweave.js";
-import type { Fact, Shard, Conversation } from "../types.js";
+  type ShareRevocationPayload,
+  type ShardInfo,
+} from "./remote.js";
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { compareHlc } from "./hlc.js";
+import {
+  openDatabase,
+  upsertFact,
+  deleteFact,
+  getFact,
+  getPendingDeleteEntries,
+  getAllFacts,
+  getDirtyFacts,
+  getDeviceId,
+  getMeta,
+  setMeta,
+  clearDirtyState,
+  saveFactConflicts,
+  enqueueOutboxItems,
+  getOutboxItems,
+  getCachedConversationSegments,
+  saveCachedConversationSegment,
+  getPulledShardIds,
+  getPulledDeviceVersions,
+  markShardsPulled,
+  type CachedConversationSegment,
+} from "./db.js";
+import { flushOutbox } from "./outbox.js";
+import { getRedactionRules, redactMessage, type RedactionRule } from "./redact.js";
+import type { StorageBackend, StorageReader, Tag } from "./storage.js";
+import {
+  isConversationClient,
+  type ConversationClient,
+  type Fact,
+  type Shard,
+  type ShardOperation,
+  type Conversation,
+  type ConversationMessage,
+} from "../types.js";
+import type Database from "better-sqlite3";
 
 // Pull-time guardrails:
 // - data shards should never exceed 100 KiB (Turbo free-tier limit)
@@ -19,24 +63,73 @@ import type { Fact, Shard, Conversation } from "../types.js";
 const MAX_PULL_DATA_SHARD_BYTES = 100 * 1024;
 const MAX_PULL_IDENTITY_BYTES = 16 * 1024;
 
+// Snapshot cadence: emit a full-state snapshot once either threshold is crossed
+// since the last one, so fresh devices replay a bounded number of deltas.
+export const SNAPSHOT_DELTA_THRESHOLD = 50;
+export const SNAPSHOT_BYTES_THRESHOLD = 1024 * 1024;
+
+/** Position of a shard within a multi-part snapshot. */
+export interface SnapshotPart {
+  index: number; // 1-based
+  total: number;
+}
+
+/** A signed payload and its tags, ready to upload (or queue in the outbox). */
+export interface PreparedUpload {
+  data: Uint8Array;
+  tags: Tag[];
+}
+
 /**
  * Build the Arweave tags for a shard upload.
+ * Snapshot shards carry a "Snapshot-Part" tag so readers can tell
+ * a complete multi-part snapshot from a partially uploaded one.
+ * "Device-Id" names the device that queued the shard (see Shard.covers).
  */
 export function buildShardTags(
   walletAddress: string,
   version: number,
   type: "delta" | "snapshot",
-  signature: string
+  signature: string,
+  part?: SnapshotPart,
+  deviceId?: string
 ): Tag[] {
-  return [
+  const tags: Tag[] = [
     { name: "App-Name", value: "sharedcontext" },
     { name: "Wallet", value: walletAddress },
     { name: "Version", value: String(version) },
     { name: "Type", value: type },
+  ];
+  if (deviceId) tags.push({ name: "Device-Id", value: deviceId });
+  if (type === "snapshot") {
+    const { index, total } = part ?? { index: 1, total: 1 };
+    tags.push({ name: "Snapshot-Part", value: `${index}/${total}` });
+  }
+  tags.push(
     { name: "Timestamp", value: String(Math.floor(Date.now() / 1000)) },
     { name: "Signature", value: signature },
-    { name: "Content-Type", value: "application/octet-stream" },
-  ];
+    { name: "Content-Type", value: "application/octet-stream" }
+  );
+  return tags;
+}
+
+/**
+ * Sign an encrypted shard and build its tags.
+ */
+export function prepareShardUpload(
+  encryptedBlob: Uint8Array,
+  version: number,
+  type: "delta" | "snapshot",
+  walletAddress: string,
+  privateKey: Uint8Array,
+  part?: SnapshotPart,
+  deviceId?: string
+): PreparedUpload {
+  const signature = signShard(encryptedBlob, privateKey);
+  return {
+    data: encryptedBlob,
+    tags: buildShardTags(walletAddress, version, type, signature, part, deviceId),
+  };
 }
 
 /**
@@ -49,14 +142,185 @@ export async function pushShard(
   type: "delta" | "snapshot",
   walletAddress: string,
   privateKey: Uint8Array,
-  backend: StorageBackend
+  backend: StorageBackend,
+  part?: SnapshotPart
 ): Promise<string> {
-  const signature = signShard(encryptedBlob, privateKey);
-  const tags = buildShardTags(walletAddress, version, type, signature);
-  const result = await backend.upload(encryptedBlob, tags);
+  const { data, tags } = prepareShardUpload(
+    encryptedBlob,
+    version,
+    type,
+    walletAddress,
+    privateKey,
+    part
+  );
+  const result = await backend.upload(data, tags);
   return result.txId;
 }
 
+/**
+ * Queue every dirty fact and pending delete as delta shards in the outbox.
+ * Versions are reserved and dirty state is cleared in the same transaction,
+ * so a failed or interrupted upload is resumed from the outbox instead of
+ * being rebuilt under new versions. Returns null when nothing is dirty.
+ */
+export function enqueueDirtyFacts(
+  db: Database.Database,
+  encryptionKey: Uint8Array,
+  walletAddress: string,
+  privateKey: Uint8Array,
+  sessionId: string
+): { version: number; shards: number; operations: number; bytes: number } | null {
+  return db.transaction(() => {
+    const operations: ShardOperation[] = [
+      ...getDirtyFacts(db).map(factToUpsertOp),
+      ...getPendingDeleteEntries(db).map(
+        ({ key, hlc }): ShardOperation => ({ op: "delete", key, ...(hlc ? { hlc } : {}) })
+      ),
+    ];
+    if (operations.length === 0) return null;
+
+    const currentVersion = parseInt(getMeta(db, "current_version") ?? "0", 10);
+    const deviceId = getDeviceId(db);
+    const shards = createChunkedShards(
+      operations,
+      currentVersion + 1,
+      sessionId,
+      undefined,
+      deviceId
+    );
+
+    let bytes = 0;
+    enqueueOutboxItems(
+      db,
+      shards.map((shard) => {
+        const encrypted = encrypt(serializeShard(shard), encryptionKey);
+        bytes += encrypted.length;
+        return {
+          kind: "delta",
+          label: `delta v${shard.shard_version} (${shard.operations.length} ops)`,
+          version: shard.shard_version,
+          ...prepareShardUpload(encrypted, shard.shard_version, "delta", walletAddress, privateKey, undefined, deviceId),
+        };
+      })
+    );
+
+    const version = shards[shards.length - 1].shard_version;
+    clearDirtyState(db);
+    setMeta(db, "current_version", String(version));
+    recordDeltaPush(db, shards.length, bytes);
+    return { version, shards: shards.length, operations: operations.length, bytes };
+  })();
+}
+
+/**
+ * Queue the full local fact state as a snapshot.
+ * Large states are split with createChunkedShards into consecutive versions,
+ * each tagged with its part number. Because a snapshot subsumes every pending
+ * change, dirty state is cleared and the snapshot counters reset once queued.
+ * The first part records the deltas the state includes (Shard.covers), so a
+ * delta uploaded later under an older version is still replayed on top.
+ */
+export function enqueueSnapshot(
+  db: Database.Database,
+  encryptionKey: Uint8Array,
+  walletAddress: string,
+  privateKey: Uint8Array,
+  sessionId: string
+): { version: number; parts: number; factCount: number; outboxIds: number[] } {
+  return db.transaction(() => {
+    const facts = getAllFacts(db);
+    const deviceId = getDeviceId(db);
+    const currentVersion = parseInt(getMeta(db, "current_version") ?? "0", 10);
+    const startVersion = currentVersion + 1;
+    // Every delta this device queued is below startVersion and in its state.
+    const covers = { ...getPulledDeviceVersions(db), [deviceId]: currentVersion };
+    const maxBytes = MAX_SHARD_BYTES - new TextEncoder().encode(JSON.stringify(covers)).byteLength;
+
+    // An empty state still needs a marker so replay starts from "nothing".
+    const shards = facts.length > 0
+      ? createChunkedShards(facts.map(factToUpsertOp), startVersion, sessionId, maxBytes, deviceId)
+      : [createShard([], startVersion, sessionId, deviceId)];
+    shards[0].covers = covers;
+
+    const outboxIds = enqueueOutboxItems(
+      db,
+      shards.map((shard, i) => {
+        const part = { index: i + 1, total: shards.length };
+        const encrypted = encrypt(serializeShard(shard), encryptionKey);
+        return {
+          kind: "snapshot",
+          label: `snapshot v${shard.shard_version} (part ${part.index}/${part.total})`,
+          version: shard.shard_version,
+          ...prepareShardUpload(encrypted, shard.shard_version, "snapshot", walletAddress, privateKey, part, deviceId),
+        };
+      })
+    );
+
+    const lastVersion = shards[shards.length - 1].shard_version;
+    clearDirtyState(db);
+    setMeta(db, "current_version", String(lastVersion));
+    setMeta(db, "last_snapshot_version", String(startVersion));
+    setMeta(db, "deltas_since_snapshot", "0");
+    setMeta(db, "bytes_since_snapshot", "0");
+
+    return { version: lastVersion, parts: shards.length, factCount: facts.length, outboxIds };
+  })();
+}
+
+/**
+ * Queue a snapshot and upload it now, together with anything queued before it.
+ * Throws if a part could not be uploaded; it stays in the outbox for retry.
+ */
+export async function pushSnapshot(
+  db: Database.Database,
+  encryptionKey: Uint8Array,
+  walletAddress: string,
+  privateKey: Uint8Array,
+  backend: StorageBackend,
+  sessionId: string
+): Promise<{ version: number; parts: number; factCount: number }> {
+  const { outboxIds, ...snapshot } = enqueueSnapshot(
+    db,
+    encryptionKey,
+    walletAddress,
+    privateKey,
+    sessionId
+  );
+  await flushOutbox(db, backend, { force: true });
+
+  const unsent = getOutboxItems(db).filter((item) => outboxIds.includes(item.id));
+  if (unsent.length > 0) {
+    const reason = unsent.find((item) => item.lastError)?.lastError ?? "earlier uploads are still queued";
+    throw new Error(
+      `Snapshot v${snapshot.version} queued but not uploaded (${reason}). See \`sharedcontext outbox\`.`
+    );
+  }
+  return snapshot;
+}
+
+/**
+ * Record pushed delta shards towards the next snapshot threshold.
+ */
+export function recordDeltaPush(
+  db: Database.Database,
+  shardCount: number,
+  bytes: number
+): void {
+  const deltas = parseInt(getMeta(db, "deltas_since_snapshot") ?? "0", 10);
+  const total = parseInt(getMeta(db, "bytes_since_snapshot") ?? "0", 10);
+  setMeta(db, "deltas_since_snapshot", String(deltas + shardCount));
+  setMeta(db, "bytes_since_snapshot", String(total + bytes));
+}
+
+/**
+ * Whether enough deltas have accumulated since the last snapshot to emit a new one.
+ */
+export function isSnapshotDue(db: Database.Database): boolean {
+  const deltas = parseInt(getMeta(db, "deltas_since_snapshot") ?? "0", 10);
+  const bytes = parseInt(getMeta(db, "bytes_since_snapshot") ?? "0", 10);
+  return deltas >= SNAPSHOT_DELTA_THRESHOLD || bytes >= SNAPSHOT_BYTES_THRESHOLD;
+}
+
 /**
  * Upload the identity transaction to Arweave.
  * Contains the salt (in tags) and encrypted private key (as data).
@@ -81,6 +345,60 @@ export async function pushIdentity(
   return result.txId;
 }
 
+/**
+ * Publish the wallet's public key so others can share conversations to it
+ * (`share --to <wallet>`). The key is also the data, signed like any shard.
+ */
+export async function pushPublicKey(
+  walletAddress: string,
+  identityPrivateKey: Uint8Array,
+  backend: StorageBackend
+): Promise<{ txId: string; publicKey: string }> {
+  const publicKey = publicKeyFromPrivate(identityPrivateKey);
+  const publicKeyHex = Buffer.from(publicKey).toString("hex");
+  const tags: Tag[] = [
+    { name: "App-Name", value: "sharedcontext" },
+    { name: "Wallet", value: walletAddress },
+    { name: "Type", value: "public-key" },
+    { name: "Public-Key", value: publicKeyHex },
+    { name: "Timestamp", value: String(Math.floor(Date.now() / 1000)) },
+    { name: "Signature", value: signShard(publicKey, identityPrivateKey) },
+    { name: "Content-Type", value: "application/octet-stream" },
+  ];
+  const result = await backend.upload(publicKey, tags);
+  return { txId: result.txId, publicKey: publicKeyHex };
+}
+
+/**
+ * Revoke a conversation share: a signed record that `sync` checks before
+ * importing. The share itself stays on storage, and copies already
+ * imported are not affected.
+ */
+export async function pushShareRevocation(
+  shareId: string,
+  walletAddress: string,
+  identityPrivateKey: Uint8Array,
+  backend: StorageBackend
+): Promise<{ txId: string; revokedAt: string }> {
+  const payload: ShareRevocationPayload = {
+    v: 1,
+    shareId,
+    revokedAt: new Date().toISOString(),
+  };
+  const data = new TextEncoder().encode(JSON.stringify(payload));
+  const tags: Tag[] = [
+    { name: "App-Name", value: "sharedcontext" },
+    { name: "Wallet", value: walletAddress },
+    { name: "Type", value: "conversation-share-revocation" },
+    { name: "Share-Id", value: shareId },
+    { name: "Timestamp", value: String(Math.floor(Date.now() / 1000)) },
+    { name: "Signature", value: signShard(data, identityPrivateKey) },
+    { name: "Content-Type", value: "application/json" },
+  ];
+  const result = await backend.upload(data, tags);
+  return { txId: result.txId, revokedAt: payload.revokedAt };
+}
+
 /**
  * Pull shards from Arweave and reconstruct the full state into a local database.
  * Used when setting up a new device.
@@ -88,10 +406,11 @@ export async function pushIdentity(
 export async function pullAndReconstruct(
   walletAddress: string,
   passphrase: string,
-  dbPath: string
-): Promise<{ factCount: number; version: number }> {
+  dbPath: string,
+  reader: StorageReader
+): Promise<{ factCount: number; version: number; conflictCount: number }> {
   // Step 1: Fetch identity to get salt
-  const identity = await fetchIdentity(walletAddress, MAX_PULL_IDENTITY_BYTES);
+  const identity = await fetchIdentity(reader, walletAddress, MAX_PULL_IDENTITY_BYTES);
   if (!identity) {
     throw new Error(
       "No identity found on Arweave for this wallet. " +
@@ -110,7 +429,7 @@ export async function pullAndReconstruct(
   }
 
   // Step 4: Query all shards
-  const allShards = await queryShards(walletAddress);
+  const allShards = await queryShards(reader, walletAddress);
   const dataShards = allShards.filter(
     (s) => s.type === "delta" || s.type === "snapshot"
   );
@@ -121,47 +440,52 @@ export async function pullAndReconstruct(
     setMeta(db, "current_version", "0");
     setMeta(db, "wallet_address", walletAddress);
     db.close();
-    return { factCount: 0, version: 0 };
+    return { factCount: 0, version: 0, conflictCount: 0 };
   }
 
-  // Step 5: Find the latest snapshot (if any) and only fetch shards after it
+  // Step 5: Find the latest complete snapshot (if any) and fetch shards from it on,
+  // plus the earlier deltas it does not include
   const latestSnapshot = findLatestSnapshot(dataShards);
   const shardsToFetch = latestSnapshot
-    ? dataShards.filter((s) => s.version >= latestSnapshot.version)
+    ? dataShards.filter(
+        (s) => s.version >= latestSnapshot.version && !isRivalSnapshotPart(s, latestSnapshot)
+      )
     : dataShards;
 
   // Step 6: Download and process shards
-  const decryptedShards: Shard[] = [];
-  for (const shardInfo of shardsToFetch) {
-    try {
-      const encrypted = await downloadShard(
-        shardInfo.txId,
-        MAX_PULL_DATA_SHARD_BYTES
-      );
-
-      // Signature is mandatory for all data shards.
-      if (!shardInfo.signature) {
-        console.warn(
-          `Skipping shard v${shardInfo.version}: missing signature.`
-        );
-        continue;
-      }
-      if (!verifySignature(encrypted, shardInfo.signature, walletAddress)) {
-        console.warn(
-          `Skipping shard v${shardInfo.version}: signature verification failed.`
-        );
-        continue;
-      }
+  const fetched = await downloadDataShards(reader, shardsToFetch, walletAddress, key);
+  let decryptedShards = fetched.shards;
 
-      // Only decrypt verified shards.
-      const decrypted = decrypt(encrypted, key);
-      const shard = deserializeShard(decrypted);
-      decryptedShards.push(shard);
-    } catch (err) {
+  if (latestSnapshot) {
+    const lastPart = latestSnapshot.version + latestSnapshot.partTotal - 1;
+    const brokenPart = [...fetched.failedVersions].some(
+      (v) => v >= latestSnapshot.version && v <= lastPart
+    );
+    const earlierDeltas = dataShards.filter(
+      (s) => s.version < latestSnapshot.version && s.type === "delta"
+    );
+    let earlier: ShardInfo[];
+    if (brokenPart) {
+      // A snapshot with an unreadable part is incomplete: replay the full history instead.
       console.warn(
-        `Skipping shard v${shardInfo.version}: ${err instanceof Error ? err.message : String(err)}`
+        `Snapshot v${latestSnapshot.version} is incomplete, falling back to full history.`
       );
-      continue;
+      earlier = earlierDeltas;
+    } else {
+      // Deltas uploaded after the snapshot was built, under an older version.
+      const covers = fetched.shards.find(
+        (s) => s.shard_version === latestSnapshot.version && s.covers
+      )?.covers;
+      earlier = covers
+        ? unpulledDeltas(
+            earlierDeltas.filter((s) => s.deviceId && s.version > (covers[s.deviceId] ?? 0)),
+            new Set()
+          ).pending
+        : [];
+    }
+    if (earlier.length > 0) {
+      const downloaded = await downloadDataShards(reader, earlier, walletAddress, key);
+      decryptedShards = [...downloaded.shards, ...decryptedShards];
     }
   }
 
@@ -171,41 +495,201 @@ export async function pullAndReconstruct(
     );
   }
 
-  // Step 7: Sort by version and replay
+  // Step 7: Sort by version and replay (clocks settle versions pushed by several devices)
   decryptedShards.sort((a, b) => a.shard_version - b.shard_version);
   const facts = replayShards(decryptedShards);
+  const conflicts = detectConflicts(decryptedShards);
 
   // Step 8: Populate local SQLite
   const db = openDatabase(dbPath);
   for (const fact of facts) {
     upsertFact(db, fact);
   }
+  saveFactConflicts(db, conflicts);
 
   const maxVersion = Math.max(...dataShards.map((s) => s.version));
   setMeta(db, "current_version", String(maxVersion));
+  setMeta(db, "last_pulled_version", String(maxVersion));
+  // The replayed state covers every shard listed now; later pulls skip them.
+  markShardsPulled(db, dataShards);
+  setMeta(db, "pulled_shards_seeded", "1");
   setMeta(db, "wallet_address", walletAddress);
 
   // All facts just loaded from Arweave are clean (already persisted remotely)
   clearDirtyState(db);
   db.close();
 
-  return { factCount: facts.length, version: maxVersion };
+  return { factCount: facts.length, version: maxVersion, conflictCount: conflicts.length };
+}
+
+export interface RemotePullResult {
+  version: number;
+  upserted: number;
+  deleted: number;
+  conflictCount: number;
 }
 
 /**
- * Push only new conversation messages since lastSyncedCount.
+ * Bring a running device up to date with shards pushed by other devices.
+ * Every delta shard not yet pulled (by tx id, see markShardsPulled) is
+ * downloaded and verified, whatever its version: a delta queued offline on
+ * another device can be uploaded after this device moved past its version.
+ * Unreadable shards stay unpulled and are retried next time.
+ * Returns null when there is nothing new.
+ */
+export async function pullRemoteChanges(
+  db: Database.Database,
+  walletAddress: string,
+  encryptionKey: Uint8Array,
+  reader: StorageReader
+): Promise<RemotePullResult | null> {
+  const currentVersion = parseInt(getMeta(db, "current_version") ?? "0", 10);
+  const since = parseInt(
+    getMeta(db, "last_pulled_version") ?? String(currentVersion),
+    10
+  );
+
+  const dataShards = (await queryShards(reader, walletAddress)).filter(
+    (s) => s.type === "delta" || s.type === "snapshot"
+  );
+  const remoteVersion = latestVersion(dataShards);
+  if (remoteVersion === null) return null;
+  // Later pushes must not reuse a version another device already took.
+  setMeta(db, "current_version", String(Math.max(currentVersion, remoteVersion)));
+
+  // Databases from before shard ids were tracked only kept a pull cursor.
+  if (getMeta(db, "pulled_shards_seeded") === null) {
+    const cursor = getMeta(db, "last_pulled_version");
+    if (cursor !== null) {
+      markShardsPulled(db, dataShards.filter((s) => s.version <= parseInt(cursor, 10)));
+    }
+    setMeta(db, "pulled_shards_seeded", "1");
+  }
+
+  const pulled = getPulledShardIds(db);
+  const { pending, copies } = unpulledDeltas(dataShards, pulled);
+  markShardsPulled(db, copies);
+  if (pending.length === 0) return null;
+
+  const fetched = await downloadDataShards(reader, pending, walletAddress, encryptionKey);
+  fetched.shards.sort((a, b) => a.shard_version - b.shard_version);
+
+  const applied = applyRemoteShards(db, fetched.shards);
+  const conflicts = detectConflicts(fetched.shards);
+  saveFactConflicts(db, conflicts);
+  markShardsPulled(db, pending.filter((s) => !fetched.failedTxIds.has(s.txId)));
+
+  const pulledThrough = fetched.failedVersions.size > 0
+    ? Math.min(...fetched.failedVersions) - 1
+    : remoteVersion;
+  setMeta(db, "last_pulled_version", String(Math.max(since, pulledThrough)));
+
+  return { version: remoteVersion, ...applied, conflictCount: conflicts.length };
+}
+
+/**
+ * Delta shards not pulled yet. The outbox re-sends a shard whose upload was
+ * not recorded (crash) with the same data and tags, so a copy under a new
+ * tx id carries the same signature: it is set aside in `copies` rather than
+ * applied twice.
+ */
+function unpulledDeltas(
+  shards: ShardInfo[],
+  pulled: Set<string>
+): { pending: ShardInfo[]; copies: ShardInfo[] } {
+  const deltas = shards.filter((s) => s.type === "delta");
+  const signatures = new Set(deltas.filter((s) => pulled.has(s.txId)).map((s) => s.signature));
+  const pending: ShardInfo[] = [];
+  const copies: ShardInfo[] = [];
+  for (const shard of deltas) {
+    if (pulled.has(shard.txId)) continue;
+    if (shard.signature && signatures.has(shard.signature)) {
+      copies.push(shard);
+      continue;
+    }
+    if (shard.signature) signatures.add(shard.signature);
+    pending.push(shard);
+  }
+  return { pending, copies };
+}
+
+/**
+ * Apply shards pulled from other devices to the local database.
+ * Shards this device pushed itself are skipped. A remote change only
+ * replaces local state when its clock is newer than the local one, so
+ * unsynced local edits made later are kept and pushed as usual.
+ * Applied changes are not marked dirty.
+ */
+export function applyRemoteShards(
+  db: Database.Database,
+  shards: Shard[]
+): { upserted: number; deleted: number } {
+  const deviceId = getDeviceId(db);
+  let upserted = 0;
+  let deleted = 0;
+
+  db.transaction(() => {
+    // Clocks of local deletes not pushed yet; an applied upsert clears its tombstone.
+    const tombstones = new Map(getPendingDeleteEntries(db).map((d) => [d.key, d.hlc]));
+
+    for (const shard of shards) {
+      if (shard.device_id === deviceId) continue;
+
+      for (const op of shard.operations) {
+        const existing = getFact(db, op.key);
+        const localClock = existing ? existing.hlc : tombstones.get(op.key) ?? undefined;
+        if (op.hlc && localClock && compareHlc(op.hlc, localClock) <= 0) continue;
+
+        if (op.op === "delete") {
+          if (!existing) continue;
+          deleteFact(db, op.key, op.hlc, { dirty: false });
+          deleted++;
+        } else if (op.op === "upsert") {
+          upsertFact(
+            db,
+            {
+              id: existing?.id ?? op.fact_id ?? uuidv4(),
+              scope: op.scope ?? existing?.scope ?? "global",
+              key: op.key,
+              value: op.value ?? "",
+              tags: op.tags ?? [],
+              confidence: op.confidence ?? 1.0,
+              source_session: shard.session_id,
+              created: existing?.created ?? shard.timestamp,
+              last_confirmed: shard.timestamp,
+              access_count: existing?.access_count ?? 0,
+              ...(op.hlc ? { hlc: op.hlc } : {}),
+            },
+            { dirty: false }
+          );
+          tombstones.delete(op.key);
+          upserted++;
+        }
+      }
+    }
+  })();
+
+  return { upserted, deleted };
+}
+
+/**
+ * Encrypt, chunk and sign the conversation messages after lastSyncedCount.
+ * Secrets are masked (see core/redact.ts) before anything is encrypted.
  * Uses Offset/Count tags so retrieval can rebuild full sessions.
  */
-export async function pushConversationDelta(
+export function prepareConversationDelta(
   conversation: Conversation,
   encryptionKey: Uint8Array,
   walletAddress: string,
   privateKey: Uint8Array,
-  backend: StorageBackend,
-  lastSyncedCount: number
-): Promise<string[]> {
+  lastSyncedCount: number,
+  redactionRules: RedactionRule[] = getRedactionRules(),
+  timestampSeconds: number = Math.floor(Date.now() / 1000)
+): PreparedUpload[] {
   const safeOffset = Math.max(0, Math.min(lastSyncedCount, conversation.messages.length));
-  const deltaMessages = conversation.messages.slice(safeOffset);
+  const deltaMessages = conversation.messages
+    .slice(safeOffset)
+    .map((message) => redactMessage(message, redactionRules).message);
   if (deltaMessages.length === 0) return [];
 
   const payload = {
@@ -234,10 +718,9 @@ export async function pushConversationDelta(
     }
   }
 
-  const txIds: string[] = [];
-
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
+  // One timestamp per group: readers stitch chunks by session, offset and timestamp.
+  const timestamp = String(timestampSeconds);
+  return chunks.map((chunk, i) => {
     const signature = signShard(chunk, privateKey);
     const tags: Tag[] = [
       { name: "App-Name", value: "sharedcontext" },
@@ -249,43 +732,162 @@ export async function pushConversationDelta(
       { name: "Offset", value: String(safeOffset) },
       { name: "Count", value: String(deltaMessages.length) },
       { name: "Chunk", value: `${i + 1}/${chunks.length}` },
-      { name: "Timestamp", value: String(Math.floor(Date.now() / 1000)) },
+      { name: "Timestamp", value: timestamp },
       { name: "Signature", value: signature },
       { name: "Content-Type", value: "application/octet-stream" },
     ];
-    const result = await backend.upload(chunk, tags);
+    return { data: chunk, tags };
+  });
+}
+
+/**
+ * Push only new conversation messages since lastSyncedCount.
+ */
+export async function pushConversationDelta(
+  conversation: Conversation,
+  encryptionKey: Uint8Array,
+  walletAddress: string,
+  privateKey: Uint8Array,
+  backend: StorageBackend,
+  lastSyncedCount: number
+): Promise<string[]> {
+  const txIds: string[] = [];
+  for (const upload of prepareConversationDelta(
+    conversation,
+    encryptionKey,
+    walletAddress,
+    privateKey,
+    lastSyncedCount
+  )) {
+    const result = await backend.upload(upload.data, upload.tags);
     txIds.push(result.txId);
   }
-
   return txIds;
 }
 
+/** What was last queued for a conversation, to spot messages changed since. */
+interface ConversationSyncState {
+  /** Hash of the queued messages before the last one. */
+  prefix: string;
+  /** Hash of the last queued message. */
+  last: string;
+  /** Timestamp tag of the last upload, in seconds. */
+  timestamp: number;
+}
+
+/**
+ * Queue the messages added since the last queued offset and advance the
+ * offset in the same transaction. Returns the number of chunks queued.
+ *
+ * Messages already queued can still change: a reply is merged with output
+ * written after it, or tool results fill in its calls. Those are queued
+ * again from the first changed message. Readers apply uploads in timestamp
+ * order, so each upload of a conversation gets a later timestamp than the
+ * one before.
+ */
+export function enqueueConversationDelta(
+  db: Database.Database,
+  conversation: Conversation,
+  encryptionKey: Uint8Array,
+  walletAddress: string,
+  privateKey: Uint8Array
+): number {
+  return db.transaction(() => {
+    const stateKey = `conversation_offset:${conversation.client}:${conversation.id}`;
+    const syncKey = `conversation_sync:${conversation.client}:${conversation.id}`;
+    const parsedOffset = Number.parseInt(getMeta(db, stateKey) ?? "0", 10);
+    const lastSynced = Number.isFinite(parsedOffset) ? parsedOffset : 0;
+    const previous = parseSyncState(getMeta(db, syncKey));
+    const timestamp = Math.max(Math.floor(Date.now() / 1000), (previous?.timestamp ?? 0) + 1);
+
+    const uploads = prepareConversationDelta(
+      conversation,
+      encryptionKey,
+      walletAddress,
+      privateKey,
+      resyncOffset(conversation.messages, lastSynced, previous),
+      getRedactionRules(),
+      timestamp
+    );
+    if (uploads.length === 0) return 0;
+
+    const name = `${conversation.client}/${conversation.project}/${conversation.id}`;
+    enqueueOutboxItems(
+      db,
+      uploads.map((upload, i) => ({
+        kind: "conversation",
+        label: `conversation ${name} (chunk ${i + 1}/${uploads.length})`,
+        ...upload,
+      }))
+    );
+    setMeta(db, stateKey, String(conversation.messages.length));
+    const state: ConversationSyncState = { ...hashSyncedMessages(conversation.messages), timestamp };
+    setMeta(db, syncKey, JSON.stringify(state));
+    return uploads.length;
+  })();
+}
+
+/**
+ * Where to start queueing: the saved offset while the messages before it
+ * are unchanged, the last of them when only it changed, or the start when
+ * an earlier one did. Without a saved state, the offset is trusted.
+ */
+function resyncOffset(
+  messages: ConversationMessage[],
+  synced: number,
+  previous: ConversationSyncState | null
+): number {
+  if (!previous || synced === 0 || synced > messages.length) return synced;
+  const current = hashSyncedMessages(messages.slice(0, synced));
+  if (current.prefix !== previous.prefix) return 0;
+  if (current.last !== previous.last) return synced - 1;
+  return synced;
+}
+
+function hashSyncedMessages(messages: ConversationMessage[]): { prefix: string; last: string } {
+  const hash = (value: unknown) =>
+    createHash("sha256").update(JSON.stringify(value)).digest("hex").slice(0, 32);
+  return { prefix: hash(messages.slice(0, -1)), last: hash(messages[messages.length - 1] ?? null) };
+}
+
+function parseSyncState(raw: string | null): ConversationSyncState | null {
+  if (!raw) return null;
+  try {
+    const state = JSON.parse(raw) as ConversationSyncState;
+    return typeof state.prefix === "string" && typeof state.last === "string" ? state : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Pull and reconstruct conversations from Arweave conversation chunks.
  * Rebuilds sessions by stitching chunk groups and then ordering by segment offset.
+ *
+ * With a database, decrypted chunk groups are cached under their first
+ * chunk's tx id, so later pulls only download groups uploaded since.
  */
 export async function pullConversations(
   walletAddress: string,
-  encryptionKey: Uint8Array
+  encryptionKey: Uint8Array,
+  reader: StorageReader,
+  cache?: Database.Database
 ): Promise<Conversation[]> {
-  const infos = await queryConversationChunks(walletAddress);
+  const infos = await queryConversationChunks(reader, walletAddress);
   if (infos.length === 0) return [];
 
   const grouped = groupConversationChunkInfos(infos);
-  const segmentPayloads: Array<{
-    session: string;
-    client: "cursor" | "claude-code";
-    project: string;
-    offset: number;
-    timestamp: string;
-    messages: Array<{ role: "user" | "assistant" | "tool"; content: string; timestamp?: string }>;
-    startedAt: string;
-    updatedAt: string;
-  }> = [];
+  const cached = cache
+    ? getCachedConversationSegments(cache, walletAddress)
+    : new Map<string, CachedConversationSegment>();
+  const segments: CachedConversationSegment[] = [];
 
   for (const group of grouped.values()) {
     try {
-      const sortedChunks = [...group].sort((a, b) => a.chunkIndex - b.chunkIndex);
+      // A chunk re-sent after an interrupted upload joins its group twice; keep one.
+      const sortedChunks = [...group]
+        .sort((a, b) => a.chunkIndex - b.chunkIndex)
+        .filter((chunk, i, all) => i === 0 || chunk.chunkIndex !== all[i - 1].chunkIndex);
       if (sortedChunks.length === 0) continue;
 
       // Validate chunk sequence completeness.
@@ -300,112 +902,139 @@ export async function pullConversations(
       }
       if (!completeSequence) continue;
 
-      const buffers: Uint8Array[] = [];
-      let totalLen = 0;
-      for (const chunk of sortedChunks) {
-        const encrypted = await downloadShard(chunk.txId, MAX_PULL_DATA_SHARD_BYTES);
-        if (!chunk.signature || !verifySignature(encrypted, chunk.signature, walletAddress)) {
-          throw new Error("conversation chunk signature verification failed");
-        }
-        buffers.push(encrypted);
-        totalLen += encrypted.length;
-      }
-
-      const joined = new Uint8Array(totalLen);
-      let writeOffset = 0;
-      for (const part of buffers) {
-        joined.set(part, writeOffset);
-        writeOffset += part.length;
-      }
-
-      const decrypted = decrypt(joined, encryptionKey);
-      const parsed = JSON.parse(new TextDecoder().decode(decrypted)) as Record<string, unknown>;
-      const session = typeof parsed.id === "string" ? parsed.id : null;
-      const client =
-        parsed.client === "cursor" || parsed.client === "claude-code"
-          ? parsed.client
-          : null;
-      const project = typeof parsed.project === "string" ? parsed.project : null;
-      const startedAt =
-        typeof parsed.startedAt === "string" ? parsed.startedAt : null;
-      const updatedAt =
-        typeof parsed.updatedAt === "string" ? parsed.updatedAt : null;
-      const offset =
-        typeof parsed.offset === "number" && Number.isFinite(parsed.offset)
-          ? parsed.offset
-          : null;
-      const messages = Array.isArray(parsed.messages)
-        ? (parsed.messages as Conversation["messages"])
-        : null;
-
-      // Strict future-only schema validation.
-      if (
-        !session ||
-        !client ||
-        !project ||
-        !startedAt ||
-        !updatedAt ||
-        offset === null ||
-        !messages
-      ) {
+      const hit = cached.get(sortedChunks[0].txId);
+      if (hit) {
+        segments.push(hit);
         continue;
       }
 
-      segmentPayloads.push({
-        session,
-        client,
-        project,
-        offset: Math.max(0, offset),
-        timestamp: sortedChunks[0].timestamp,
-        messages,
-        startedAt,
-        updatedAt,
-      });
+      const segment = await downloadConversationSegment(
+        reader,
+        sortedChunks,
+        walletAddress,
+        encryptionKey
+      );
+      if (!segment) continue;
+      segments.push(segment);
+      if (cache) saveCachedConversationSegment(cache, walletAddress, segment);
     } catch {
       // Skip malformed/unreadable conversation groups.
       continue;
     }
   }
 
-  if (segmentPayloads.length === 0) return [];
+  if (segments.length === 0) return [];
 
   const sessions = new Map<string, Conversation>();
-  const perSessionOffsets = new Map<string, Set<number>>();
 
-  segmentPayloads.sort((a, b) => {
-    if (a.session !== b.session) return a.session.localeCompare(b.session);
-    if (a.offset !== b.offset) return a.offset - b.offset;
-    return a.timestamp.localeCompare(b.timestamp);
+  // Segments are laid over each other in upload order, each at its message
+  // offset, so messages queued again after they changed replace the older copy.
+  segments.sort((a, b) => {
+    if (a.conversationId !== b.conversationId) return a.conversationId.localeCompare(b.conversationId);
+    if (a.timestamp !== b.timestamp) return a.timestamp.localeCompare(b.timestamp);
+    return a.offset - b.offset;
   });
 
-  for (const seg of segmentPayloads) {
-    const existingOffsets = perSessionOffsets.get(seg.session) ?? new Set<number>();
-    // If we already have this exact offset, keep the first one (stable by timestamp sort).
-    if (existingOffsets.has(seg.offset)) continue;
-    existingOffsets.add(seg.offset);
-    perSessionOffsets.set(seg.session, existingOffsets);
-
-    const existing = sessions.get(seg.session);
+  for (const seg of segments) {
+    let existing = sessions.get(seg.conversationId);
     if (!existing) {
-      sessions.set(seg.session, {
-        id: seg.session,
+      existing = {
+        id: seg.conversationId,
         client: seg.client,
         project: seg.project,
-        messages: [...seg.messages],
+        messages: [],
         startedAt: seg.startedAt,
         updatedAt: seg.updatedAt,
-      });
-      continue;
+      };
+      sessions.set(seg.conversationId, existing);
     }
 
-    existing.messages.push(...seg.messages);
+    seg.messages.forEach((message, i) => {
+      existing.messages[seg.offset + i] = message;
+    });
     if (seg.startedAt < existing.startedAt) existing.startedAt = seg.startedAt;
     if (seg.updatedAt > existing.updatedAt) existing.updatedAt = seg.updatedAt;
   }
 
+  // A segment that could not be read leaves a gap; close it.
+  for (const session of sessions.values()) {
+    session.messages = session.messages.filter((message) => message !== undefined);
+  }
+
   return Array.from(sessions.values()).sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
 }
 
+/**
+ * Download, verify, join and decrypt one complete chunk group.
+ * Returns null when the payload does not match the segment schema.
+ */
+async function downloadConversationSegment(
+  reader: StorageReader,
+  sortedChunks: ConversationChunkInfo[],
+  walletAddress: string,
+  encryptionKey: Uint8Array
+): Promise<CachedConversationSegment | null> {
+  const buffers: Uint8Array[] = [];
+  let totalLen = 0;
+  for (const chunk of sortedChunks) {
+    const encrypted = await reader.fetchData(chunk.txId, MAX_PULL_DATA_SHARD_BYTES);
+    if (!chunk.signature || !verifySignature(encrypted, chunk.signature, walletAddress)) {
+      throw new Error("conversation chunk signature verification failed");
+    }
+    buffers.push(encrypted);
+    totalLen += encrypted.length;
+  }
+
+  const joined = new Uint8Array(totalLen);
+  let writeOffset = 0;
+  for (const part of buffers) {
+    joined.set(part, writeOffset);
+    writeOffset += part.length;
+  }
+
+  const decrypted = decrypt(joined, encryptionKey);
+  const parsed = JSON.parse(new TextDecoder().decode(decrypted)) as Record<string, unknown>;
+  const session = typeof parsed.id === "string" ? parsed.id : null;
+  const client = isConversationClient(parsed.client) ? parsed.client : null;
+  const project = typeof parsed.project === "string" ? parsed.project : null;
+  const startedAt =
+    typeof parsed.startedAt === "string" ? parsed.startedAt : null;
+  const updatedAt =
+    typeof parsed.updatedAt === "string" ? parsed.updatedAt : null;
+  const offset =
+    typeof parsed.offset === "number" && Number.isFinite(parsed.offset)
+      ? parsed.offset
+      : null;
+  const messages = Array.isArray(parsed.messages)
+    ? (parsed.messages as Conversation["messages"])
+    : null;
+
+  // Strict future-only schema validation.
+  if (
+    !session ||
+    !client ||
+    !project ||
+    !startedAt ||
+    !updatedAt ||
+    offset === null ||
+    !messages
+  ) {
+    return null;
+  }
+
+  return {
+    txId: sortedChunks[0].txId,
+    conversationId: session,
+    client,
+    project,
+    offset: Math.max(0, offset),
+    timestamp: sortedChunks[0].timestamp,
+    messages,
+    startedAt,
+    updatedAt,
+  };
+}
+
 function groupConversationChunkInfos(
   infos: ConversationChunkInfo[]
 ): Map<string, ConversationChunkInfo[]> {
@@ -419,10 +1048,105 @@ function groupConversationChunkInfos(
   return groups;
 }
 
-function findLatestSnapshot(shards: ShardInfo[]): ShardInfo | null {
-  const snapshots = shards.filter((s) => s.type === "snapshot");
-  if (snapshots.length === 0) return null;
-  return snapshots.reduce((a, b) => (a.version > b.version ? a : b));
+/**
+ * Download, verify and decrypt data shards.
+ * Unreadable or unverifiable shards are skipped and reported by version.
+ */
+async function downloadDataShards(
+  reader: StorageReader,
+  infos: ShardInfo[],
+  walletAddress: string,
+  key: Uint8Array
+): Promise<{ shards: Shard[]; failedVersions: Set<number>; failedTxIds: Set<string> }> {
+  const shards: Shard[] = [];
+  const failedVersions = new Set<number>();
+  const failedTxIds = new Set<string>();
+
+  for (const shardInfo of infos) {
+    try {
+      const encrypted = await reader.fetchData(
+        shardInfo.txId,
+        MAX_PULL_DATA_SHARD_BYTES
+      );
+
+      // Signature is mandatory for all data shards.
+      if (!shardInfo.signature) {
+        console.warn(
+          `Skipping shard v${shardInfo.version}: missing signature.`
+        );
+        failedVersions.add(shardInfo.version);
+        failedTxIds.add(shardInfo.txId);
+        continue;
+      }
+      if (!verifySignature(encrypted, shardInfo.signature, walletAddress)) {
+        console.warn(
+          `Skipping shard v${shardInfo.version}: signature verification failed.`
+        );
+        failedVersions.add(shardInfo.version);
+        failedTxIds.add(shardInfo.txId);
+        continue;
+      }
+
+      // Only decrypt verified shards.
+      const decrypted = decrypt(encrypted, key);
+      shards.push(deserializeShard(decrypted));
+    } catch (err) {
+      console.warn(
+        `Skipping shard v${shardInfo.version}: ${err instanceof Error ? err.message : String(err)}`
+      );
+      failedVersions.add(shardInfo.version);
+      failedTxIds.add(shardInfo.txId);
+    }
+  }
+
+  return { shards, failedVersions, failedTxIds };
+}
+
+/**
+ * Find the newest snapshot whose parts are all present.
+ * Returns the first part (its version is where replay starts), or null.
+ * A snapshot that was only partially uploaded is never treated as complete.
+ * Devices that reach the threshold together queue snapshots under the same
+ * versions, so parts are matched by device; of two complete snapshots at one
+ * version, the one from the greater device id wins, the same on every reader.
+ */
+export function findLatestSnapshot(shards: ShardInfo[]): ShardInfo | null {
+  const partKey = (deviceId: string | null, version: number) => `${deviceId ?? ""}:${version}`;
+  const snapshotParts = new Map<string, ShardInfo>();
+  for (const s of shards) {
+    if (s.type === "snapshot") snapshotParts.set(partKey(s.deviceId, s.version), s);
+  }
+
+  let latest: ShardInfo | null = null;
+  for (const first of snapshotParts.values()) {
+    if (first.partIndex !== 1) continue;
+    let complete = true;
+    for (let i = 1; i < first.partTotal; i++) {
+      const part = snapshotParts.get(partKey(first.deviceId, first.version + i));
+      if (!part || part.partIndex !== i + 1 || part.partTotal !== first.partTotal) {
+        complete = false;
+        break;
+      }
+    }
+    if (!complete) continue;
+    if (
+      !latest ||
+      first.version > latest.version ||
+      (first.version === latest.version && (first.deviceId ?? "") > (latest.deviceId ?? ""))
+    ) {
+      latest = first;
+    }
+  }
+  return latest;
+}
+
+/** Whether a snapshot part belongs to another device's snapshot at the same version. */
+function isRivalSnapshotPart(shard: ShardInfo, snapshot: ShardInfo): boolean {
+  return (
+    shard.type === "snapshot" &&
+    shard.version - shard.partIndex + 1 === snapshot.version &&
+    shard.deviceId !== snapshot.deviceId
+  );
 }
 
 /**
@@ -430,12 +1154,16 @@ function findLatestSnapshot(shards: ShardInfo[]): ShardInfo | null {
  * Returns the remote version, or null if no shards exist.
  */
 export async function checkRemoteVersion(
-  walletAddress: string
+  walletAddress: string,
+  reader: StorageReader
 ): Promise<number | null> {
-  const shards = await queryShards(walletAddress);
-  const dataShards = shards.filter(
-    (s) => s.type === "delta" || s.type === "snapshot"
+  const shards = await queryShards(reader, walletAddress);
+  return latestVersion(
+    shards.filter((s) => s.type === "delta" || s.type === "snapshot")
   );
+}
+
+function latestVersion(dataShards: ShardInfo[]): number | null {
   if (dataShards.length === 0) return null;
   return Math.max(...dataShards.map((s) => s.version));
 }
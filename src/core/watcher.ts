@@ -1,142 +1,135 @@
-import { readdirSync, statSync, readFileSync, existsSync } from "fs";
-import { join } from "path";
-import { homedir } from "os";
-import { parseCursorTranscript, parseCursorJSONL } from "./parsers/cursor.js";
-import { parseClaudeCodeJSONL } from "./parsers/claude-code.js";
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  openSync,
+  readdirSync,
+  readSync,
+  statSync,
+  watch,
+  type FSWatcher,
+} from "fs";
+import { dirname, join } from "path";
+import { createHash } from "crypto";
+import type Database from "better-sqlite3";
+import {
+  discoverConversationFiles,
+  getConversationSources,
+  getParseOptions,
+  resolveConversationFile,
+  type ConversationFileRef,
+  type ConversationSource,
+} from "./sources.js";
+import { deleteMeta, getMeta, getMetaKeys, setMeta } from "./db.js";
+import { mergeConsecutiveMessages } from "./parsers/cursor.js";
+import type { ParseOptions } from "./parsers/tools.js";
 import type { Conversation } from "../types.js";
 
-interface FileState {
-  path: string;
-  lastSize: number;
-  lastModified: number;
+// Bytes just before the read offset that must be unchanged for an append-only read.
+const ANCHOR_BYTES = 256;
+// Changes seen by fs.watch are batched for this long before files are read.
+const DEBOUNCE_MS = 500;
+// While watching, a full scan still runs this often to catch dropped events.
+const RESCAN_INTERVAL_MS = 10 * 60_000;
+// Meta key prefix of the persisted file fingerprints.
+const FILE_META_PREFIX = "watcher_file:";
+// Earlier releases persisted offsets under this prefix; the rows are dropped.
+const LEGACY_META_PREFIX = "watcher_offset:";
+
+/** Size, mtime and inode: a file whose fingerprint is unchanged is not read. */
+interface FileFingerprint {
+  size: number;
+  mtimeMs: number;
+  ino: number;
 }
 
-export interface WatcherCallback {
-  (conversation: Conversation): void;
+interface FileState extends FileFingerprint {
+  /** End of the last complete line consumed (JSONL), or the whole file (txt). */
+  offset: number;
+  /** Hash of the bytes before `offset`; a mismatch means the file was rewritten. */
+  anchor: string;
+  /**
+   * Everything parsed so far. Absent for state restored from the db, which
+   * only holds the fingerprint: the next change is parsed in full.
+   */
+  conversation?: Conversation;
 }
 
-export interface ConversationFileRef {
-  path: string;
-  client: "cursor" | "claude-code";
-  format: "txt" | "jsonl";
-  project: string;
-  fileId: string;
+export interface WatcherCallback {
+  (conversation: Conversation, file: ConversationFileRef): void;
 }
 
 /**
- * Discover all conversation files across Cursor and Claude Code directories.
+ * "auto" reacts to fs.watch events and falls back to polling where recursive
+ * watching is unavailable; "poll" always scans every `intervalMs`.
  */
-export function discoverConversationFiles(): ConversationFileRef[] {
-  return [...discoverCursorFiles(), ...discoverClaudeCodeFiles()];
-}
-
-function discoverCursorFiles(): ConversationFileRef[] {
-  const results: ConversationFileRef[] = [];
-  const cursorDir = join(homedir(), ".cursor", "projects");
-
-  if (!existsSync(cursorDir)) return results;
-
-  try {
-    for (const projectDir of readdirSync(cursorDir)) {
-      const transcriptsDir = join(cursorDir, projectDir, "agent-transcripts");
-      if (!existsSync(transcriptsDir)) continue;
-
-      const project = projectDir.split("-").pop() ?? projectDir;
-
-      for (const entry of readdirSync(transcriptsDir)) {
-        const entryPath = join(transcriptsDir, entry);
-
-        if (entry.endsWith(".txt")) {
-          results.push({
-            path: entryPath,
-            client: "cursor",
-            format: "txt",
-            project,
-            fileId: entry.replace(".txt", ""),
-          });
-          continue;
-        }
-
-        // New format: directory containing <uuid>.jsonl
-        try {
-          if (!statSync(entryPath).isDirectory()) continue;
-        } catch {
-          continue;
-        }
-        const jsonlPath = join(entryPath, `${entry}.jsonl`);
-        if (existsSync(jsonlPath)) {
-          results.push({
-            path: jsonlPath,
-            client: "cursor",
-            format: "jsonl",
-            project,
-            fileId: entry,
-          });
-        }
-      }
-    }
-  } catch {
-    // Directory access error — skip
-  }
-
-  return results;
-}
-
-function discoverClaudeCodeFiles(): ConversationFileRef[] {
-  const results: ConversationFileRef[] = [];
-  const claudeDir = join(homedir(), ".claude", "projects");
+export type WatchMode = "auto" | "poll";
 
-  if (!existsSync(claudeDir)) return results;
-
-  try {
-    for (const projectDir of readdirSync(claudeDir)) {
-      const fullProjectDir = join(claudeDir, projectDir);
-      const stat = statSync(fullProjectDir);
-      if (!stat.isDirectory()) continue;
-
-      const project = projectDir.split("-").pop() ?? projectDir;
-
-      for (const file of readdirSync(fullProjectDir)) {
-        if (!file.endsWith(".jsonl")) continue;
-        const filePath = join(fullProjectDir, file);
-        const fileStat = statSync(filePath);
-        if (fileStat.size === 0) continue;
-
-        results.push({
-          path: filePath,
-          client: "claude-code",
-          format: "jsonl",
-          project,
-          fileId: file.replace(".jsonl", ""),
-        });
-      }
-    }
-  } catch {
-    // Directory access error — skip
-  }
-
-  return results;
+export interface ConversationWatcherOptions {
+  mode?: WatchMode;
+  /** Polling interval, used in "poll" mode or after falling back to it. */
+  intervalMs?: number;
+  sources?: ConversationSource[];
+  /** Persist file fingerprints in the meta table so restarts skip unchanged files. */
+  db?: Database.Database;
+  /** Defaults to the options in config.json. */
+  parseOptions?: ParseOptions;
 }
 
 /**
- * ConversationWatcher polls known Cursor and Claude Code directories
- * for new or updated conversation files. When changes are detected,
+ * ConversationWatcher follows every conversation source (built-in clients and
+ * configured ones) for new or updated files. When changes are detected,
  * it parses only the new content and fires the callback.
+ *
+ * By default it scans once, then recursively watches each source's
+ * directories and only reads the paths fs.watch reports, debounced so a
+ * burst of writes is read once. A directory that does not exist yet is
+ * picked up when it is created. If recursive watching is not supported or a
+ * watcher fails, it falls back to scanning every `intervalMs`.
+ *
+ * JSONL files are append-only in practice, so the watcher remembers the byte
+ * offset of the last complete line and parses only lines written after it.
+ * A trailing partial line is left for the next poll. If the file shrank, was
+ * replaced, or the bytes before the offset changed, it is parsed from scratch.
+ * Plain-text transcripts are always reparsed in full, and so is every file
+ * while tool calls are captured: a tool result must find the call it answers,
+ * which may sit in lines read earlier.
+ *
+ * With a `db`, each file's size, mtime and inode are kept in meta so a
+ * restart does not re-read files that did not change. The parsed
+ * conversation is not persisted, so a file that changed is parsed in full
+ * the first time after a restart. Entries for files that no longer exist
+ * are pruned on every full scan.
  */
 export class ConversationWatcher {
   private fileStates = new Map<string, FileState>();
   private callback: WatcherCallback;
   private timer: ReturnType<typeof setInterval> | null = null;
+  private mode: WatchMode;
   private intervalMs: number;
+  private sources: ConversationSource[];
+  private db: Database.Database | undefined;
+  private parseOptions: ParseOptions;
+  private watchers = new Map<string, FSWatcher>();
+  private pending = new Set<string>();
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(callback: WatcherCallback, intervalMs = 30_000) {
+  constructor(callback: WatcherCallback, options: ConversationWatcherOptions = {}) {
     this.callback = callback;
-    this.intervalMs = intervalMs;
+    this.mode = options.mode ?? "auto";
+    this.intervalMs = options.intervalMs ?? 30_000;
+    this.sources = options.sources ?? getConversationSources();
+    this.db = options.db;
+    this.parseOptions = options.parseOptions ?? getParseOptions();
   }
 
   start(): void {
     this.poll();
-    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    if (this.mode === "auto" && this.startWatching()) {
+      this.timer = setInterval(() => this.poll(), RESCAN_INTERVAL_MS);
+    } else {
+      this.timer = setInterval(() => this.poll(), this.intervalMs);
+    }
   }
 
   stop(): void {
@@ -144,45 +137,275 @@ export class ConversationWatcher {
       clearInterval(this.timer);
       this.timer = null;
     }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pending.clear();
+    this.closeWatchers();
+  }
+
+  /** True while changes arrive through fs.watch rather than polling. */
+  isWatching(): boolean {
+    return this.watchers.size > 0;
   }
 
   private poll(): void {
-    for (const file of discoverConversationFiles()) {
+    const files = discoverConversationFiles(this.sources);
+    for (const file of files) {
       this.checkFile(file);
     }
+    this.pruneStates(new Set(files.map((f) => f.path)));
+  }
+
+  /** Forget files a full scan no longer finds (deleted, or their source removed). */
+  private pruneStates(present: Set<string>): void {
+    for (const path of this.fileStates.keys()) {
+      if (!present.has(path)) this.fileStates.delete(path);
+    }
+    if (!this.db) return;
+    for (const key of getMetaKeys(this.db, FILE_META_PREFIX)) {
+      if (!present.has(key.slice(FILE_META_PREFIX.length))) deleteMeta(this.db, key);
+    }
+    for (const key of getMetaKeys(this.db, LEGACY_META_PREFIX)) deleteMeta(this.db, key);
+  }
+
+  private startWatching(): boolean {
+    const roots = new Set(this.sources.flatMap((s) => s.watchRoots()));
+    try {
+      for (const root of roots) this.watchRoot(root);
+      return true;
+    } catch {
+      this.closeWatchers();
+      return false;
+    }
+  }
+
+  /**
+   * Watch a source directory recursively, or, until it exists, its nearest
+   * existing ancestor so its creation is noticed.
+   */
+  private watchRoot(root: string): void {
+    this.watchers.get(root)?.close();
+
+    if (existsSync(root)) {
+      const watcher = watch(root, { recursive: true }, (_event, filename) => {
+        this.enqueue(filename ? join(root, filename.toString()) : root);
+      });
+      watcher.on("error", () => this.fallBackToPolling());
+      this.watchers.set(root, watcher);
+      return;
+    }
+
+    const ancestor = nearestExistingDir(root);
+    const watcher = watch(ancestor, () => {
+      if (!existsSync(root) && nearestExistingDir(root) === ancestor) return;
+      try {
+        this.watchRoot(root);
+        this.enqueue(root);
+      } catch {
+        this.fallBackToPolling();
+      }
+    });
+    watcher.on("error", () => this.fallBackToPolling());
+    this.watchers.set(root, watcher);
+  }
+
+  private enqueue(path: string): void {
+    this.pending.add(path);
+    if (!this.debounceTimer) {
+      this.debounceTimer = setTimeout(() => this.flushPending(), DEBOUNCE_MS);
+    }
+  }
+
+  private flushPending(): void {
+    this.debounceTimer = null;
+    const paths = [...this.pending];
+    this.pending.clear();
+
+    for (const path of paths) {
+      let isDirectory: boolean;
+      try {
+        isDirectory = statSync(path).isDirectory();
+      } catch {
+        continue; // Removed since the event
+      }
+      // A new directory (project, session folder) may arrive with files already in it.
+      const candidates = isDirectory ? listFiles(path) : [path];
+      for (const candidate of candidates) {
+        const file = resolveConversationFile(candidate, this.sources);
+        if (file) this.checkFile(file);
+      }
+    }
+  }
+
+  private fallBackToPolling(): void {
+    if (!this.timer) return; // Stopped
+    this.closeWatchers();
+    clearInterval(this.timer);
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    this.poll();
+  }
+
+  private closeWatchers(): void {
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
   }
 
   private checkFile(file: ConversationFileRef): void {
     try {
       const stat = statSync(file.path);
-      const existing = this.fileStates.get(file.path);
+      const existing = this.fileStates.get(file.path) ?? this.loadState(file.path);
 
-      if (existing && stat.size === existing.lastSize && stat.mtimeMs === existing.lastModified) {
+      if (
+        existing &&
+        stat.size === existing.size &&
+        stat.mtimeMs === existing.mtimeMs &&
+        stat.ino === existing.ino
+      ) {
+        if (!this.fileStates.has(file.path)) this.fileStates.set(file.path, existing);
         return;
       }
 
-      const content = readFileSync(file.path, "utf-8");
+      const source = this.sources.find((s) => s.client === file.client);
+      if (!source) return;
 
-      let conversation: Conversation;
-      if (file.client === "claude-code") {
-        conversation = parseClaudeCodeJSONL(content, file.fileId, file.project);
-      } else if (file.format === "jsonl") {
-        conversation = parseCursorJSONL(content, file.fileId, file.project);
-      } else {
-        conversation = parseCursorTranscript(content, file.fileId, file.project);
-      }
+      const next = readChanges(file, source, existing, this.parseOptions);
+      this.fileStates.set(file.path, next.state);
+      this.saveState(file.path, next.state);
 
-      if (conversation.messages.length > 0) {
-        this.fileStates.set(file.path, {
-          path: file.path,
-          lastSize: stat.size,
-          lastModified: stat.mtimeMs,
-        });
-
-        this.callback(conversation);
+      if (next.changed && next.state.conversation && next.state.conversation.messages.length > 0) {
+        this.callback(next.state.conversation, file);
       }
     } catch {
       // File disappeared or unreadable — skip silently
     }
   }
+
+  private loadState(path: string): FileState | undefined {
+    if (!this.db) return undefined;
+    const raw = getMeta(this.db, `${FILE_META_PREFIX}${path}`);
+    if (!raw) return undefined;
+    try {
+      const { size, mtimeMs, ino } = JSON.parse(raw) as FileFingerprint;
+      return { size, mtimeMs, ino, offset: 0, anchor: "" };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private saveState(path: string, state: FileState): void {
+    if (!this.db) return;
+    const fingerprint: FileFingerprint = { size: state.size, mtimeMs: state.mtimeMs, ino: state.ino };
+    setMeta(this.db, `${FILE_META_PREFIX}${path}`, JSON.stringify(fingerprint));
+  }
+}
+
+/**
+ * Read what changed in a file since `previous`: only the appended lines when
+ * the earlier content is still in place and parsed, otherwise the whole file.
+ * With tool capture on, always the whole file.
+ */
+function readChanges(
+  file: ConversationFileRef,
+  source: ConversationSource,
+  previous: FileState | undefined,
+  options: ParseOptions
+): { state: FileState; changed: boolean } {
+  const fd = openSync(file.path, "r");
+  try {
+    const stat = fstatSync(fd);
+    const appendOnly =
+      file.format === "jsonl" &&
+      !options.includeTools &&
+      previous?.conversation !== undefined &&
+      stat.ino === previous.ino &&
+      stat.size >= previous.offset &&
+      hashAnchor(fd, previous.offset) === previous.anchor;
+
+    const start = appendOnly ? previous!.offset : 0;
+    const bytes = readRange(fd, start, stat.size);
+    const consumed = file.format === "jsonl" ? completeLinesLength(bytes) : bytes.length;
+    const offset = start + consumed;
+    const base = {
+      offset,
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      ino: stat.ino,
+      anchor: hashAnchor(fd, offset),
+    };
+
+    if (appendOnly && consumed === 0) {
+      return { state: { ...base, conversation: previous!.conversation }, changed: false };
+    }
+
+    const parsed = source.parse(bytes.subarray(0, consumed).toString("utf-8"), file, options);
+    const conversation = appendOnly ? appendConversation(previous!.conversation!, parsed) : parsed;
+    return { state: { ...base, conversation }, changed: true };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Join a conversation with one parsed from lines appended after it.
+ * Messages are re-merged so a reply split across the boundary stays one message.
+ */
+export function appendConversation(base: Conversation, appended: Conversation): Conversation {
+  return {
+    ...base,
+    messages: mergeConsecutiveMessages([...base.messages, ...appended.messages]),
+    updatedAt: appended.updatedAt > base.updatedAt ? appended.updatedAt : base.updatedAt,
+  };
+}
+
+/**
+ * Length of the complete lines in a JSONL chunk. A last line without a
+ * newline only counts if it already parses, so a half-written line is
+ * retried on the next poll instead of being dropped.
+ */
+function completeLinesLength(bytes: Buffer): number {
+  const lastNewline = bytes.lastIndexOf(0x0a);
+  const tail = bytes.subarray(lastNewline + 1);
+  if (tail.length > 0) {
+    try {
+      JSON.parse(tail.toString("utf-8"));
+      return bytes.length;
+    } catch {
+      // Partial line — leave it for later
+    }
+  }
+  return lastNewline + 1;
+}
+
+function listFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir, { recursive: true, encoding: "utf-8" }).map((entry) => join(dir, entry));
+  } catch {
+    return [];
+  }
+}
+
+function nearestExistingDir(path: string): string {
+  let current = dirname(path);
+  while (!existsSync(current) && dirname(current) !== current) {
+    current = dirname(current);
+  }
+  return current;
+}
+
+function readRange(fd: number, start: number, end: number): Buffer {
+  const buffer = Buffer.alloc(Math.max(0, end - start));
+  let read = 0;
+  while (read < buffer.length) {
+    const n = readSync(fd, buffer, read, buffer.length - read, start + read);
+    if (n === 0) break;
+    read += n;
+  }
+  return buffer.subarray(0, read);
+}
+
+function hashAnchor(fd: number, offset: number): string {
+  const start = Math.max(0, offset - ANCHOR_BYTES);
+  return createHash("sha256").update(readRange(fd, start, offset)).digest("hex");
 }
@@ -4,12 +4,19 @@ import { Command } from "commander";
 import { initCommand, initExistingCommand } from "./cli/init.js";
 import { deleteCommand } from "./cli/delete.js";
 import { inspectCommand } from "./cli/inspect.js";
-import { identityCommand } from "./cli/identity.js";
+import { identityCommand, publishKeyCommand } from "./cli/identity.js";
 import { setupCommand } from "./cli/setup.js";
 import { startMcpServer } from "./mcp/server.js";
 import { listConversationsCommand, listContextCommand } from "./cli/list.js";
-import { shareCommand } from "./cli/share.js";
+import { shareCommand, shareFactsCommand } from "./cli/share.js";
 import { syncCommand } from "./cli/sync.js";
+import { compactCommand } from "./cli/compact.js";
+import { searchFactsCommand, searchConversationsCommand } from "./cli/search.js";
+import { historyCommand } from "./cli/history.js";
+import { listConflictsCommand, resolveConflictCommand } from "./cli/conflicts.js";
+import { listOutboxCommand, retryOutboxCommand, dropOutboxCommand } from "./cli/outbox.js";
+import { cacheStatsCommand, clearCacheCommand } from "./cli/cache.js";
+import { listSharesCommand, revokeShareCommand } from "./cli/shares.js";
 import { VERSION } from "./version.js";
 
 const program = new Command();
@@ -47,10 +54,45 @@ program
   .command("inspect")
   .description("List all stored facts")
   .option("-s, --scope <scope>", "Filter by scope")
+  .option("--as-of <date>", "Show facts as they were at a point in time (from local history)")
   .action((options) => {
     inspectCommand(options);
   });
 
+program
+  .command("history <key>")
+  .description("Show previous values of a fact")
+  .action((key) => {
+    historyCommand(key);
+  });
+
+const search = program
+  .command("search")
+  .description("Full-text search over facts (default) or conversations");
+
+search
+  .command("facts <query>", { isDefault: true })
+  .description("Full-text search over stored facts")
+  .option("-s, --scope <scope>", "Filter by scope (global facts always included)")
+  .option("--limit <n>", "Maximum results to show", "20")
+  .action((query, options) => {
+    searchFactsCommand(query, options);
+  });
+
+search
+  .command("conversations <query>")
+  .description("Full-text search over conversation messages")
+  .option("--client <client>", "Only this client: cursor | claude-code | codex | <configured source>")
+  .option("-p, --project <project>", "Only this project")
+  .option("--limit <n>", "Maximum results to show", "20")
+  .action((query, options) => {
+    searchConversationsCommand(query, options);
+  });
+search.addHelpText(
+  "after",
+  "\nExamples:\n  sharedcontext search \"auth strategy\"\n  sharedcontext search facts orm --scope project:api\n  sharedcontext search conversations \"webhook retry\" --client claude-code"
+);
+
 program
   .command("identity")
   .description("Show wallet address, balance, and sync status")
@@ -59,6 +101,14 @@ program
     await identityCommand({ testnet: options.testnet });
   });
 
+program
+  .command("publish-key")
+  .description("Publish your public key so others can share conversations to your wallet")
+  .option("--testnet", "Upload via testnet")
+  .action(async (options) => {
+    await publishKeyCommand({ testnet: options.testnet });
+  });
+
 program
   .command("serve")
   .description("Start the MCP server (used by Cursor, Claude, and Codex)")
@@ -84,7 +134,7 @@ const list = program
 list
   .command("conversations")
   .description("List discovered conversations (local + remote)")
-  .option("--client <client>", "Filter by client: cursor | claude-code | any", "any")
+  .option("--client <client>", "Filter by client: cursor | claude-code | codex | <configured source> | any", "any")
   .option("--project <project>", "Filter by project name")
   .option("--limit <n>", "Maximum rows to show", "30")
   .option("--local-only", "Only list local conversations, skip remote pull")
@@ -101,26 +151,142 @@ list
   });
 
 const share = program
-  .command("share <conversationId>")
+  .command("share")
+  .description("Create a share URL/token for a conversation (default) or a set of facts");
+
+share
+  .command("conversation <conversationId>", { isDefault: true })
   .description("Create a share URL/token for a conversation")
-  .option("--client <client>", "Disambiguate duplicate IDs: cursor | claude-code")
+  .option("--client <client>", "Disambiguate duplicate IDs: cursor | claude-code | codex | <configured source>")
   .option("--verbose", "Show debug details (share ID, tx ID, token)")
+  .option("--dry-run", "Show which secrets would be masked, without uploading")
+  .option("--to <recipient...>", "Only these wallet addresses or public keys can open the link")
+  .option("--expires <when>", "Refuse imports after a duration (30m, 12h, 7d, 2w) or date")
+  .option("--range <from-to>", "Only messages in this range, 1-based and inclusive (5-20, 5-, -20)")
+  .option("--turns-only", "Only user and assistant messages, without tool calls")
+  .option("--match <pattern>", "Only messages matching this case-insensitive regular expression")
+  .option("--review", "Preview exactly what will be uploaded and drop messages before encrypting")
   .action(async (conversationId, options) => {
     await shareCommand(conversationId, options);
   });
+
+share
+  .command("facts")
+  .description("Create a share URL/token for the facts of one scope")
+  .requiredOption("-s, --scope <scope>", "Scope to share: project:<name> | global")
+  .option("--tag <tag...>", "Only facts with one of these tags")
+  .option("--verbose", "Show debug details (share ID, tx ID, token)")
+  .option("--dry-run", "List the facts that would be shared, without uploading")
+  .option("--to <recipient...>", "Only these wallet addresses or public keys can open the link")
+  .option("--expires <when>", "Refuse imports after a duration (30m, 12h, 7d, 2w) or date")
+  .action(async (options) => {
+    await shareFactsCommand(options);
+  });
 share.showHelpAfterError(
   "\nRun `sharedcontext list conversations` first, then `sharedcontext share <conversationId>`."
 );
 share.addHelpText(
   "after",
-  "\nExamples:\n  sharedcontext list conversations\n  sharedcontext share <conversationId>\n  sharedcontext share <conversationId> --client cursor"
+  "\nExamples:\n  sharedcontext list conversations\n  sharedcontext share <conversationId>\n  sharedcontext share <conversationId> --client cursor\n  sharedcontext share <conversationId> --dry-run\n  sharedcontext share <conversationId> --expires 7d\n  sharedcontext share <conversationId> --range 10-40 --turns-only --review\n  sharedcontext share facts --scope project:api --tag architecture"
 );
 
+const shares = program
+  .command("shares")
+  .description("List and revoke shares created on this machine");
+
+shares
+  .command("list", { isDefault: true })
+  .description("List shares with their recipients, expiry and revocation status")
+  .action(() => {
+    listSharesCommand();
+  });
+
+shares
+  .command("revoke <share-id>")
+  .description("Publish a signed revocation so the share can no longer be imported")
+  .action(async (shareId) => {
+    await revokeShareCommand(shareId);
+  });
+
 program
   .command("sync <urlOrToken>")
-  .description("Import a shared conversation from URL/token")
-  .action(async (urlOrToken) => {
-    await syncCommand(urlOrToken);
+  .description("Import a shared conversation or fact bundle from URL/token")
+  .option("-y, --yes", "Import a fact bundle without asking: accept new facts, skip changed ones")
+  .option("--overwrite", "With --yes, also overwrite facts that differ from yours")
+  .action(async (urlOrToken, options) => {
+    await syncCommand(urlOrToken, { yes: options.yes, overwrite: options.overwrite });
+  });
+
+program
+  .command("compact")
+  .description("Push a full-state snapshot so new devices skip old deltas")
+  .option("--testnet", "Upload via testnet")
+  .action(async (options) => {
+    await compactCommand({ testnet: options.testnet });
+  });
+
+const conflicts = program
+  .command("conflicts")
+  .description("Review facts that diverged across devices");
+
+conflicts
+  .command("list", { isDefault: true })
+  .description("List fact conflicts found while pulling")
+  .option("--all", "Include resolved conflicts")
+  .action((options) => {
+    listConflictsCommand(options);
+  });
+
+conflicts
+  .command("resolve <key> <choice>")
+  .description("Keep one candidate (by number) for a conflicting fact")
+  .action((key, choice) => {
+    resolveConflictCommand(key, choice);
+  });
+
+const outbox = program
+  .command("outbox")
+  .description("Inspect uploads waiting to be sent");
+
+outbox
+  .command("list", { isDefault: true })
+  .description("List queued and failed uploads")
+  .option("--all", "Include recently sent uploads")
+  .action((options) => {
+    listOutboxCommand(options);
+  });
+
+outbox
+  .command("retry [id]")
+  .description("Upload queued items now (all, or one by id)")
+  .option("--testnet", "Upload via testnet")
+  .action(async (id, options) => {
+    await retryOutboxCommand(id, { testnet: options.testnet });
+  });
+
+outbox
+  .command("drop <id>")
+  .description("Discard a queued upload")
+  .action((id) => {
+    dropOutboxCommand(id);
+  });
+
+const cache = program
+  .command("cache")
+  .description("Inspect the local cache of pulled conversations");
+
+cache
+  .command("stats", { isDefault: true })
+  .description("Show how many remote conversation segments are cached")
+  .action(() => {
+    cacheStatsCommand();
+  });
+
+cache
+  .command("clear [conversation-id]")
+  .description("Drop cached segments (all, or one conversation's) so they are downloaded again")
+  .action((conversationId) => {
+    clearCacheCommand(conversationId);
   });
 
 program.parse();
@@ -2,37 +2,68 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
-import { readFileSync, statSync } from "fs";
 import {
   openDatabase,
   upsertFact,
   deleteFact,
   getFact,
   getAllFacts,
-  getDirtyFacts,
-  getPendingDeletes,
-  clearDirtyState,
-  getMeta,
-  setMeta,
   incrementAccessCount,
+  searchFacts,
+  getFactHistory,
+  searchConversations,
+  getSharedConversationImports,
 } from "../core/db.js";
-import { recallContext, formatContext } from "../core/engine.js";
-import { createChunkedShards, serializeShard, factToUpsertOp } from "../core/shard.js";
-import { encrypt } from "../core/crypto.js";
-import { pushShard, pushConversationDelta, pullConversations } from "../core/sync.js";
-import { TurboBackend } from "../core/backends/turbo.js";
+import { recallContext, formatContext, getTokenBudget } from "../core/engine.js";
+import { createRanker, RANKER_NAMES } from "../core/ranker.js";
+import {
+  enqueueDirtyFacts,
+  enqueueSnapshot,
+  enqueueConversationDelta,
+  pullConversations,
+  pullRemoteChanges,
+  isSnapshotDue,
+} from "../core/sync.js";
+import { flushOutbox } from "../core/outbox.js";
+import {
+  createStorageBackend,
+  createStorageReader,
+  describeStorage,
+} from "../core/backends/index.js";
 import { getDbPath } from "../cli/init.js";
 import { keychainLoad } from "../core/keychain.js";
-import { ConversationWatcher, discoverConversationFiles } from "../core/watcher.js";
-import { parseCursorTranscript, parseCursorJSONL } from "../core/parsers/cursor.js";
-import { parseClaudeCodeJSONL } from "../core/parsers/claude-code.js";
+import { ConversationWatcher } from "../core/watcher.js";
+import { loadConfig } from "../core/config.js";
+import {
+  createCompletionSummarizer,
+  formatConversationSummary,
+  getConversationSummary,
+  summarizeWith,
+} from "../core/summarize.js";
+import {
+  conversationPreview,
+  messageSearchText,
+  sliceConversation,
+} from "../core/conversation-slice.js";
+import {
+  indexLocalConversation,
+  indexRemoteConversations,
+  indexSharedConversations,
+  refreshLocalConversationIndex,
+} from "../core/conversation-index.js";
+import {
+  discoverConversationFiles,
+  getConversationSources,
+  parseConversationFile,
+} from "../core/sources.js";
 import { VERSION } from "../version.js";
 import {
   resolveIdentity,
   isIdentityAvailable,
   toErrorMessage,
 } from "../cli/util.js";
-import type { Fact, ShardOperation, Conversation } from "../types.js";
+import type { Fact, Conversation, ConversationSummary } from "../types.js";
+import type { StorageBackend, StorageReader } from "../core/storage.js";
 import type Database from "better-sqlite3";
 
 const SYNC_INTERVAL_MS = 60_000;
@@ -54,6 +85,14 @@ const CONVERSATION_QUERY_STOPWORDS = new Set([
   "with",
 ]);
 
+// Transcript budget for continue_shared_conversation; recall reads more on demand.
+const SHARED_PROMPT_TOKEN_BUDGET = 32_000;
+
+/** A conversation as recall sees it. Imported shares carry where they came from. */
+interface RecallableConversation extends Conversation {
+  share?: { shareId: string; wallet: string | null };
+}
+
 let db: Database.Database;
 
 export async function startMcpServer(): Promise<void> {
@@ -72,10 +111,18 @@ export async function startMcpServer(): Promise<void> {
   const cwd = process.cwd();
   const projectName = cwd.split("/").pop() ?? "unknown";
   const defaultScope = `project:${projectName}`;
+  // Recorded on every fact this server writes, so history shows where a value came from.
+  const sessionId = uuidv4();
+  // Created on first use: a storage misconfiguration only disables remote
+  // features (reported where they start) instead of stopping the server.
+  let reader: StorageReader | undefined;
+  const getReader = (): StorageReader => (reader ??= createStorageReader());
+  const sources = getConversationSources();
+  const clientChoices: [string, ...string[]] = ["any", ...sources.map((s) => s.client)];
 
   const server = new McpServer(
     { name: "sharedcontext", version: VERSION },
-    { instructions: "SharedContext is a sovereign, portable LLM context layer. Use store_fact to persist important decisions, preferences and project context. Use recall_context at conversation start or when context is needed. Use recall_conversation to retrieve past conversations from other AI clients." },
+    { instructions: "SharedContext is a sovereign, portable LLM context layer. Use store_fact to persist important decisions, preferences and project context. Use recall_context at conversation start or when context is needed. Use list_conversations or search_conversations to find past conversations from other AI clients and recall_conversation to read them; conversations others shared with you are included and marked with the sharer's wallet." },
   );
 
   server.tool(
@@ -118,7 +165,7 @@ export async function startMcpServer(): Promise<void> {
         value,
         tags,
         confidence: 1.0,
-        source_session: null,
+        source_session: sessionId,
         created: now,
         last_confirmed: now,
         access_count: 0,
@@ -145,11 +192,23 @@ export async function startMcpServer(): Promise<void> {
         .string()
         .optional()
         .describe("Scope to search. Defaults to current project + global."),
+      ranker: z
+        .enum(RANKER_NAMES)
+        .optional()
+        .describe(
+          "Ranking strategy: 'tfidf' matches by meaning (stemming, related terms like orm/prisma), 'keyword' uses exact tag, key and full-text matches only. Defaults to 'tfidf'."
+        ),
     },
-    async ({ topic, scope }) => {
+    async ({ topic, scope, ranker }) => {
       const searchScope = scope ?? defaultScope;
       const allFacts = getAllFacts(db);
-      const results = recallContext(topic, searchScope, allFacts);
+      const textScores = new Map(
+        searchFacts(db, topic).map((r) => [r.fact.key, r.score])
+      );
+      const results = recallContext(topic, searchScope, allFacts, undefined, {
+        textScores,
+        ranker: createRanker(ranker ?? "tfidf", db),
+      });
 
       for (const fact of results) {
         incrementAccessCount(db, fact.key);
@@ -192,110 +251,444 @@ export async function startMcpServer(): Promise<void> {
     }
   );
 
+  server.tool(
+    "fact_history",
+    "Show how a fact changed over time: every previous value with when it was replaced and which session wrote it. Use when the user asks why something was believed earlier or what a decision used to be.",
+    {
+      key: z.string().describe("The fact key to show history for."),
+    },
+    async ({ key }) => {
+      const current = getFact(db, key);
+      const history = getFactHistory(db, key);
+      if (!current && history.length === 0) {
+        return {
+          content: [
+            { type: "text" as const, text: `No history found for key: ${key}` },
+          ],
+        };
+      }
+
+      const lines: string[] = [];
+      if (current) {
+        lines.push(`- current (since ${current.last_confirmed}): ${current.value}`);
+      } else {
+        lines.push("- current: (deleted)");
+      }
+      for (const entry of history) {
+        const label = entry.change === "delete" ? "deleted" : "replaced";
+        lines.push(
+          `- ${entry.validFrom} → ${entry.replacedAt} (${label}, session ${entry.fact.source_session ?? "unknown"}): ${entry.fact.value}`
+        );
+      }
+
+      return {
+        content: [
+          { type: "text" as const, text: `[HISTORY ${key}]\n${lines.join("\n")}\n[/HISTORY]` },
+        ],
+      };
+    }
+  );
+
+  // Summaries come from the client's model when configured and supported,
+  // otherwise from local heuristics; either way they are stored in SQLite.
+  let sampleSummaries = false;
+  try {
+    sampleSummaries = loadConfig().summarizer === "sampling";
+  } catch {
+    // Config errors are reported where the config is first read.
+  }
+  const samplingSummarizer = createCompletionSummarizer(async (prompt) => {
+    const result = await server.server.createMessage({
+      messages: [{ role: "user", content: { type: "text", text: prompt } }],
+      maxTokens: 1_000,
+    });
+    return result.content.type === "text" ? result.content.text : "";
+  });
+  const summarize = (conversation: Conversation): Promise<ConversationSummary> =>
+    sampleSummaries && server.server.getClientCapabilities()?.sampling
+      ? summarizeWith(db, conversation, samplingSummarizer)
+      : Promise.resolve(getConversationSummary(db, conversation));
+
+  /**
+   * Conversations imported from shares, remote conversations (when an
+   * identity exists) and local files. A local file wins over its own synced
+   * copy, and either wins over a shared copy of the same conversation.
+   */
+  const loadConversations = async (
+    client?: string,
+    project?: string
+  ): Promise<RecallableConversation[]> => {
+    const byKey = new Map<string, RecallableConversation>();
+    const wanted = (c: { client: string; project: string }) =>
+      (!client || client === "any" || c.client === client) && (!project || c.project === project);
+
+    // Newest import first, so a re-shared conversation shows its latest copy.
+    for (const entry of getSharedConversationImports(db)) {
+      const key = `${entry.client}:${entry.conversationId}`;
+      if (!wanted(entry) || byKey.has(key)) continue;
+      byKey.set(key, { ...entry.conversation, share: { shareId: entry.shareId, wallet: entry.wallet } });
+    }
+
+    if (isIdentityAvailable()) {
+      try {
+        const identity = resolveIdentity(passphrase);
+        const remote = await pullConversations(
+          identity.walletAddress,
+          identity.encryptionKey,
+          getReader(),
+          db
+        );
+        indexRemoteConversations(db, remote);
+        for (const conv of remote) {
+          if (wanted(conv)) byKey.set(`${conv.client}:${conv.id}`, conv);
+        }
+      } catch {
+        // If remote pull fails, continue with local fallback.
+      }
+    }
+
+    for (const f of discoverConversationFiles(sources)) {
+      if (!wanted(f)) continue;
+      try {
+        const conv = parseConversationFile(f, sources);
+        byKey.set(`${conv.client}:${conv.id}`, conv);
+      } catch {
+        // Skip unreadable local files.
+      }
+    }
+    return [...byKey.values()];
+  };
+
   server.tool(
     "recall_conversation",
-    "Retrieve a previous conversation from another AI client (Cursor, Claude Code). Use this when the user says 'continue the conversation about X' or 'what did we discuss about Y'. SharedContext watches local conversation files and syncs them to Arweave.",
+    `Retrieve a previous conversation from another AI client (${sources.map((s) => s.name).join(", ")}). Use this when the user says 'continue the conversation about X' or 'what did we discuss about Y'. Pass conversation_id (from list_conversations or search_conversations) to open a specific one, and from/to or around to read only part of it. SharedContext watches local conversation files and syncs them to Arweave.`,
     {
       topic: z
         .string()
-        .describe("What the conversation was about. Keywords like 'keyboard layout', 'auth setup', 'database migration'."),
+        .optional()
+        .describe("What the conversation was about. Keywords like 'keyboard layout', 'auth setup', 'database migration'. Required unless conversation_id is given."),
+      conversation_id: z
+        .string()
+        .optional()
+        .describe("Open this conversation instead of the best match for topic. A unique prefix is enough."),
       client: z
-        .enum(["cursor", "claude-code", "any"])
+        .enum(clientChoices)
         .optional()
         .describe("Which client the conversation was in. Defaults to 'any'."),
       project: z
         .string()
         .optional()
         .describe("Project name to filter by."),
+      from: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("First message to show (0-based, as numbered in results). Without 'to', reads forward from here."),
+      to: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Last message to show (inclusive). Without 'from', shows the messages up to here."),
+      around: z
+        .string()
+        .optional()
+        .describe("Show only the messages mentioning these keywords and their neighbours, e.g. 'retry limit'."),
+      context: z
+        .number()
+        .int()
+        .min(0)
+        .max(20)
+        .optional()
+        .describe("Messages shown before and after each 'around' match. Defaults to 2."),
+      model: z
+        .string()
+        .optional()
+        .describe("Your model id (e.g. 'claude-sonnet-4', 'gpt-4.1'), to size the reply to your context window. Defaults to a 128k window."),
+      max_tokens: z
+        .number()
+        .int()
+        .min(500)
+        .optional()
+        .describe("Token budget for the reply. Overrides model."),
+      include_tools: z
+        .boolean()
+        .optional()
+        .describe(
+          "Include captured tool calls (command or file, result excerpt, files touched) under each message. Useful for 'which files did we change'. Defaults to false."
+        ),
     },
-    async ({ topic, client, project }) => {
-      const conversations: Conversation[] = [];
+    async ({ topic, conversation_id, client, project, from, to, around, context, model, max_tokens, include_tools }) => {
+      if (!topic && !conversation_id) {
+        return {
+          content: [{ type: "text" as const, text: "Pass a topic or a conversation_id." }],
+        };
+      }
 
-      if (isIdentityAvailable()) {
-        try {
-          const identity = resolveIdentity(passphrase);
-          const remote = await pullConversations(identity.walletAddress, identity.encryptionKey);
-          conversations.push(...remote);
-        } catch {
-          // If remote pull fails, continue with local fallback.
+      const conversations = await loadConversations(client, project);
+      if (conversations.length === 0) {
+        return {
+          content: [{ type: "text" as const, text: "No conversations found." }],
+        };
+      }
+
+      let conv: RecallableConversation;
+      if (conversation_id) {
+        const exact = conversations.filter((c) => c.id === conversation_id);
+        const found = exact.length > 0 ? exact : conversations.filter((c) => c.id.startsWith(conversation_id));
+        if (found.length !== 1) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: found.length === 0
+                  ? `No conversation with id "${conversation_id}". Use list_conversations to browse ids.`
+                  : `"${conversation_id}" matches ${found.length} conversations: ${found.map((c) => c.id).join(", ")}`,
+              },
+            ],
+          };
         }
+        conv = found[0];
+      } else {
+        const topicTokens = tokenizeTopic(topic!);
+        const scored = conversations.map((c) => ({ conv: c, score: scoreConversation(c, topicTokens) }));
+        scored.sort((a, b) => {
+          if (b.score !== a.score) return b.score - a.score;
+          return b.conv.updatedAt.localeCompare(a.conv.updatedAt);
+        });
+        const best = scored.find((s) => s.score > 0 && s.conv.messages.length >= 3);
+        if (!best) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No conversations matching "${topic}" found. (Excluding very short conversations — the "continue" request may have matched the current conversation instead of a prior one.)`,
+              },
+            ],
+          };
+        }
+        conv = best.conv;
       }
 
-      const local = discoverConversationFiles();
+      const slice = sliceConversation(conv, {
+        from,
+        to,
+        around: around ? tokenizeTopic(around) : undefined,
+        context,
+        tokenBudget: max_tokens ?? getTokenBudget(model),
+        includeTools: include_tools === true,
+      });
+      if (around && slice.matches.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Conversation ${conv.id} (${conv.messages.length} messages) has no messages mentioning "${around}" in that range.`,
+            },
+          ],
+        };
+      }
 
-      for (const f of local) {
-        if (client && client !== "any" && client !== f.client) continue;
-        if (project && f.project !== project) continue;
+      const shown = slice.indexes.length > 0
+        ? `showing ${slice.indexes.length} of messages #${slice.indexes[0]}–#${slice.indexes[slice.indexes.length - 1]}`
+        : "showing none";
+      const notes = [
+        around ? `${slice.matches.length} message(s) mention "${around}"` : null,
+        slice.truncated > 0 ? `${slice.truncated} more did not fit the token budget` : null,
+        slice.hiddenTools > 0 ? `${slice.hiddenTools} tool calls hidden (pass include_tools to show them)` : null,
+      ].filter(Boolean);
+      const origin = conv.share ? `, ${describeShare(conv.share)}` : "";
+      let header = `[CONVERSATION ${conv.id} from ${conv.client}${origin}, project: ${conv.project}, ${conv.messages.length} total messages, ${shown}${notes.length > 0 ? `, ${notes.join(", ")}` : ""}]`;
+
+      // What the hidden part decided, so it is not lost to the budget.
+      if (slice.indexes.length < conv.messages.length) {
         try {
-          const text = readFileSync(f.path, "utf-8");
-          let conv: Conversation;
-          if (f.client === "claude-code") {
-            conv = parseClaudeCodeJSONL(text, f.fileId, f.project);
-          } else if (f.format === "jsonl") {
-            conv = parseCursorJSONL(text, f.fileId, f.project);
-          } else {
-            conv = parseCursorTranscript(text, f.fileId, f.project);
-          }
-          if (f.client === "cursor") {
-            const stat = statSync(f.path);
-            conv.updatedAt = new Date(stat.mtimeMs).toISOString();
+          const summary = formatConversationSummary(await summarize(conv));
+          if (summary) {
+            header += `\n[SUMMARY of all ${conv.messages.length} messages]\n${summary}\n[/SUMMARY]`;
           }
-          conversations.push(conv);
         } catch {
-          // Skip unreadable local files.
+          // Recall works without a summary.
         }
       }
 
-      if (conversations.length === 0) {
-        return {
-          content: [{ type: "text" as const, text: "No conversations found." }],
-        };
-      }
+      return {
+        content: [{ type: "text" as const, text: `${header}\n\n${slice.text}` }],
+      };
+    }
+  );
 
-      const topicTokens = tokenizeTopic(topic);
-      const scored = conversations.map((conv) => {
-        const score = scoreConversation(conv, topicTokens);
-        return { conv, score };
-      });
+  server.tool(
+    "list_conversations",
+    "Browse past conversations from every client, newest first: id, client, project, last activity, message count and the opening request. Use it to pick a conversation, then call recall_conversation with its conversation_id.",
+    {
+      client: z
+        .enum(clientChoices)
+        .optional()
+        .describe("Only conversations from this client. Defaults to 'any'."),
+      project: z.string().optional().describe("Project name to filter by."),
+      topic: z
+        .string()
+        .optional()
+        .describe("Only conversations mentioning these keywords, best matches first."),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Maximum conversations to list. Defaults to 20."),
+    },
+    async ({ client, project, topic, limit }) => {
+      let conversations = (await loadConversations(client, project)).filter(
+        (c) => c.messages.length > 0
+      );
+      if (topic) {
+        const topicTokens = tokenizeTopic(topic);
+        conversations = conversations
+          .map((c) => ({ c, score: scoreConversation(c, topicTokens) }))
+          .filter((s) => s.score > 0)
+          .sort((a, b) => b.score - a.score || b.c.updatedAt.localeCompare(a.c.updatedAt))
+          .map((s) => s.c);
+      } else {
+        conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      }
 
-      scored.sort((a, b) => {
-        if (b.score !== a.score) return b.score - a.score;
-        return b.conv.updatedAt.localeCompare(a.conv.updatedAt);
-      });
-      const best = scored.find((s) => s.score > 0 && s.conv.messages.length >= 3);
-      if (!best) {
+      if (conversations.length === 0) {
         return {
           content: [
             {
               type: "text" as const,
-              text: `No conversations matching "${topic}" found. (Excluding very short conversations — the "continue" request may have matched the current conversation instead of a prior one.)`,
+              text: topic ? `No conversations matching "${topic}".` : "No conversations found.",
             },
           ],
         };
       }
 
-      const CHARS_PER_TOKEN = 4;
-      const TOKEN_BUDGET = 128_000 * 0.15;
-      const charBudget = TOKEN_BUDGET * CHARS_PER_TOKEN;
-
-      const msgs: typeof best.conv.messages = [];
-      let totalChars = 0;
-      for (let i = best.conv.messages.length - 1; i >= 0; i--) {
-        const msg = best.conv.messages[i];
-        const msgChars = msg.content.length + msg.role.length + 10;
-        if (totalChars + msgChars > charBudget) break;
-        msgs.unshift(msg);
-        totalChars += msgChars;
+      const shown = conversations.slice(0, limit ?? 20);
+      const lines = shown.map((c, i) => {
+        const origin = c.share ? ` (${describeShare(c.share)})` : "";
+        let line = `${i + 1}. ${c.id} [${c.client}] ${c.project}${origin} — ${c.messages.length} messages, updated ${c.updatedAt}\n   ${conversationPreview(c)}`;
+        const decided = getConversationSummary(db, c).decisions.at(-1);
+        if (decided) line += `\n   Decided: ${decided}`;
+        return line;
+      });
+      const more = conversations.length > shown.length
+        ? `\n\n(${conversations.length - shown.length} more; raise limit or filter by client, project or topic)`
+        : "";
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${conversations.length} conversation(s):\n\n${lines.join("\n\n")}${more}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "search_conversations",
+    "Search past conversations from every client by keyword. Returns ranked matching messages with snippets, conversation ids and message positions. Use this to find where something was discussed; use recall_conversation to read a conversation.",
+    {
+      query: z.string().describe("Keywords to look for, e.g. 'webhook retry', 'drizzle migration'."),
+      client: z
+        .enum(clientChoices)
+        .optional()
+        .describe("Only search conversations from this client. Defaults to 'any'."),
+      project: z.string().optional().describe("Project name to filter by."),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(50)
+        .optional()
+        .describe("Maximum hits to return. Defaults to 10."),
+    },
+    async ({ query, client, project, limit }) => {
+      try {
+        refreshLocalConversationIndex(db, sources);
+        indexSharedConversations(db);
+      } catch {
+        // Search what is already indexed.
+      }
+
+      const hits = searchConversations(db, query, {
+        client: client && client !== "any" ? client : undefined,
+        project,
+        limit: limit ?? 10,
+      });
+      if (hits.length === 0) {
+        return {
+          content: [{ type: "text" as const, text: `No conversation messages matching "${query}".` }],
+        };
       }
 
-      const formatted = msgs.map((m) =>
-        `[${m.role}]: ${m.content}`
-      ).join("\n\n");
+      const lines = hits.map((hit, i) => {
+        const when = hit.timestamp ?? hit.updatedAt;
+        const origin = hit.sharedBy ? `, shared by ${hit.sharedBy}` : "";
+        return `${i + 1}. [${hit.client}] ${hit.project} — conversation ${hit.conversationId}${origin}, message ${hit.messageIndex} (${hit.role}, ${when})\n   ${hit.snippet}`;
+      });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${hits.length} matching message(s) for "${query}":\n\n${lines.join("\n\n")}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.prompt(
+    "continue_shared_conversation",
+    "Load a conversation someone shared with you (imported with `sharedcontext sync`) into this session and pick it up where it left off.",
+    {
+      share_id: z
+        .string()
+        .describe("Share id, as shown by `sharedcontext sync` and list_conversations. A unique prefix is enough."),
+    },
+    async ({ share_id }) => {
+      const imports = getSharedConversationImports(db);
+      const exact = imports.filter((entry) => entry.shareId === share_id);
+      const found = exact.length > 0 ? exact : imports.filter((entry) => entry.shareId.startsWith(share_id));
+      if (found.length !== 1) {
+        throw new Error(
+          found.length === 0
+            ? `No imported share "${share_id}". Import it first with \`sharedcontext sync <url>\`.`
+            : `"${share_id}" matches ${found.length} shares: ${found.map((entry) => entry.shareId).join(", ")}`
+        );
+      }
 
-      const header = `[CONVERSATION from ${best.conv.client}, project: ${best.conv.project}, ${best.conv.messages.length} total messages, showing last ${msgs.length}]`;
+      const entry = found[0];
+      const conv = entry.conversation;
+      const slice = sliceConversation(conv, { tokenBudget: SHARED_PROMPT_TOKEN_BUDGET });
+      let header = `[CONVERSATION ${conv.id} from ${conv.client}, ${describeShare({ shareId: entry.shareId, wallet: entry.wallet })}, project: ${conv.project}, ${conv.messages.length} total messages`;
+      if (slice.indexes.length < conv.messages.length) {
+        header += `, showing the last ${slice.indexes.length}]`;
+        const summary = formatConversationSummary(getConversationSummary(db, conv));
+        if (summary) header += `\n[SUMMARY of all ${conv.messages.length} messages]\n${summary}\n[/SUMMARY]`;
+      } else {
+        header += "]";
+      }
 
+      const instructions = [
+        `This conversation was shared with me by ${entry.wallet ?? "another user"}. Continue it from where it left off: keep its decisions unless I say otherwise, and pick up its open questions.`,
+        slice.indexes.length < conv.messages.length
+          ? `Earlier messages are available with recall_conversation (conversation_id "${conv.id}", from/to).`
+          : null,
+      ].filter(Boolean);
       return {
-        content: [{ type: "text" as const, text: `${header}\n\n${formatted}` }],
+        messages: [
+          {
+            role: "user" as const,
+            content: {
+              type: "text" as const,
+              text: `${instructions.join(" ")}\n\n${header}\n\n${slice.text}`,
+            },
+          },
+        ],
       };
     }
   );
@@ -312,46 +705,69 @@ export async function startMcpServer(): Promise<void> {
       const { encryptionKey, identityKey, walletAddress } = resolveIdentity(passphrase);
       const useTestnet = process.env.SHAREDCONTEXT_TESTNET === "true";
 
-      const backend = new TurboBackend({
+      const backend = createStorageBackend({
         privateKeyHex: Buffer.from(identityKey).toString("hex"),
         testnet: useTestnet,
       });
+      const syncReader = getReader();
+
+      // Pull before push on every tick, and never let two ticks overlap:
+      // both advance current_version. Every tick (and startup) also
+      // resumes uploads left in the outbox.
+      let syncing = false;
+      const syncFacts = async (push: boolean) => {
+        if (syncing) return;
+        syncing = true;
+        try {
+          await pullRemoteFacts(db, encryptionKey, walletAddress, syncReader);
+          if (push) {
+            queueDirtyFacts(db, encryptionKey, identityKey, walletAddress);
+          }
+          await flushUploads(db, backend);
+        } finally {
+          syncing = false;
+        }
+      };
 
+      void syncFacts(false);
       syncTimer = setInterval(() => {
-        syncDirtyFacts(db, encryptionKey, identityKey, walletAddress, backend);
+        void syncFacts(true);
       }, SYNC_INTERVAL_MS);
 
-      const watcher = new ConversationWatcher(async (conversation) => {
+      const watcher = new ConversationWatcher(async (conversation, file) => {
         try {
-          const stateKey = `conversation_offset:${conversation.client}:${conversation.id}`;
-          const lastSyncedRaw = getMeta(db, stateKey);
-          const lastSynced = Number.parseInt(lastSyncedRaw ?? "0", 10);
-          const txIds = await pushConversationDelta(
+          indexLocalConversation(db, conversation, file);
+        } catch (err) {
+          process.stderr.write(
+            `SharedContext: conversation index update failed: ${toErrorMessage(err)}\n`
+          );
+        }
+        try {
+          const chunks = enqueueConversationDelta(
+            db,
             conversation,
             encryptionKey,
             walletAddress,
-            identityKey,
-            backend,
-            Number.isFinite(lastSynced) ? lastSynced : 0
+            identityKey
           );
-          if (txIds.length === 0) return;
-          setMeta(db, stateKey, String(conversation.messages.length));
+          if (chunks === 0) return;
           process.stderr.write(
-            `SharedContext: conversation synced [${conversation.client}/${conversation.project}] ${txIds.length} chunk(s), cursor=${conversation.messages.length}\n`
+            `SharedContext: conversation queued [${conversation.client}/${conversation.project}] ${chunks} chunk(s), cursor=${conversation.messages.length}\n`
           );
+          await flushUploads(db, backend);
         } catch (err) {
           process.stderr.write(
             `SharedContext: conversation sync failed: ${toErrorMessage(err)}\n`
           );
         }
-      }, 10_000);
+      }, { intervalMs: 10_000, sources, db });
       watcher.start();
 
       process.stderr.write(
-        `SharedContext: auto-sync every ${SYNC_INTERVAL_MS / 1000}s → Arweave (${useTestnet ? "testnet" : "mainnet"})\n`
+        `SharedContext: auto-sync (pull + push) every ${SYNC_INTERVAL_MS / 1000}s ↔ ${describeStorage(useTestnet)}\n`
       );
       process.stderr.write(
-        "SharedContext: conversation watcher active (Cursor + Claude Code)\n"
+        `SharedContext: conversation watcher active (${sources.map((s) => s.name).join(" + ")}, ${watcher.isWatching() ? "file events" : "polling every 10s"})\n`
       );
     } else {
       process.stderr.write(
@@ -373,59 +789,92 @@ export async function startMcpServer(): Promise<void> {
   process.on("SIGTERM", shutdown);
 }
 
-async function syncDirtyFacts(
+async function pullRemoteFacts(
   db: Database.Database,
   encryptionKey: Uint8Array,
-  identityKey: Uint8Array,
   walletAddress: string,
-  backend: TurboBackend
+  reader: StorageReader
 ): Promise<void> {
   try {
-    const dirtyFacts = getDirtyFacts(db);
-    const pendingDeletes = getPendingDeletes(db);
-
-    if (dirtyFacts.length === 0 && pendingDeletes.length === 0) return;
-
-    const operations: ShardOperation[] = [
-      ...dirtyFacts.map(factToUpsertOp),
-      ...pendingDeletes.map((key): ShardOperation => ({ op: "delete", key })),
-    ];
-
-    const currentVersion = parseInt(getMeta(db, "current_version") ?? "0", 10);
-    const startVersion = currentVersion + 1;
-
-    const shards = createChunkedShards(operations, startVersion, uuidv4());
-    let lastVersion = currentVersion;
+    const result = await pullRemoteChanges(db, walletAddress, encryptionKey, reader);
+    if (!result) return;
+    process.stderr.write(
+      `SharedContext: pulled through v${result.version} (${result.upserted} upserted, ${result.deleted} deleted)\n`
+    );
+    if (result.conflictCount > 0) {
+      process.stderr.write(
+        `SharedContext: ${result.conflictCount} fact(s) diverged across devices; see \`sharedcontext conflicts\`\n`
+      );
+    }
+  } catch (err) {
+    process.stderr.write(
+      `SharedContext: pull failed, will retry: ${toErrorMessage(err)}\n`
+    );
+  }
+}
 
-    for (const shard of shards) {
-      const serialized = serializeShard(shard);
-      const encrypted = encrypt(serialized, encryptionKey);
+/**
+ * Move local changes into the outbox (and a snapshot when one is due).
+ * Uploading happens in flushUploads.
+ */
+function queueDirtyFacts(
+  db: Database.Database,
+  encryptionKey: Uint8Array,
+  identityKey: Uint8Array,
+  walletAddress: string
+): void {
+  try {
+    const sessionId = uuidv4();
+    const queued = enqueueDirtyFacts(db, encryptionKey, walletAddress, identityKey, sessionId);
+    if (!queued) return;
+    process.stderr.write(
+      `SharedContext: queued v${queued.version} (${queued.operations} ops, ${queued.shards} shard(s), ${queued.bytes}B)\n`
+    );
 
-      const txId = await pushShard(
-        encrypted,
-        shard.shard_version,
-        "delta",
-        walletAddress,
-        identityKey,
-        backend
+    if (isSnapshotDue(db)) {
+      const snapshot = enqueueSnapshot(db, encryptionKey, walletAddress, identityKey, sessionId);
+      process.stderr.write(
+        `SharedContext: snapshot v${snapshot.version} queued (${snapshot.factCount} facts, ${snapshot.parts} part(s))\n`
       );
+    }
+  } catch (err) {
+    process.stderr.write(
+      `SharedContext: could not queue changes, will retry: ${toErrorMessage(err)}\n`
+    );
+  }
+}
 
-      lastVersion = shard.shard_version;
+async function flushUploads(
+  db: Database.Database,
+  backend: StorageBackend
+): Promise<void> {
+  try {
+    const result = await flushOutbox(db, backend, {
+      onSent: (item, txId) => {
+        process.stderr.write(`SharedContext: synced ${item.label} → ${txId}\n`);
+      },
+      onError: (item, message) => {
+        process.stderr.write(
+          `SharedContext: upload of ${item.label} failed, will retry: ${message}\n`
+        );
+      },
+    });
+    if (result.failed > 0) {
       process.stderr.write(
-        `SharedContext: synced v${shard.shard_version} (${operations.length} ops, ${encrypted.length}B) → ${txId}\n`
+        `SharedContext: ${result.remaining} upload(s) waiting; see \`sharedcontext outbox\`\n`
       );
     }
-
-    clearDirtyState(db);
-    setMeta(db, "current_version", String(lastVersion));
-    setMeta(db, "last_pushed_version", String(lastVersion));
   } catch (err) {
     process.stderr.write(
-      `SharedContext: sync failed, will retry: ${toErrorMessage(err)}\n`
+      `SharedContext: outbox flush failed: ${toErrorMessage(err)}\n`
     );
   }
 }
 
+function describeShare(share: { shareId: string; wallet: string | null }): string {
+  return `shared by ${share.wallet ?? "unknown wallet"} (share ${share.shareId})`;
+}
+
 function tokenizeTopic(topic: string): string[] {
   const tokens = topic
     .toLowerCase()
@@ -438,7 +887,7 @@ function tokenizeTopic(topic: string): string[] {
 function scoreConversation(conv: Conversation, topicTokens: string[]): number {
   if (topicTokens.length === 0) return 0;
 
-  const text = conv.messages.map((m) => m.content).join(" ").toLowerCase();
+  const text = conv.messages.map(messageSearchText).join(" ").toLowerCase();
   const tokenSet = new Set(text.split(/[^a-z0-9]+/).filter(Boolean));
 
   let exactTokenMatches = 0;
@@ -15,7 +15,8 @@ import { encrypt, decrypt, deriveKey, generateSalt } from "../core/crypto.js";
 import { createShard, serializeShard, deserializeShard, replayShards } from "../core/shard.js";
 import { buildShardTags } from "../core/sync.js";
 import { TurboBackend } from "../core/backends/turbo.js";
-import { queryShards, downloadShard } from "../core/arweave.js";
+import { ArweaveReader } from "../core/arweave.js";
+import { queryShards } from "../core/remote.js";
 import type { ShardOperation } from "../types.js";
 
 const TEST_KEY = process.env.SHAREDCONTEXT_TEST_PRIVATE_KEY;
@@ -93,7 +94,7 @@ run("arweave integration (testnet)", () => {
     console.log("  Waiting 5s for Arweave indexing...");
     await new Promise((r) => setTimeout(r, 5000));
 
-    const downloaded = await downloadShard(uploadedTxId);
+    const downloaded = await new ArweaveReader().fetchData(uploadedTxId);
     assert.ok(downloaded.length > 0);
     assert.deepEqual(downloaded, uploadedEncrypted);
     console.log(`  Downloaded ${downloaded.length} bytes, matches upload`);
@@ -102,7 +103,7 @@ run("arweave integration (testnet)", () => {
   it("can decrypt and replay the downloaded shard", async () => {
     assert.ok(uploadedTxId, "No tx ID from previous test");
 
-    const downloaded = await downloadShard(uploadedTxId);
+    const downloaded = await new ArweaveReader().fetchData(uploadedTxId);
 
     // Verify signature
     // We need to find the signature - re-sign to compare
@@ -125,7 +126,7 @@ run("arweave integration (testnet)", () => {
 
   it("can find shards via GraphQL query", async () => {
     // This might not find the shard immediately if Arweave hasn't indexed it yet
-    const shards = await queryShards(walletAddress);
+    const shards = await queryShards(new ArweaveReader(), walletAddress);
     console.log(`  Found ${shards.length} shard(s) for wallet ${walletAddress}`);
     // We just check it doesn't throw - indexing can be delayed
     assert.ok(Array.isArray(shards));
@@ -0,0 +1,110 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseCodexJSONL, readCodexSessionMeta, codexSessionId } from "../core/parsers/codex.js";
+import { discoverConversationFiles } from "../core/sources.js";
+
+const SESSION_ID = "0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b";
+
+function line(timestamp: string, type: string, payload: Record<string, unknown>): string {
+  return JSON.stringify({ timestamp, type, payload });
+}
+
+const ROLLOUT = [
+  line("2026-03-01T10:00:00.000Z", "session_meta", {
+    id: SESSION_ID,
+    timestamp: "2026-03-01T10:00:00.000Z",
+    cwd: "/home/dev/work/billing-api",
+    instructions: "x".repeat(200_000),
+  }),
+  line("2026-03-01T10:00:01.000Z", "response_item", {
+    type: "message",
+    role: "user",
+    content: [{ type: "input_text", text: "<environment_context>\n  <cwd>/home/dev</cwd>\n</environment_context>" }],
+  }),
+  line("2026-03-01T10:00:02.000Z", "response_item", {
+    type: "message",
+    role: "user",
+    content: [{ type: "input_text", text: "Why does the invoice job retry twice?" }],
+  }),
+  line("2026-03-01T10:00:02.500Z", "event_msg", { type: "user_message", message: "Why does the invoice job retry twice?" }),
+  line("2026-03-01T10:00:03.000Z", "response_item", { type: "reasoning", summary: [] }),
+  line("2026-03-01T10:00:04.000Z", "response_item", {
+    type: "function_call",
+    name: "shell",
+    arguments: "{\"command\":[\"rg\",\"retry\"]}",
+    call_id: "call_1",
+  }),
+  line("2026-03-01T10:00:05.000Z", "response_item", { type: "function_call_output", call_id: "call_1", output: "..." }),
+  line("2026-03-01T10:00:06.000Z", "response_item", {
+    type: "message",
+    role: "assistant",
+    content: [{ type: "output_text", text: "The queue and the job both retry." }],
+  }),
+  "not json",
+].join("\n");
+
+describe("codex parser", () => {
+  it("extracts user and assistant text from rollout files", () => {
+    const conv = parseCodexJSONL(ROLLOUT, SESSION_ID, "billing-api");
+    assert.equal(conv.client, "codex");
+    assert.deepEqual(
+      conv.messages.map((m) => [m.role, m.content]),
+      [
+        ["user", "Why does the invoice job retry twice?"],
+        ["assistant", "The queue and the job both retry."],
+      ]
+    );
+    assert.equal(conv.startedAt, "2026-03-01T10:00:00.000Z");
+    assert.equal(conv.updatedAt, "2026-03-01T10:00:06.000Z");
+  });
+
+  it("reads the older header-less item format", () => {
+    const text = [
+      JSON.stringify({ id: SESSION_ID, timestamp: "2025-05-01T09:00:00.000Z", instructions: null }),
+      JSON.stringify({ type: "message", role: "user", content: [{ type: "input_text", text: "hello" }] }),
+      JSON.stringify({ record_type: "state" }),
+      JSON.stringify({ type: "message", role: "assistant", content: [{ type: "output_text", text: "hi" }] }),
+    ].join("\n");
+    const conv = parseCodexJSONL(text, SESSION_ID, "app");
+    assert.deepEqual(conv.messages.map((m) => m.content), ["hello", "hi"]);
+    assert.equal(conv.startedAt, "2025-05-01T09:00:00.000Z");
+  });
+
+  describe("discovery", () => {
+    let home: string;
+
+    before(() => {
+      home = mkdtempSync(join(tmpdir(), "sharedcontext-codex-"));
+      process.env.CODEX_HOME = home;
+    });
+
+    after(() => {
+      delete process.env.CODEX_HOME;
+      rmSync(home, { recursive: true, force: true });
+    });
+
+    it("finds sessions under CODEX_HOME and names the project after the cwd", () => {
+      const dayDir = join(home, "sessions", "2026", "03", "01");
+      mkdirSync(dayDir, { recursive: true });
+      const path = join(dayDir, `rollout-2026-03-01T10-00-00-${SESSION_ID}.jsonl`);
+      writeFileSync(path, ROLLOUT);
+      writeFileSync(join(dayDir, "empty.jsonl"), "");
+
+      const meta = readCodexSessionMeta(path);
+      assert.equal(meta.cwd, "/home/dev/work/billing-api");
+
+      const codexFiles = discoverConversationFiles().filter((f) => f.client === "codex");
+      assert.deepEqual(codexFiles, [
+        { path, client: "codex", format: "jsonl", project: "billing-api", fileId: SESSION_ID },
+      ]);
+    });
+
+    it("falls back to the id in the file name", () => {
+      const path = join(home, `rollout-2026-03-02T08-00-00-${SESSION_ID}.jsonl`);
+      assert.equal(codexSessionId(path, { id: null, cwd: null, timestamp: null }), SESSION_ID);
+    });
+  });
+});
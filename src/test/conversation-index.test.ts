@@ -0,0 +1,181 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, utimesSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type Database from "better-sqlite3";
+import {
+  getIndexedConversations,
+  indexConversation,
+  openDatabase,
+  saveSharedConversationImport,
+  searchConversations,
+} from "../core/db.js";
+import {
+  indexSharedConversations,
+  refreshLocalConversationIndex,
+} from "../core/conversation-index.js";
+import { createMappedJsonlSource, type ConversationSource } from "../core/sources.js";
+import type { Conversation, ConversationMessage } from "../types.js";
+
+function conversation(
+  id: string,
+  messages: ConversationMessage[],
+  overrides: Partial<Conversation> = {}
+): Conversation {
+  return {
+    id,
+    client: "claude-code",
+    project: "api",
+    startedAt: "2026-05-01T09:00:00.000Z",
+    updatedAt: "2026-05-01T10:00:00.000Z",
+    messages,
+    ...overrides,
+  };
+}
+
+function line(role: string, content: string): string {
+  return JSON.stringify({ role, content }) + "\n";
+}
+
+describe("conversation search index", () => {
+  let dir: string;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sharedcontext-convindex-"));
+    db = openDatabase(join(dir, "test.db"));
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("ranks matching messages and returns snippets with message offsets", () => {
+    indexConversation(
+      db,
+      conversation("c1", [
+        { role: "user", content: "The webhook retry loop never stops" },
+        { role: "assistant", content: "Cap webhook retries at five with exponential backoff." },
+        { role: "user", content: "Thanks" },
+      ]),
+      "local"
+    );
+    indexConversation(
+      db,
+      conversation("c2", [{ role: "user", content: "Rename the billing module" }], { client: "cursor", project: "web" }),
+      "local"
+    );
+
+    const hits = searchConversations(db, "webhook retries");
+    assert.deepEqual(
+      hits.map((h) => [h.conversationId, h.messageIndex]).sort(),
+      [["c1", 0], ["c1", 1]]
+    );
+    assert.match(hits.find((h) => h.messageIndex === 1)!.snippet, /\[webhook\] \[retries\]/);
+
+    assert.equal(searchConversations(db, "billing", { client: "claude-code" }).length, 0);
+    assert.equal(searchConversations(db, "billing", { project: "web" })[0].conversationId, "c2");
+  });
+
+  it("rewrites only changed messages and drops ones past the new end", () => {
+    indexConversation(
+      db,
+      conversation("c1", [
+        { role: "user", content: "alpha question" },
+        { role: "assistant", content: "beta answer" },
+        { role: "user", content: "gamma follow-up" },
+      ]),
+      "local"
+    );
+    indexConversation(
+      db,
+      conversation("c1", [
+        { role: "user", content: "alpha question" },
+        { role: "assistant", content: "delta answer" },
+      ]),
+      "local"
+    );
+
+    assert.equal(searchConversations(db, "beta").length, 0);
+    assert.equal(searchConversations(db, "gamma").length, 0);
+    assert.equal(searchConversations(db, "delta")[0].messageIndex, 1);
+    assert.equal(searchConversations(db, "alpha").length, 1);
+    assert.equal(getIndexedConversations(db)[0].messageCount, 2);
+  });
+
+  it("keeps the local entry when the same conversation is pulled", () => {
+    indexConversation(db, conversation("c1", [{ role: "user", content: "local copy" }]), "local", {
+      path: "/tmp/c1.jsonl",
+      mtimeMs: 1,
+    });
+    indexConversation(db, conversation("c1", [{ role: "user", content: "remote copy" }]), "remote");
+    indexConversation(db, conversation("c9", [{ role: "user", content: "remote only" }]), "remote");
+
+    const entries = getIndexedConversations(db);
+    assert.equal(entries.find((c) => c.conversationId === "c1")?.origin, "local");
+    assert.equal(entries.find((c) => c.conversationId === "c9")?.origin, "remote");
+    assert.equal(searchConversations(db, "remote").map((h) => h.conversationId).join(), "c9");
+  });
+
+  it("indexes imported shares with the sharer's wallet, below conversations of our own", () => {
+    saveSharedConversationImport(db, {
+      shareId: "share-1",
+      txId: "tx-1",
+      wallet: "0xsharer",
+      conversation: conversation("s1", [{ role: "user", content: "kafka consumer lag" }]),
+    });
+    saveSharedConversationImport(db, {
+      shareId: "share-2",
+      txId: "tx-2",
+      wallet: "0xsharer",
+      conversation: conversation("c1", [{ role: "user", content: "shared copy of ours" }]),
+    });
+    indexConversation(db, conversation("c1", [{ role: "user", content: "our own copy" }]), "remote");
+
+    assert.equal(indexSharedConversations(db), 2);
+    const [hit] = searchConversations(db, "kafka");
+    assert.equal(hit.conversationId, "s1");
+    assert.equal(hit.sharedBy, "0xsharer");
+    assert.equal(searchConversations(db, "shared").length, 0);
+    assert.equal(searchConversations(db, "own")[0].sharedBy, null);
+
+    // A local file of the same conversation takes over the shared entry.
+    indexConversation(db, conversation("s1", [{ role: "user", content: "kafka local" }]), "local");
+    assert.equal(searchConversations(db, "kafka")[0].sharedBy, null);
+  });
+
+  describe("refreshLocalConversationIndex", () => {
+    let logs: string;
+    let source: ConversationSource;
+
+    beforeEach(() => {
+      logs = join(dir, "logs");
+      mkdirSync(logs);
+      source = createMappedJsonlSource({
+        client: "test-agent",
+        directory: logs,
+        fields: { role: "role", content: "content" },
+      });
+    });
+
+    it("indexes new and changed files, skips unchanged ones and forgets deleted ones", () => {
+      const first = join(logs, "one.jsonl");
+      const second = join(logs, "two.jsonl");
+      writeFileSync(first, line("user", "flaky migration test"));
+      writeFileSync(second, line("user", "slow docker build"));
+
+      assert.deepEqual(refreshLocalConversationIndex(db, [source], {}), { indexed: 2, removed: 0 });
+      assert.deepEqual(refreshLocalConversationIndex(db, [source], {}), { indexed: 0, removed: 0 });
+
+      writeFileSync(first, line("user", "flaky migration test") + line("assistant", "Pin the seed."));
+      utimesSync(first, new Date(), new Date(Date.now() + 5_000));
+      unlinkSync(second);
+
+      assert.deepEqual(refreshLocalConversationIndex(db, [source], {}), { indexed: 1, removed: 1 });
+      assert.equal(searchConversations(db, "seed")[0].client, "test-agent");
+      assert.equal(searchConversations(db, "docker").length, 0);
+    });
+  });
+});
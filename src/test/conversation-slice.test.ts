@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { conversationPreview, sliceConversation } from "../core/conversation-slice.js";
+import type { Conversation } from "../types.js";
+
+function conversation(contents: string[]): Conversation {
+  return {
+    id: "c1",
+    client: "codex",
+    project: "api",
+    startedAt: "2026-05-01T09:00:00.000Z",
+    updatedAt: "2026-05-01T10:00:00.000Z",
+    messages: contents.map((content, i) => ({
+      role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+      content,
+    })),
+  };
+}
+
+const TEN = conversation(Array.from({ length: 10 }, (_, i) => `message ${i}`));
+
+describe("sliceConversation", () => {
+  it("shows the tail that fits the budget, numbered", () => {
+    // "#9 [assistant]: message 9" is 25 characters; 15 tokens fit two of them.
+    const slice = sliceConversation(TEN, { tokenBudget: 15 });
+    assert.deepEqual(slice.indexes, [8, 9]);
+    assert.equal(slice.truncated, 8);
+    assert.equal(slice.text, "#8 [user]: message 8\n\n#9 [assistant]: message 9");
+  });
+
+  it("reads forward from 'from' and stays inside an explicit range", () => {
+    assert.deepEqual(sliceConversation(TEN, { from: 3, tokenBudget: 15 }).indexes, [3, 4]);
+    assert.deepEqual(sliceConversation(TEN, { from: 2, to: 4, tokenBudget: 10_000 }).indexes, [2, 3, 4]);
+    assert.deepEqual(sliceConversation(TEN, { to: 1, tokenBudget: 10_000 }).indexes, [0, 1]);
+    assert.deepEqual(sliceConversation(TEN, { from: 50, tokenBudget: 10_000 }).indexes, [9]);
+  });
+
+  it("shows matches with their neighbours and marks the gaps", () => {
+    const conv = conversation([
+      "set up the queue",
+      "done",
+      "what is the retry limit?",
+      "five",
+      "ok",
+      "unrelated",
+      "more unrelated",
+      "raise the RETRY limit to 8",
+      "raised",
+    ]);
+    const slice = sliceConversation(conv, { around: ["retry"], context: 1, tokenBudget: 10_000 });
+    assert.deepEqual(slice.matches, [2, 7]);
+    assert.deepEqual(slice.indexes, [1, 2, 3, 6, 7, 8]);
+    assert.match(slice.text, /#3 \[assistant\]: five\n\n\[… 2 message\(s\) skipped …\]\n\n#6/);
+
+    const tight = sliceConversation(conv, { around: ["retry"], context: 1, tokenBudget: 20 });
+    assert.deepEqual(tight.indexes, [2, 7]);
+  });
+
+  it("counts tool calls it leaves out", () => {
+    const conv = conversation(["run the tests", "done"]);
+    conv.messages[1].tools = [{ name: "Bash", input: "npm test" }];
+    assert.equal(sliceConversation(conv, { tokenBudget: 1_000 }).hiddenTools, 1);
+    const withTools = sliceConversation(conv, { tokenBudget: 1_000, includeTools: true });
+    assert.equal(withTools.hiddenTools, 0);
+    assert.match(withTools.text, /↳ Bash: npm test/);
+  });
+});
+
+describe("conversationPreview", () => {
+  it("uses the first user message on one line", () => {
+    const conv = conversation(["Fix the\n  login   test", "ok"]);
+    assert.equal(conversationPreview(conv), "Fix the login test");
+    assert.equal(conversationPreview(conv, 7), "Fix the…");
+  });
+});
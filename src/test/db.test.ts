@@ -11,13 +11,22 @@ import {
   getAllFacts,
   getFactsByScope,
   searchByTags,
+  searchFacts,
   getDirtyFacts,
   getPendingDeletes,
   clearDirtyState,
   incrementAccessCount,
   getMeta,
   setMeta,
+  getFactHistory,
+  getFactsAsOf,
+  getDeviceId,
+  getPendingDeleteEntries,
+  saveFactConflicts,
+  getFactConflicts,
+  resolveFactConflicts,
 } from "../core/db.js";
+import { compareHlc } from "../core/hlc.js";
 import type { Fact } from "../types.js";
 import type Database from "better-sqlite3";
 
@@ -157,6 +166,99 @@ describe("db", () => {
     });
   });
 
+  // -- Full-text search --
+
+  describe("searchFacts", () => {
+    it("finds facts by what their value says", () => {
+      upsertFact(db, makeFact({ key: "db:orm", value: "We use Drizzle ORM with PostgreSQL", tags: ["database"] }));
+      upsertFact(db, makeFact({ key: "style", id: "id-s", value: "Prefer tabs", tags: ["preference"] }));
+
+      const results = searchFacts(db, "postgresql");
+      assert.equal(results.length, 1);
+      assert.equal(results[0].fact.key, "db:orm");
+      assert.ok(results[0].score > 0);
+    });
+
+    it("ranks stronger matches first", () => {
+      upsertFact(db, makeFact({ key: "a", value: "auth uses sessions", tags: [] }));
+      upsertFact(db, makeFact({ key: "auth:jwt", id: "id-b", value: "auth tokens are JWT, auth refresh daily", tags: ["auth"] }));
+
+      const results = searchFacts(db, "auth");
+      assert.equal(results[0].fact.key, "auth:jwt");
+    });
+
+    it("stays in sync with updates and deletes", () => {
+      upsertFact(db, makeFact({ key: "k", value: "arweave storage" }));
+      upsertFact(db, makeFact({ key: "k", value: "ipfs storage" }));
+      assert.deepEqual(searchFacts(db, "arweave"), []);
+      assert.equal(searchFacts(db, "ipfs").length, 1);
+
+      deleteFact(db, "k");
+      assert.deepEqual(searchFacts(db, "ipfs"), []);
+    });
+
+    it("tolerates FTS syntax characters in the query", () => {
+      upsertFact(db, makeFact({ value: "node version 20" }));
+      assert.equal(searchFacts(db, 'node "version" (AND) OR*').length, 1);
+      assert.deepEqual(searchFacts(db, "!!!"), []);
+    });
+  });
+
+  // -- History --
+
+  describe("fact history", () => {
+    it("records the previous version on update", () => {
+      upsertFact(db, makeFact({ value: "v1", source_session: "s1", last_confirmed: "2026-01-01T00:00:00.000Z" }));
+      upsertFact(db, makeFact({ value: "v2", source_session: "s2", last_confirmed: "2026-01-05T00:00:00.000Z" }));
+
+      const history = getFactHistory(db, "test:key");
+      assert.equal(history.length, 1);
+      assert.equal(history[0].change, "update");
+      assert.equal(history[0].fact.value, "v1");
+      assert.equal(history[0].fact.source_session, "s1");
+      assert.equal(history[0].validFrom, "2026-01-01T00:00:00.000Z");
+      assert.equal(history[0].replacedAt, "2026-01-05T00:00:00.000Z");
+    });
+
+    it("does not record re-confirmations of the same value", () => {
+      upsertFact(db, makeFact({ value: "same" }));
+      upsertFact(db, makeFact({ value: "same", last_confirmed: "2026-02-01T00:00:00.000Z" }));
+      assert.deepEqual(getFactHistory(db, "test:key"), []);
+    });
+
+    it("records deletes", () => {
+      upsertFact(db, makeFact({ value: "doomed" }));
+      deleteFact(db, "test:key");
+      const history = getFactHistory(db, "test:key");
+      assert.equal(history.length, 1);
+      assert.equal(history[0].change, "delete");
+      assert.equal(history[0].fact.value, "doomed");
+    });
+
+    it("reconstructs facts as of a point in time", () => {
+      upsertFact(db, makeFact({ key: "a", value: "a1", created: "2026-01-01T00:00:00.000Z", last_confirmed: "2026-01-01T00:00:00.000Z" }));
+      upsertFact(db, makeFact({ key: "a", value: "a2", last_confirmed: "2026-01-10T00:00:00.000Z" }));
+      upsertFact(db, makeFact({ key: "a", value: "a3", last_confirmed: "2026-01-20T00:00:00.000Z" }));
+      upsertFact(db, makeFact({ key: "b", id: "id-b", value: "b1", created: "2026-01-15T00:00:00.000Z", last_confirmed: "2026-01-15T00:00:00.000Z" }));
+
+      const byKey = (asOf: string) =>
+        Object.fromEntries(getFactsAsOf(db, asOf).map((f) => [f.key, f.value]));
+
+      assert.deepEqual(byKey("2025-12-31T00:00:00.000Z"), {});
+      assert.deepEqual(byKey("2026-01-05T00:00:00.000Z"), { a: "a1" });
+      assert.deepEqual(byKey("2026-01-16T00:00:00.000Z"), { a: "a2", b: "b1" });
+      assert.deepEqual(byKey("2026-01-25T00:00:00.000Z"), { a: "a3", b: "b1" });
+    });
+
+    it("includes facts deleted after the point in time", () => {
+      upsertFact(db, makeFact({ key: "gone", value: "was here", created: "2026-01-01T00:00:00.000Z" }));
+      deleteFact(db, "gone");
+      const facts = getFactsAsOf(db, "2026-01-02T00:00:00.000Z");
+      assert.deepEqual(facts.map((f) => f.value), ["was here"]);
+      assert.deepEqual(getFactsAsOf(db, new Date(Date.now() + 60_000).toISOString()), []);
+    });
+  });
+
   // -- Access count --
 
   describe("incrementAccessCount", () => {
@@ -247,4 +349,68 @@ describe("db", () => {
       assert.equal(getFact(db, "a")!.value, "back");
     });
   });
+
+  // -- Clocks and conflicts --
+
+  describe("hybrid logical clocks", () => {
+    it("keeps a stable device id", () => {
+      const id = getDeviceId(db);
+      assert.ok(id.length > 0);
+      assert.equal(getDeviceId(db), id);
+    });
+
+    it("stamps local writes with increasing clocks", () => {
+      upsertFact(db, makeFact({ id: "id-a", key: "a" }));
+      upsertFact(db, makeFact({ id: "id-b", key: "b" }));
+      const a = getFact(db, "a")!.hlc!;
+      const b = getFact(db, "b")!.hlc!;
+      assert.ok(a.endsWith(getDeviceId(db)));
+      assert.ok(compareHlc(a, b) < 0);
+    });
+
+    it("keeps the clock of replayed facts and orders later writes after it", () => {
+      const remote = "999999999999999:00003:other-device";
+      upsertFact(db, makeFact({ id: "id-a", key: "a", hlc: remote }));
+      assert.equal(getFact(db, "a")!.hlc, remote);
+
+      upsertFact(db, makeFact({ id: "id-b", key: "b" }));
+      assert.ok(compareHlc(getFact(db, "b")!.hlc!, remote) > 0);
+    });
+
+    it("stamps deletes", () => {
+      upsertFact(db, makeFact({ key: "a" }));
+      deleteFact(db, "a");
+      const [entry] = getPendingDeleteEntries(db);
+      assert.equal(entry.key, "a");
+      assert.ok(entry.hlc);
+    });
+  });
+
+  describe("fact conflicts", () => {
+    const conflict = {
+      key: "k",
+      shard_version: 2,
+      candidates: [
+        { device_id: "a", session_id: "s1", op: "upsert" as const, value: "one" },
+        { device_id: "b", session_id: "s2", op: "delete" as const },
+      ],
+      winner: 1,
+    };
+
+    it("stores each conflict once", () => {
+      assert.equal(saveFactConflicts(db, [conflict]), 1);
+      assert.equal(saveFactConflicts(db, [conflict]), 0);
+      const stored = getFactConflicts(db);
+      assert.equal(stored.length, 1);
+      assert.deepEqual(stored[0].candidates, conflict.candidates);
+      assert.equal(stored[0].resolvedAt, null);
+    });
+
+    it("hides resolved conflicts unless asked", () => {
+      saveFactConflicts(db, [conflict]);
+      resolveFactConflicts(db, "k");
+      assert.equal(getFactConflicts(db).length, 0);
+      assert.equal(getFactConflicts(db, { includeResolved: true }).length, 1);
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { recallContext, formatContext, MODEL_BUDGETS } from "../core/engine.js";
+import { recallContext, formatContext, getTokenBudget, MODEL_BUDGETS } from "../core/engine.js";
 import type { Fact } from "../types.js";
 
 function makeFact(overrides: Partial<Fact> = {}): Fact {
@@ -77,6 +77,18 @@ describe("engine", () => {
     });
   });
 
+  describe("full-text scoring", () => {
+    it("facts matching by value rank above unrelated ones", () => {
+      const facts = [
+        makeFact({ key: "style", id: "id-1", tags: [] }),
+        makeFact({ key: "db", id: "id-2", value: "Drizzle ORM on PostgreSQL", tags: [] }),
+      ];
+      const textScores = new Map([["db", 3.2]]);
+      const result = recallContext("postgresql", "global", facts, undefined, { textScores });
+      assert.equal(result[0].key, "db");
+    });
+  });
+
   describe("recency scoring", () => {
     it("recently confirmed facts rank higher than old ones (all else equal)", () => {
       const now = new Date();
@@ -120,6 +132,13 @@ describe("engine", () => {
       const maxFacts = Math.floor((defaultBudget.window * defaultBudget.allocation) / 50);
       assert.ok(result.length <= maxFacts + 1); // +1 for rounding tolerance
     });
+
+    it("matches dated and suffixed model ids by their longest listed prefix", () => {
+      assert.equal(getTokenBudget("claude-sonnet-4-5-20250929"), 30_000);
+      assert.equal(getTokenBudget("gpt-4o-mini-2024-07-18"), 19_200);
+      assert.equal(getTokenBudget("GPT-4.1"), 150_000);
+      assert.equal(getTokenBudget("some-future-model"), getTokenBudget());
+    });
   });
 
   describe("formatContext", () => {
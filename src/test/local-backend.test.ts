@@ -0,0 +1,377 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { LocalDirectoryBackend } from "../core/backends/local.js";
+import { createStorageReader } from "../core/backends/index.js";
+import { queryShards, fetchIdentity, queryConversationShare, queryAllByTags } from "../core/remote.js";
+import {
+  enqueueDirtyFacts,
+  pushIdentity,
+  pushShard,
+  pullAndReconstruct,
+  pullRemoteChanges,
+  enqueueSnapshot,
+} from "../core/sync.js";
+import { flushOutbox } from "../core/outbox.js";
+import { generateKeypair } from "../core/identity.js";
+import { encrypt, deriveKey, generateSalt } from "../core/crypto.js";
+import { createShard, serializeShard } from "../core/shard.js";
+import {
+  openDatabase,
+  getFact,
+  getAllFacts,
+  getMeta,
+  setMeta,
+  upsertFact,
+  deleteFact,
+  getOutboxItems,
+  getOutboxPayload,
+} from "../core/db.js";
+import type { Tag } from "../core/storage.js";
+
+const PASSPHRASE = "local backend test passphrase";
+
+describe("local directory backend", () => {
+  let root: string;
+  let storageDir: string;
+  let backend: LocalDirectoryBackend;
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), "sharedcontext-local-"));
+    storageDir = join(root, "storage");
+    backend = new LocalDirectoryBackend({ directory: storageDir });
+    process.env.SHAREDCONTEXT_STORAGE_DIR = storageDir;
+  });
+
+  after(() => {
+    delete process.env.SHAREDCONTEXT_STORAGE_DIR;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("stores blobs and finds them by tags", async () => {
+    const tags: Tag[] = [
+      { name: "App-Name", value: "sharedcontext-test" },
+      { name: "Kind", value: "a" },
+    ];
+    const first = await backend.upload(new Uint8Array([1, 2, 3]), tags);
+    const second = await backend.upload(new Uint8Array([4]), [
+      { name: "App-Name", value: "sharedcontext-test" },
+      { name: "Kind", value: "b" },
+    ]);
+
+    const all = await backend.queryByTags([{ name: "App-Name", values: ["sharedcontext-test"] }]);
+    assert.deepEqual(all.transactions.map((t) => t.txId), [first.txId, second.txId]);
+    assert.equal(all.cursor, null);
+
+    const onlyA = await backend.queryByTags([{ name: "Kind", values: ["a"] }]);
+    assert.deepEqual(onlyA.transactions.map((t) => t.txId), [first.txId]);
+
+    const newest = await backend.queryByTags(
+      [{ name: "App-Name", values: ["sharedcontext-test"] }],
+      { newestFirst: true, pageSize: 1 }
+    );
+    assert.deepEqual(newest.transactions.map((t) => t.txId), [second.txId]);
+    assert.ok(newest.cursor);
+
+    const paged = await queryAllByTags(
+      backend,
+      [{ name: "App-Name", values: ["sharedcontext-test"] }],
+      { pageSize: 1 }
+    );
+    assert.deepEqual(paged.map((t) => t.txId), [first.txId, second.txId]);
+
+    assert.deepEqual([...(await backend.fetchData(first.txId))], [1, 2, 3]);
+    assert.equal((await backend.fetchTags(first.txId))?.tags.get("Kind"), "a");
+  });
+
+  it("rejects ids that are not transaction ids", async () => {
+    await assert.rejects(() => backend.fetchData("../../etc/passwd"), /Invalid transaction id/);
+    assert.equal(await backend.fetchTags("../x"), null);
+  });
+
+  it("enforces size limits on reads", async () => {
+    const { txId } = await backend.upload(new Uint8Array(64), []);
+    await assert.rejects(() => backend.fetchData(txId, 10), /too large/);
+  });
+
+  it("is the configured reader when a storage directory is set", async () => {
+    const { txId } = await backend.upload(new Uint8Array([9]), [
+      { name: "App-Name", value: "sharedcontext" },
+      { name: "Type", value: "conversation-share" },
+      { name: "Share-Id", value: "share-1" },
+      { name: "Wallet", value: "0xabc" },
+      { name: "Signature", value: "0xsig" },
+    ]);
+    const reader = createStorageReader();
+    assert.ok(reader instanceof LocalDirectoryBackend);
+    const share = await queryConversationShare(reader, "share-1");
+    assert.equal(share?.txId, txId);
+    assert.deepEqual([...(await reader.fetchData(txId))], [9]);
+    assert.equal(await queryConversationShare(reader, "missing"), null);
+  });
+
+  it("runs push, restore and incremental pull offline", async () => {
+    const keypair = generateKeypair();
+    const salt = generateSalt();
+    const key = deriveKey(PASSPHRASE, salt);
+    await pushIdentity(
+      salt,
+      encrypt(keypair.privateKey, key),
+      keypair.address,
+      keypair.privateKey,
+      backend
+    );
+
+    const push = async (version: number, ops: Parameters<typeof createShard>[0]) => {
+      const shard = createShard(ops, version, `session-${version}`, "laptop");
+      await pushShard(
+        encrypt(serializeShard(shard), key),
+        version,
+        "delta",
+        keypair.address,
+        keypair.privateKey,
+        backend
+      );
+    };
+    await push(1, [{ op: "upsert", key: "db:orm", value: "prisma", tags: ["orm"], scope: "global" }]);
+
+    const identity = await fetchIdentity(backend, keypair.address);
+    assert.deepEqual([...(identity?.salt ?? [])], [...salt]);
+    assert.equal((await queryShards(backend, keypair.address)).filter((s) => s.type === "delta").length, 1);
+
+    const dbPath = join(root, "restored.db");
+    const restored = await pullAndReconstruct(keypair.address, PASSPHRASE, dbPath, backend);
+    assert.equal(restored.factCount, 1);
+    assert.equal(restored.version, 1);
+
+    await push(2, [{ op: "upsert", key: "db:engine", value: "postgres", tags: [], scope: "global" }]);
+
+    const db = openDatabase(dbPath);
+    try {
+      const pulled = await pullRemoteChanges(db, keypair.address, key, backend);
+      assert.equal(pulled?.version, 2);
+      assert.equal(pulled?.upserted, 1);
+      assert.equal(getFact(db, "db:engine")?.value, "postgres");
+      assert.equal(getAllFacts(db).length, 2);
+      assert.equal(getMeta(db, "last_pulled_version"), "2");
+
+      // Nothing newer: no work.
+      assert.equal(await pullRemoteChanges(db, keypair.address, key, backend), null);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("pulls a delta uploaded late under a version other devices already passed", async () => {
+    const keypair = generateKeypair();
+    const key = deriveKey(PASSPHRASE, generateSalt());
+    const laptop = openDatabase(join(root, "late-laptop.db"));
+    const desktop = openDatabase(join(root, "late-desktop.db"));
+    try {
+      // The desktop queues v1 while offline.
+      const now = new Date().toISOString();
+      upsertFact(desktop, {
+        id: "fact-editor",
+        scope: "global",
+        key: "pref:editor",
+        value: "vim",
+        tags: [],
+        confidence: 1,
+        source_session: null,
+        created: now,
+        last_confirmed: now,
+        access_count: 0,
+      });
+      assert.equal(enqueueDirtyFacts(desktop, key, keypair.address, keypair.privateKey, "desk")?.version, 1);
+
+      // Meanwhile another device pushes v1 and v2, and the laptop pulls both.
+      for (const version of [1, 2]) {
+        const shard = createShard(
+          [{ op: "upsert", key: `phone:${version}`, value: "x", tags: [], scope: "global" }],
+          version,
+          "phone-session",
+          "phone"
+        );
+        await pushShard(encrypt(serializeShard(shard), key), version, "delta", keypair.address, keypair.privateKey, backend);
+      }
+      assert.equal((await pullRemoteChanges(laptop, keypair.address, key, backend))?.upserted, 2);
+      assert.equal(getMeta(laptop, "last_pulled_version"), "2");
+
+      // The desktop comes back online and uploads its v1.
+      assert.equal((await flushOutbox(desktop, backend)).sent, 1);
+
+      const late = await pullRemoteChanges(laptop, keypair.address, key, backend);
+      assert.equal(late?.upserted, 1);
+      assert.equal(getFact(laptop, "pref:editor")?.value, "vim");
+      assert.equal(await pullRemoteChanges(laptop, keypair.address, key, backend), null);
+
+      // The desktop does not download its own shard again.
+      assert.equal((await pullRemoteChanges(desktop, keypair.address, key, backend))?.upserted, 2);
+      assert.equal(await pullRemoteChanges(desktop, keypair.address, key, backend), null);
+    } finally {
+      laptop.close();
+      desktop.close();
+    }
+  });
+
+  it("applies a shard re-sent after a crash only once", async () => {
+    const keypair = generateKeypair();
+    const key = deriveKey(PASSPHRASE, generateSalt());
+    const laptop = openDatabase(join(root, "resend-laptop.db"));
+    const desktop = openDatabase(join(root, "resend-desktop.db"));
+    try {
+      const now = new Date().toISOString();
+      upsertFact(desktop, {
+        id: "fact-shell",
+        scope: "global",
+        key: "pref:shell",
+        value: "zsh",
+        tags: [],
+        confidence: 1,
+        source_session: null,
+        created: now,
+        last_confirmed: now,
+        access_count: 0,
+      });
+      assert.equal(enqueueDirtyFacts(desktop, key, keypair.address, keypair.privateKey, "desk")?.version, 1);
+
+      // The upload lands but the process dies before the outbox records it.
+      const [item] = getOutboxItems(desktop);
+      const payload = getOutboxPayload(desktop, item.id)!;
+      await backend.upload(payload.data, payload.tags);
+      assert.equal((await flushOutbox(desktop, backend)).sent, 1);
+      assert.equal((await queryShards(backend, keypair.address)).length, 2);
+
+      assert.equal((await pullRemoteChanges(laptop, keypair.address, key, backend))?.upserted, 1);
+      assert.equal(await pullRemoteChanges(laptop, keypair.address, key, backend), null);
+      assert.equal(await pullRemoteChanges(desktop, keypair.address, key, backend), null);
+    } finally {
+      laptop.close();
+      desktop.close();
+    }
+  });
+
+  it("restores a delta uploaded after a snapshot that passed its version", async () => {
+    const keypair = generateKeypair();
+    const salt = generateSalt();
+    const key = deriveKey(PASSPHRASE, salt);
+    await pushIdentity(salt, encrypt(keypair.privateKey, key), keypair.address, keypair.privateKey, backend);
+
+    const desktop = openDatabase(join(root, "covers-desktop.db"));
+    const phone = openDatabase(join(root, "covers-phone.db"));
+    const laptop = openDatabase(join(root, "covers-laptop.db"));
+    const store = (db: typeof laptop, factKey: string, value: string) => {
+      const now = new Date().toISOString();
+      upsertFact(db, {
+        id: `fact-${factKey}`,
+        scope: "global",
+        key: factKey,
+        value,
+        tags: [],
+        confidence: 1,
+        source_session: null,
+        created: now,
+        last_confirmed: now,
+        access_count: 0,
+      });
+    };
+    try {
+      // The desktop queues v1 while offline.
+      store(desktop, "pref:editor", "vim");
+      assert.equal(enqueueDirtyFacts(desktop, key, keypair.address, keypair.privateKey, "desk")?.version, 1);
+
+      // The phone pushes its own v1; the laptop pulls it and deletes the fact again.
+      store(phone, "pref:pager", "less");
+      enqueueDirtyFacts(phone, key, keypair.address, keypair.privateKey, "phone");
+      assert.equal((await flushOutbox(phone, backend)).sent, 1);
+      assert.equal((await pullRemoteChanges(laptop, keypair.address, key, backend))?.upserted, 1);
+      deleteFact(laptop, "pref:pager");
+      store(laptop, "pref:theme", "dark");
+      assert.equal(enqueueDirtyFacts(laptop, key, keypair.address, keypair.privateKey, "lap")?.version, 2);
+      assert.equal(enqueueSnapshot(laptop, key, keypair.address, keypair.privateKey, "lap").version, 3);
+      assert.equal((await flushOutbox(laptop, backend)).sent, 2);
+
+      // The desktop comes back online after the snapshot.
+      assert.equal((await flushOutbox(desktop, backend)).sent, 1);
+
+      const dbPath = join(root, "covers-fresh.db");
+      const restored = await pullAndReconstruct(keypair.address, PASSPHRASE, dbPath, backend);
+      assert.equal(restored.factCount, 2);
+      const fresh = openDatabase(dbPath);
+      try {
+        assert.equal(getFact(fresh, "pref:editor")?.value, "vim");
+        assert.equal(getFact(fresh, "pref:theme")?.value, "dark");
+        // The phone's delta is in the snapshot and is not replayed over the delete.
+        assert.equal(getFact(fresh, "pref:pager"), null);
+      } finally {
+        fresh.close();
+      }
+
+      // Existing devices end up with the same facts.
+      assert.equal((await pullRemoteChanges(laptop, keypair.address, key, backend))?.upserted, 1);
+      assert.deepEqual(getAllFacts(laptop).map((f) => f.key).sort(), ["pref:editor", "pref:theme"]);
+    } finally {
+      desktop.close();
+      phone.close();
+      laptop.close();
+    }
+  });
+
+  it("restores one device's snapshot when two devices snapshot at the same version", async () => {
+    const keypair = generateKeypair();
+    const salt = generateSalt();
+    const key = deriveKey(PASSPHRASE, salt);
+    await pushIdentity(salt, encrypt(keypair.privateKey, key), keypair.address, keypair.privateKey, backend);
+
+    const desktop = openDatabase(join(root, "rival-desktop.db"));
+    const laptop = openDatabase(join(root, "rival-laptop.db"));
+    const phone = openDatabase(join(root, "rival-phone.db"));
+    setMeta(laptop, "device_id", "device-b");
+    setMeta(phone, "device_id", "device-a");
+    try {
+      for (const [factKey, value] of [["pref:pager", "less"], ["pref:shell", "zsh"]]) {
+        const now = new Date().toISOString();
+        upsertFact(desktop, {
+          id: `fact-${factKey}`,
+          scope: "global",
+          key: factKey,
+          value,
+          tags: [],
+          confidence: 1,
+          source_session: null,
+          created: now,
+          last_confirmed: now,
+          access_count: 0,
+        });
+      }
+      enqueueDirtyFacts(desktop, key, keypair.address, keypair.privateKey, "desk");
+      assert.equal((await flushOutbox(desktop, backend)).sent, 1);
+
+      // Both pull v1 and snapshot at v2; only the laptop has deleted the pager since.
+      assert.equal((await pullRemoteChanges(laptop, keypair.address, key, backend))?.upserted, 2);
+      assert.equal((await pullRemoteChanges(phone, keypair.address, key, backend))?.upserted, 2);
+      deleteFact(laptop, "pref:pager");
+      assert.equal(enqueueSnapshot(laptop, key, keypair.address, keypair.privateKey, "lap").version, 2);
+      assert.equal(enqueueSnapshot(phone, key, keypair.address, keypair.privateKey, "phone").version, 2);
+      assert.equal((await flushOutbox(laptop, backend)).sent, 1);
+      assert.equal((await flushOutbox(phone, backend)).sent, 1);
+
+      const dbPath = join(root, "rival-fresh.db");
+      const restored = await pullAndReconstruct(keypair.address, PASSPHRASE, dbPath, backend);
+      assert.equal(restored.factCount, 1);
+      const fresh = openDatabase(dbPath);
+      try {
+        assert.equal(getFact(fresh, "pref:shell")?.value, "zsh");
+        assert.equal(getFact(fresh, "pref:pager"), null);
+      } finally {
+        fresh.close();
+      }
+    } finally {
+      desktop.close();
+      laptop.close();
+      phone.close();
+    }
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  enqueueDirtyFacts,
+  enqueueConversationDelta,
+  pullConversations,
+  pushSnapshot,
+} from "../core/sync.js";
+import { flushOutbox, outboxBackoffMs, OUTBOX_MAX_ATTEMPTS } from "../core/outbox.js";
+import { LocalDirectoryBackend } from "../core/backends/local.js";
+import { generateKeypair } from "../core/identity.js";
+import { decrypt, deriveKey, generateSalt } from "../core/crypto.js";
+import { deserializeShard } from "../core/shard.js";
+import {
+  openDatabase,
+  upsertFact,
+  deleteFact,
+  getDirtyFacts,
+  getPendingDeletes,
+  getMeta,
+  setMeta,
+  getOutboxItems,
+  getOutboxPayload,
+  retryOutboxItems,
+  dropOutboxItem,
+} from "../core/db.js";
+import type { StorageBackend, Tag } from "../core/storage.js";
+import type { Conversation } from "../types.js";
+
+/** Backend that fails while `failing` is set. */
+class FlakyBackend implements StorageBackend {
+  uploads: Array<{ data: Uint8Array; tags: Tag[] }> = [];
+  failing = false;
+
+  async upload(data: Uint8Array, tags: Tag[]) {
+    if (this.failing) throw new Error("network down");
+    this.uploads.push({ data, tags });
+    return { txId: `tx-${this.uploads.length}` };
+  }
+
+  async getBalance() {
+    return { balance: "0 winc", estimatedUploads: 0 };
+  }
+}
+
+const kp = generateKeypair();
+const key = deriveKey("outbox-pass", generateSalt());
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), "sharedcontext-outbox-"));
+}
+
+function freshDb(dir = tempDir()) {
+  return openDatabase(join(dir, "test.db"));
+}
+
+function storeFact(db: ReturnType<typeof freshDb>, k: string, value: string) {
+  const now = new Date().toISOString();
+  upsertFact(db, {
+    id: `id-${k}`,
+    scope: "global",
+    key: k,
+    value,
+    tags: [],
+    confidence: 1,
+    source_session: null,
+    created: now,
+    last_confirmed: now,
+    access_count: 0,
+  });
+}
+
+function conversation(messages: number): Conversation {
+  return {
+    id: "conv-1",
+    client: "cursor",
+    project: "app",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T01:00:00.000Z",
+    messages: Array.from({ length: messages }, (_, i) => ({
+      role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+      content: `message ${i}`,
+    })),
+  };
+}
+
+describe("outbox", () => {
+  it("queues dirty facts under reserved versions and clears dirty state", async () => {
+    const db = freshDb();
+    storeFact(db, "a", "1");
+    storeFact(db, "gone", "x");
+    deleteFact(db, "gone");
+    setMeta(db, "current_version", "3");
+
+    const queued = enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "sess");
+    assert.equal(queued?.version, 4);
+    assert.equal(queued?.operations, 2);
+    assert.deepEqual(getDirtyFacts(db), []);
+    assert.deepEqual(getPendingDeletes(db), []);
+    assert.equal(getMeta(db, "current_version"), "4");
+    assert.equal(enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "sess"), null);
+
+    const backend = new FlakyBackend();
+    const result = await flushOutbox(db, backend);
+    assert.deepEqual(result, { sent: 1, failed: 0, remaining: 0 });
+    assert.equal(getMeta(db, "last_pushed_version"), "4");
+
+    const tagMap = new Map(backend.uploads[0].tags.map((t) => [t.name, t.value]));
+    assert.equal(tagMap.get("Version"), "4");
+    const shard = deserializeShard(decrypt(backend.uploads[0].data, key));
+    assert.deepEqual(shard.operations.map((op) => op.op).sort(), ["delete", "upsert"]);
+
+    assert.deepEqual(getOutboxItems(db), []);
+    const [sent] = getOutboxItems(db, { includeSent: true });
+    assert.equal(sent.status, "sent");
+    assert.equal(sent.txId, "tx-1");
+    assert.equal(getOutboxPayload(db, sent.id), null);
+    db.close();
+  });
+
+  it("backs off after a failure and keeps fact shards in order", async () => {
+    const db = freshDb();
+    const backend = new FlakyBackend();
+    storeFact(db, "a", "1");
+    enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "s1");
+    storeFact(db, "b", "2");
+    enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "s2");
+    enqueueConversationDelta(db, conversation(3), key, kp.address, kp.privateKey);
+
+    backend.failing = true;
+    const failed = await flushOutbox(db, backend);
+    // The first delta fails; the second waits behind it; the conversation fails on its own.
+    assert.deepEqual(failed, { sent: 0, failed: 2, remaining: 3 });
+    const [first, second] = getOutboxItems(db);
+    assert.equal(first.attempts, 1);
+    assert.equal(first.lastError, "network down");
+    assert.equal(second.attempts, 0);
+    assert.ok(Date.parse(first.nextAttemptAt) > Date.now());
+
+    // Not due yet: nothing is attempted.
+    backend.failing = false;
+    assert.deepEqual(await flushOutbox(db, backend), { sent: 0, failed: 0, remaining: 3 });
+    assert.equal(backend.uploads.length, 0);
+
+    const resumed = await flushOutbox(db, backend, { force: true });
+    assert.equal(resumed.sent, 3);
+    const versions = backend.uploads
+      .map((u) => new Map(u.tags.map((t) => [t.name, t.value])))
+      .filter((tags) => tags.get("Type") === "delta")
+      .map((tags) => tags.get("Version"));
+    assert.deepEqual(versions, ["1", "2"]);
+    assert.equal(getMeta(db, "last_pushed_version"), "2");
+    db.close();
+  });
+
+  it("runs a forced flush after one already in progress", async () => {
+    const db = freshDb();
+    const backend = new FlakyBackend();
+    storeFact(db, "a", "1");
+    enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "s1");
+    backend.failing = true;
+    await flushOutbox(db, backend);
+    backend.failing = false;
+
+    // The background flush skips the item in backoff; the forced one must not share its result.
+    const background = flushOutbox(db, backend);
+    const forced = flushOutbox(db, backend, { force: true });
+    assert.equal((await background).sent, 0);
+    assert.equal((await forced).sent, 1);
+    const shared = flushOutbox(db, backend);
+    assert.equal(flushOutbox(db, backend), shared);
+    await shared;
+    db.close();
+  });
+
+  it("gives up after repeated failures until retried", async () => {
+    const db = freshDb();
+    const backend = new FlakyBackend();
+    backend.failing = true;
+    storeFact(db, "a", "1");
+    enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "s1");
+
+    for (let i = 0; i < OUTBOX_MAX_ATTEMPTS; i++) {
+      await flushOutbox(db, backend, { force: true });
+    }
+    assert.equal(getOutboxItems(db)[0].status, "failed");
+
+    backend.failing = false;
+    assert.equal((await flushOutbox(db, backend, { force: true })).sent, 0);
+
+    assert.equal(retryOutboxItems(db), 1);
+    const [item] = getOutboxItems(db);
+    assert.equal(item.status, "pending");
+    assert.equal(item.attempts, 0);
+    assert.equal((await flushOutbox(db, backend)).sent, 1);
+    db.close();
+  });
+
+  it("drops unsent items only", async () => {
+    const db = freshDb();
+    storeFact(db, "a", "1");
+    enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "s1");
+    const [item] = getOutboxItems(db);
+    assert.equal(dropOutboxItem(db, item.id), true);
+    assert.equal(dropOutboxItem(db, item.id), false);
+    assert.deepEqual(getOutboxItems(db, { includeSent: true }), []);
+    db.close();
+  });
+
+  it("resumes queued uploads after a restart", async () => {
+    const dir = tempDir();
+    const db = freshDb(dir);
+    storeFact(db, "a", "1");
+    enqueueDirtyFacts(db, key, kp.address, kp.privateKey, "s1");
+    db.close();
+
+    const reopened = freshDb(dir);
+    const backend = new FlakyBackend();
+    assert.equal((await flushOutbox(reopened, backend)).sent, 1);
+    reopened.close();
+  });
+
+  it("reports a snapshot that could not be uploaded", async () => {
+    const db = freshDb();
+    const backend = new FlakyBackend();
+    backend.failing = true;
+    storeFact(db, "a", "1");
+    await assert.rejects(
+      () => pushSnapshot(db, key, kp.address, kp.privateKey, backend, "sess"),
+      /queued but not uploaded \(network down\)/
+    );
+    assert.equal(getOutboxItems(db)[0].kind, "snapshot");
+    assert.deepEqual(getDirtyFacts(db), []);
+    db.close();
+  });
+
+  it("queues only new conversation messages and tolerates re-sent chunks", async () => {
+    const dir = tempDir();
+    const db = freshDb(dir);
+    const storage = new LocalDirectoryBackend({ directory: join(dir, "storage") });
+
+    assert.equal(enqueueConversationDelta(db, conversation(3), key, kp.address, kp.privateKey), 1);
+    assert.equal(enqueueConversationDelta(db, conversation(3), key, kp.address, kp.privateKey), 0);
+    assert.equal(enqueueConversationDelta(db, conversation(5), key, kp.address, kp.privateKey), 1);
+    assert.equal(getMeta(db, "conversation_offset:cursor:conv-1"), "5");
+
+    // Simulate a crash after the first upload but before it was recorded.
+    const [first] = getOutboxItems(db);
+    const payload = getOutboxPayload(db, first.id)!;
+    await storage.upload(payload.data, payload.tags);
+    await flushOutbox(db, storage);
+
+    const [pulled] = await pullConversations(kp.address, key, storage);
+    assert.deepEqual(
+      pulled.messages.map((m) => m.content),
+      ["message 0", "message 1", "message 2", "message 3", "message 4"]
+    );
+    db.close();
+  });
+
+  it("queues messages again when they change after being queued", async () => {
+    const dir = tempDir();
+    const db = freshDb(dir);
+    const storage = new LocalDirectoryBackend({ directory: join(dir, "storage") });
+
+    const grown = conversation(2);
+    enqueueConversationDelta(db, grown, key, kp.address, kp.privateKey);
+    // The reply is merged with output written after it, and tool results arrive.
+    grown.messages[1] = {
+      ...grown.messages[1],
+      content: "message 1, continued",
+      tools: [{ name: "Bash", input: "npm test", result: "ok" }],
+    };
+    assert.equal(enqueueConversationDelta(db, grown, key, kp.address, kp.privateKey), 1);
+    const offsets = getOutboxItems(db).map(
+      (item) => getOutboxPayload(db, item.id)!.tags.find((t) => t.name === "Offset")?.value
+    );
+    assert.deepEqual(offsets, ["0", "1"]);
+    assert.equal(enqueueConversationDelta(db, grown, key, kp.address, kp.privateKey), 0);
+
+    // An earlier message rewritten: everything is queued again.
+    grown.messages[0] = { ...grown.messages[0], content: "message 0, edited" };
+    grown.messages.push({ role: "user", content: "message 2" });
+    assert.equal(enqueueConversationDelta(db, grown, key, kp.address, kp.privateKey), 1);
+    await flushOutbox(db, storage);
+
+    const [pulled] = await pullConversations(kp.address, key, storage);
+    assert.deepEqual(
+      pulled.messages.map((m) => m.content),
+      ["message 0, edited", "message 1, continued", "message 2"]
+    );
+    assert.equal(pulled.messages[1].tools?.[0].result, "ok");
+    db.close();
+  });
+
+  it("doubles the backoff up to a cap", () => {
+    assert.equal(outboxBackoffMs(1), 30_000);
+    assert.equal(outboxBackoffMs(2), 60_000);
+    assert.equal(outboxBackoffMs(20), 30 * 60_000);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseMessageList, parseMessageRange, selectMessages } from "../core/partial-share.js";
+import type { Conversation } from "../types.js";
+
+const CONVERSATION: Conversation = {
+  id: "c1",
+  client: "claude-code",
+  project: "api",
+  startedAt: "2026-05-01T09:00:00.000Z",
+  updatedAt: "2026-05-01T10:00:00.000Z",
+  messages: [
+    { role: "user", content: "The webhook retry loop never stops" },
+    {
+      role: "assistant",
+      content: "Looking at the worker.",
+      tools: [{ name: "Read", input: "src/webhooks/worker.ts", files: ["src/webhooks/worker.ts"] }],
+    },
+    { role: "tool", content: "worker.ts contents" },
+    { role: "assistant", content: "Cap retries at five." },
+    { role: "user", content: "Also, my salary is private" },
+    { role: "assistant", content: "Noted." },
+  ],
+};
+
+describe("partial conversation shares", () => {
+  it("parses 1-based ranges into 0-based bounds", () => {
+    assert.deepEqual(parseMessageRange("2-4", 6), { from: 1, to: 3 });
+    assert.deepEqual(parseMessageRange("3-", 6), { from: 2, to: 5 });
+    assert.deepEqual(parseMessageRange("-2", 6), { from: 0, to: 1 });
+    assert.deepEqual(parseMessageRange("5", 6), { from: 4, to: 4 });
+    assert.deepEqual(parseMessageRange("4-99", 6), { from: 3, to: 5 });
+    assert.throws(() => parseMessageRange("-", 6), /Invalid --range/);
+    assert.throws(() => parseMessageRange("7-9", 6), /outside messages 1-6/);
+    assert.throws(() => parseMessageRange("4-2", 6), /outside/);
+  });
+
+  it("keeps a range, turns only, or matching messages with their original indexes", () => {
+    const range = selectMessages(CONVERSATION, { range: "2-4" });
+    assert.deepEqual(range.indexes, [1, 2, 3]);
+
+    const turns = selectMessages(CONVERSATION, { turnsOnly: true });
+    assert.deepEqual(turns.indexes, [0, 1, 3, 4, 5]);
+    assert.equal(turns.conversation.messages[1].tools, undefined);
+    assert.ok(CONVERSATION.messages[1].tools, "original is not modified");
+
+    // Tool inputs count towards a match unless tools are dropped.
+    assert.deepEqual(selectMessages(CONVERSATION, { match: "WORKER" }).indexes, [1, 2]);
+    assert.deepEqual(selectMessages(CONVERSATION, { match: "webhooks/" }).indexes, [1]);
+    assert.deepEqual(selectMessages(CONVERSATION, { match: "webhooks/", turnsOnly: true }).indexes, []);
+    assert.deepEqual(selectMessages(CONVERSATION, { match: "retr(y|ies)", range: "1-4" }).indexes, [0, 3]);
+    assert.throws(() => selectMessages(CONVERSATION, { match: "(" }), /Invalid --match/);
+  });
+
+  it("parses message lists for dropping", () => {
+    assert.deepEqual([...parseMessageList("3, 7-9 12")], [3, 7, 8, 9, 12]);
+    assert.deepEqual([...parseMessageList("5-4")], [4, 5]);
+    assert.throws(() => parseMessageList("3,x"), /Not a message number/);
+  });
+});
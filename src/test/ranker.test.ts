@@ -0,0 +1,106 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { openDatabase, getDocumentFrequencies, getRankerDocuments } from "../core/db.js";
+import { recallContext } from "../core/engine.js";
+import { TfIdfRanker, analyzeText, createRanker, stem } from "../core/ranker.js";
+import type { Fact } from "../types.js";
+import type Database from "better-sqlite3";
+
+function makeFact(overrides: Partial<Fact> = {}): Fact {
+  return {
+    id: "id-1",
+    scope: "global",
+    key: "test:key",
+    value: "test value",
+    tags: [],
+    confidence: 1.0,
+    source_session: null,
+    created: new Date().toISOString(),
+    last_confirmed: new Date().toISOString(),
+    access_count: 0,
+    ...overrides,
+  };
+}
+
+let db: Database.Database;
+
+describe("ranker", () => {
+  beforeEach(() => {
+    db = openDatabase(join(mkdtempSync(join(tmpdir(), "sharedcontext-test-")), "test.db"));
+  });
+
+  describe("stem", () => {
+    it("folds plurals and verb endings", () => {
+      assert.equal(stem("databases"), stem("database"));
+      assert.equal(stem("deployment"), stem("deploy"));
+      assert.equal(stem("testing"), stem("tests"));
+      assert.equal(stem("running"), "run");
+    });
+
+    it("leaves short words alone", () => {
+      assert.equal(stem("orm"), "orm");
+      assert.equal(stem("css"), "css");
+    });
+  });
+
+  describe("analyzeText", () => {
+    it("drops stopwords and expands related concepts", () => {
+      const terms = analyzeText("We use Prisma with the db");
+      assert.ok(terms.has("prisma"));
+      assert.ok(terms.has("orm"));
+      assert.ok(!terms.has("with"));
+      assert.ok(!terms.has("the"));
+    });
+  });
+
+  describe("TfIdfRanker", () => {
+    it("finds facts by related terms", () => {
+      const facts = [
+        makeFact({ key: "db:client", id: "id-1", value: "Prisma with PostgreSQL", tags: ["prisma"] }),
+        makeFact({ key: "style:indent", id: "id-2", value: "Two spaces, no tabs", tags: ["formatting"] }),
+      ];
+      const scores = new TfIdfRanker(db).rank("orm", facts);
+      assert.ok((scores.get("db:client") ?? 0) > 0);
+      assert.equal(scores.get("style:indent"), undefined);
+    });
+
+    it("persists vocabulary and updates it as facts change", () => {
+      const ranker = new TfIdfRanker(db);
+      ranker.rank("anything", [
+        makeFact({ key: "a", value: "redis cache" }),
+        makeFact({ key: "b", id: "id-b", value: "redis queue" }),
+      ]);
+      assert.equal(getDocumentFrequencies(db).get("redis"), 2);
+
+      ranker.rank("anything", [makeFact({ key: "a", value: "memcached cache" })]);
+      const freqs = getDocumentFrequencies(db);
+      assert.equal(freqs.get("redis"), undefined);
+      assert.equal(freqs.get("memcach"), 1);
+      assert.deepEqual(getRankerDocuments(db).map((d) => d.factKey), ["a"]);
+    });
+
+    it("lifts meaning matches to the top of recallContext", () => {
+      const facts = [
+        makeFact({ key: "ormolu:gilding", id: "id-1", value: "Gold leaf finish on furniture" }),
+        makeFact({ key: "db:client", id: "id-2", value: "Drizzle talks to Postgres", tags: ["drizzle"] }),
+      ];
+      const keywordOnly = recallContext("orm", "global", facts);
+      assert.equal(keywordOnly[0].key, "ormolu:gilding");
+
+      const ranked = recallContext("orm", "global", facts, undefined, {
+        ranker: createRanker("tfidf", db),
+      });
+      assert.equal(ranked[0].key, "db:client");
+    });
+  });
+
+  describe("createRanker", () => {
+    it("keyword means no extra ranker", () => {
+      assert.equal(createRanker("keyword", db), undefined);
+      assert.equal(createRanker("tfidf", db)?.name, "tfidf");
+    });
+  });
+});
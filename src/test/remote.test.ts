@@ -0,0 +1,115 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  queryShards,
+  queryConversationChunks,
+  queryConversationShare,
+  fetchIdentity,
+} from "../core/remote.js";
+import type {
+  StorageReader,
+  TagFilter,
+  TagQueryOptions,
+  TransactionPage,
+  TransactionTagInfo,
+} from "../core/storage.js";
+
+/** In-memory reader with two transactions per page, to exercise pagination. */
+class MemoryReader implements StorageReader {
+  queries = 0;
+
+  constructor(private txs: Array<{ id: string; tags: Record<string, string>; data?: number[] }>) {}
+
+  async queryByTags(filters: TagFilter[], options: TagQueryOptions = {}): Promise<TransactionPage> {
+    this.queries++;
+    const matching = this.txs.filter((tx) =>
+      filters.every((f) => f.values.includes(tx.tags[f.name]))
+    );
+    if (options.newestFirst) matching.reverse();
+    const start = Number(options.cursor ?? 0);
+    const end = start + Math.min(options.pageSize ?? 2, 2);
+    return {
+      transactions: matching.slice(start, end).map(toInfo),
+      cursor: end < matching.length ? String(end) : null,
+    };
+  }
+
+  async fetchData(txId: string): Promise<Uint8Array> {
+    const tx = this.txs.find((t) => t.id === txId);
+    if (!tx?.data) throw new Error(`no data for ${txId}`);
+    return new Uint8Array(tx.data);
+  }
+
+  async fetchTags(txId: string): Promise<TransactionTagInfo | null> {
+    const tx = this.txs.find((t) => t.id === txId);
+    return tx ? toInfo(tx) : null;
+  }
+}
+
+function toInfo(tx: { id: string; tags: Record<string, string> }): TransactionTagInfo {
+  return { txId: tx.id, tags: new Map(Object.entries(tx.tags)) };
+}
+
+const WALLET = "0xabc";
+
+function shardTx(id: string, tags: Record<string, string>) {
+  return {
+    id,
+    tags: { "App-Name": "sharedcontext", Wallet: WALLET, Signature: "0xsig", ...tags },
+  };
+}
+
+describe("remote queries", () => {
+  it("parses shards across pages and sorts by version", async () => {
+    const reader = new MemoryReader([
+      shardTx("t3", { Type: "delta", Version: "3" }),
+      shardTx("t1", { Type: "delta", Version: "1" }),
+      shardTx("t2", { Type: "snapshot", Version: "2", "Snapshot-Part": "1/2" }),
+      shardTx("bad-version", { Type: "delta", Version: "zero" }),
+      shardTx("bad-part", { Type: "snapshot", Version: "4", "Snapshot-Part": "3/2" }),
+      shardTx("other", { Type: "conversation" }),
+    ]);
+
+    const shards = await queryShards(reader, WALLET);
+    assert.deepEqual(shards.map((s) => s.txId), ["t1", "t2", "t3"]);
+    assert.equal(shards[1].partTotal, 2);
+    assert.equal(reader.queries, 3);
+  });
+
+  it("parses conversation chunks", async () => {
+    const reader = new MemoryReader([
+      shardTx("c1", {
+        Type: "conversation",
+        Client: "cursor",
+        Project: "app",
+        Session: "s1",
+        Chunk: "1/1",
+        Offset: "0",
+        Count: "4",
+      }),
+      shardTx("c2", { Type: "conversation", Client: "Not A Client", Project: "app", Session: "s2" }),
+    ]);
+    const chunks = await queryConversationChunks(reader, WALLET);
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0].count, 4);
+  });
+
+  it("returns the newest share for an id", async () => {
+    const reader = new MemoryReader([
+      { id: "old", tags: { "App-Name": "sharedcontext", Type: "conversation-share", "Share-Id": "x", Wallet: WALLET } },
+      { id: "new", tags: { "App-Name": "sharedcontext", Type: "conversation-share", "Share-Id": "x", Wallet: WALLET } },
+    ]);
+    assert.equal((await queryConversationShare(reader, "x"))?.txId, "new");
+    assert.equal(await queryConversationShare(reader, "y"), null);
+  });
+
+  it("fetches the newest identity", async () => {
+    const reader = new MemoryReader([
+      { ...shardTx("id-old", { Type: "identity", Timestamp: "1", Salt: "00" }), data: [1] },
+      { ...shardTx("id-new", { Type: "identity", Timestamp: "2", Salt: "ff" }), data: [2] },
+    ]);
+    const identity = await fetchIdentity(reader, WALLET);
+    assert.deepEqual([...identity!.salt], [255]);
+    assert.deepEqual([...identity!.encryptedPrivateKey], [2]);
+  });
+});
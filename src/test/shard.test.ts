@@ -6,6 +6,7 @@ import {
   serializeShard,
   deserializeShard,
   replayShards,
+  detectConflicts,
   factToUpsertOp,
   MAX_SHARD_BYTES,
 } from "../core/shard.js";
@@ -335,4 +336,66 @@ describe("shard", () => {
       assert.equal(shards[0].operations.length, 1);
     });
   });
+
+  describe("multi-device merge", () => {
+    const hlcA = "000001767225600000:00000:device-a";
+    const hlcB = "000001767225600500:00000:device-b";
+
+    function forkedShards(): Shard[] {
+      return [
+        createShard([{ op: "upsert", key: "k", value: "base", tags: [], hlc: "000001767225500000:00000:device-a" }], 1, "s0", "device-a"),
+        createShard([{ op: "upsert", key: "k", value: "from a", tags: ["a"], hlc: hlcA }], 2, "s1", "device-a"),
+        createShard([{ op: "upsert", key: "k", value: "from b", tags: ["b"], hlc: hlcB }], 2, "s2", "device-b"),
+      ];
+    }
+
+    it("records the pushing device on the shard", () => {
+      const shards = createChunkedShards([{ op: "upsert", key: "k", value: "v" }], 1, "s1", MAX_SHARD_BYTES, "device-a");
+      assert.equal(shards[0].device_id, "device-a");
+    });
+
+    it("keeps the newest clock regardless of shard order", () => {
+      const [base, a, b] = forkedShards();
+      const forward = replayShards([base, a, b]);
+      const reversed = replayShards([base, b, a]);
+      assert.equal(forward[0].value, "from b");
+      assert.equal(reversed[0].value, "from b");
+      assert.equal(reversed[0].hlc, hlcB);
+    });
+
+    it("lets a newer delete win over an older upsert", () => {
+      const shards = [
+        createShard([{ op: "delete", key: "k", hlc: hlcB }], 2, "s2", "device-b"),
+        createShard([{ op: "upsert", key: "k", value: "late", tags: [], hlc: hlcA }], 2, "s1", "device-a"),
+      ];
+      assert.equal(replayShards(shards).length, 0);
+    });
+
+    it("applies operations without clocks in order", () => {
+      const shards = [
+        createShard([{ op: "upsert", key: "k", value: "old", hlc: hlcB }], 1, "s1"),
+        createShard([{ op: "upsert", key: "k", value: "legacy" }], 2, "s2"),
+      ];
+      assert.equal(replayShards(shards)[0].value, "legacy");
+    });
+
+    it("detects keys that diverged within one version", () => {
+      const conflicts = detectConflicts(forkedShards());
+      assert.equal(conflicts.length, 1);
+      assert.equal(conflicts[0].key, "k");
+      assert.equal(conflicts[0].shard_version, 2);
+      assert.equal(conflicts[0].candidates.length, 2);
+      assert.equal(conflicts[0].candidates[conflicts[0].winner].value, "from b");
+    });
+
+    it("ignores versions where devices agree or touch different keys", () => {
+      const shards = [
+        createShard([{ op: "upsert", key: "k", value: "same", tags: [], hlc: hlcA }], 1, "s1", "device-a"),
+        createShard([{ op: "upsert", key: "k", value: "same", tags: [], hlc: hlcB }], 1, "s2", "device-b"),
+        createShard([{ op: "upsert", key: "x", value: "only a", hlc: hlcA }], 2, "s3", "device-a"),
+        createShard([{ op: "upsert", key: "y", value: "only b", hlc: hlcB }], 2, "s4", "device-b"),
+      ];
+      assert.deepEqual(detectConflicts(shards), []);
+    });
+  });
 });
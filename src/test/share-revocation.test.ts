@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseShareExpiry } from "../cli/share.js";
+import { getCreatedShares, markShareRevoked, openDatabase, saveCreatedShare } from "../core/db.js";
+import { generateKeypair } from "../core/identity.js";
+import { queryConversationShare, queryShareRevocation } from "../core/remote.js";
+import { pushShareRevocation } from "../core/sync.js";
+import { LocalDirectoryBackend } from "../core/backends/local.js";
+
+describe("share expiry and revocation", () => {
+  it("parses --expires durations and dates", () => {
+    const now = new Date("2026-06-01T12:00:00.000Z");
+    assert.equal(parseShareExpiry("30m", now), "2026-06-01T12:30:00.000Z");
+    assert.equal(parseShareExpiry("12h", now), "2026-06-02T00:00:00.000Z");
+    assert.equal(parseShareExpiry("7d", now), "2026-06-08T12:00:00.000Z");
+    assert.equal(parseShareExpiry("2w", now), "2026-06-15T12:00:00.000Z");
+    assert.equal(parseShareExpiry("2026-07-01T00:00:00Z", now), "2026-07-01T00:00:00.000Z");
+    assert.throws(() => parseShareExpiry("soon", now), /Invalid --expires/);
+    assert.throws(() => parseShareExpiry("2026-01-01", now), /in the future/);
+  });
+
+  it("keeps a local record of created shares and their revocation", () => {
+    const db = openDatabase(join(mkdtempSync(join(tmpdir(), "sharedcontext-shares-")), "test.db"));
+    saveCreatedShare(db, {
+      shareId: "share-1",
+      kind: "conversation",
+      txId: "tx-1",
+      conversationId: "conv-1",
+      client: "claude-code",
+      project: "api",
+      messageCount: 4,
+      recipients: ["0xabc"],
+      expiresAt: "2026-07-01T00:00:00.000Z",
+    });
+    markShareRevoked(db, "share-1", "tx-revoke", "2026-06-02T00:00:00.000Z");
+
+    const [share] = getCreatedShares(db);
+    db.close();
+    assert.deepEqual(share.recipients, ["0xabc"]);
+    assert.equal(share.expiresAt, "2026-07-01T00:00:00.000Z");
+    assert.equal(share.revokedAt, "2026-06-02T00:00:00.000Z");
+    assert.equal(share.revocationTxId, "tx-revoke");
+  });
+
+  it("finds revocations signed by the sharer for that share only", async () => {
+    const storage = new LocalDirectoryBackend({
+      directory: mkdtempSync(join(tmpdir(), "sharedcontext-revoke-")),
+    });
+    const sharer = generateKeypair();
+    const mallory = generateKeypair();
+
+    await storage.upload(new Uint8Array([1]), [
+      { name: "App-Name", value: "sharedcontext" },
+      { name: "Type", value: "conversation-share" },
+      { name: "Share-Id", value: "share-1" },
+      { name: "Wallet", value: sharer.address },
+      { name: "Expires-At", value: "2026-07-01T00:00:00.000Z" },
+    ]);
+    assert.equal((await queryConversationShare(storage, "share-1"))?.expiresAt, "2026-07-01T00:00:00.000Z");
+    assert.equal(await queryShareRevocation(storage, "share-1", sharer.address), null);
+
+    // Someone else claiming the sharer's wallet cannot revoke it.
+    await pushShareRevocation("share-1", sharer.address, mallory.privateKey, storage);
+    assert.equal(await queryShareRevocation(storage, "share-1", sharer.address), null);
+
+    const { txId } = await pushShareRevocation("share-1", sharer.address, sharer.privateKey, storage);
+    assert.equal((await queryShareRevocation(storage, "share-1", sharer.address))?.txId, txId);
+    assert.equal(await queryShareRevocation(storage, "share-2", sharer.address), null);
+  });
+});
@@ -1,6 +1,20 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { decodeShareToken, encodeShareToken, extractToken } from "../cli/share.js";
+import { randomBytes } from "crypto";
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  decodeShareToken,
+  encodeShareToken,
+  extractToken,
+  resolveShareRecipients,
+  shareTokenRecipients,
+} from "../cli/share.js";
+import { eciesEncrypt } from "../core/ecies.js";
+import { generateKeypair } from "../core/identity.js";
+import { pushIdentity, pushPublicKey } from "../core/sync.js";
+import { LocalDirectoryBackend } from "../core/backends/local.js";
 
 describe("share token", () => {
   it("encodes and decodes token payload", () => {
@@ -31,6 +45,66 @@ describe("share token", () => {
     assert.equal(decoded.txId, undefined);
   });
 
+  describe("recipient-bound tokens", () => {
+    const alice = generateKeypair();
+    const bob = generateKeypair();
+    const shareKey = new Uint8Array(randomBytes(32));
+    const token = encodeShareToken({
+      v: 2,
+      sid: "share-456",
+      r: [{ a: alice.address, w: Buffer.from(eciesEncrypt(shareKey, alice.publicKey)).toString("base64url") }],
+      t: "tx-def",
+    });
+
+    it("unwraps the key for a recipient", () => {
+      assert.deepEqual(shareTokenRecipients(token), [alice.address]);
+      const decoded = decodeShareToken(token, { address: alice.address, privateKey: alice.privateKey });
+      assert.deepEqual(decoded.key, shareKey);
+      assert.equal(decoded.shareId, "share-456");
+      assert.deepEqual(decoded.recipients, [alice.address]);
+    });
+
+    it("is useless to anyone else", () => {
+      assert.throws(() => decodeShareToken(token), /addressed to/);
+      assert.throws(
+        () => decodeShareToken(token, { address: bob.address, privateKey: bob.privateKey }),
+        /not to your wallet/
+      );
+      // Claiming to be Alice without her key does not help.
+      assert.throws(
+        () => decodeShareToken(token, { address: alice.address, privateKey: bob.privateKey }),
+        /Could not unwrap/
+      );
+      const rawKey = Buffer.from("c".repeat(64), "hex").toString("base64url");
+      assert.equal(shareTokenRecipients(encodeShareToken({ v: 1, sid: "s", k: rawKey })), null);
+    });
+
+    it("resolves recipients from public keys and published or identity records", async () => {
+      const storage = new LocalDirectoryBackend({
+        directory: mkdtempSync(join(tmpdir(), "sharedcontext-share-")),
+      });
+      const carol = generateKeypair();
+      await pushPublicKey(alice.address, alice.privateKey, storage);
+      await pushIdentity(new Uint8Array(16), new Uint8Array(48), bob.address, bob.privateKey, storage);
+
+      const recipients = await resolveShareRecipients(
+        [alice.address, bob.address.toUpperCase().replace("0X", "0x"), Buffer.from(carol.publicKey).toString("hex")],
+        storage
+      );
+      assert.deepEqual(
+        recipients.map((r) => r.address),
+        [alice.address, bob.address, carol.address]
+      );
+      assert.deepEqual(recipients[1].publicKey, bob.publicKey);
+
+      await assert.rejects(
+        () => resolveShareRecipients([generateKeypair().address], storage),
+        /No public key found/
+      );
+      await assert.rejects(() => resolveShareRecipients(["bob"], storage), /Not a wallet address/);
+    });
+  });
+
   it("extracts token from sharedcontext URL", () => {
     const token = "abc123";
     const input = `sharedcontext://share/${token}`;
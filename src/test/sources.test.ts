@@ -0,0 +1,112 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  getConversationSources,
+  createMappedJsonlSource,
+  discoverConversationFiles,
+  resolveConversationFile,
+  parseConversationFile,
+} from "../core/sources.js";
+import { ConversationWatcher } from "../core/watcher.js";
+import type { Conversation } from "../types.js";
+
+describe("conversation sources", () => {
+  let root: string;
+  let logsDir: string;
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), "sharedcontext-sources-"));
+    logsDir = join(root, "agent-logs");
+    mkdirSync(join(logsDir, "billing"), { recursive: true });
+    writeFileSync(
+      join(logsDir, "billing", "run-42.jsonl"),
+      [
+        JSON.stringify({ author: "human", body: { text: "Rotate the webhook secret" }, ts: 1767225600 }),
+        JSON.stringify({ author: "tool", body: { text: "ok" }, ts: 1767225601 }),
+        JSON.stringify({ author: "agent", body: [{ text: "Rotated." }, "Old one revoked."], ts: 1767225602 }),
+      ].join("\n")
+    );
+    writeFileSync(join(logsDir, "billing", "notes.txt"), "ignored");
+
+    process.env.SHAREDCONTEXT_HOME = root;
+    writeFileSync(
+      join(root, "config.json"),
+      JSON.stringify({
+        conversationSources: [
+          {
+            client: "acme-agent",
+            directory: logsDir,
+            fields: { role: "author", content: "body", timestamp: "ts" },
+            roles: { user: ["human"], assistant: ["agent"] },
+          },
+          { client: "cursor", directory: logsDir, fields: { role: "r", content: "c" } },
+          { client: "Bad Id", directory: logsDir, fields: { role: "r", content: "c" } },
+        ],
+      })
+    );
+  });
+
+  after(() => {
+    delete process.env.SHAREDCONTEXT_HOME;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("adds valid configured sources after the built-in ones", () => {
+    const clients = getConversationSources().map((s) => s.client);
+    assert.deepEqual(clients, ["cursor", "claude-code", "codex", "acme-agent"]);
+  });
+
+  it("discovers and parses configured JSONL logs", () => {
+    const sources = getConversationSources();
+    const files = discoverConversationFiles(sources).filter((f) => f.client === "acme-agent");
+    assert.deepEqual(
+      files.map((f) => [f.fileId, f.project, f.format]),
+      [["run-42", "billing", "jsonl"]]
+    );
+
+    const conversation = parseConversationFile(files[0], sources);
+    assert.equal(conversation.client, "acme-agent");
+    assert.deepEqual(
+      conversation.messages.map((m) => [m.role, m.content]),
+      [
+        ["user", "Rotate the webhook secret"],
+        ["assistant", "Rotated.\nOld one revoked."],
+      ]
+    );
+    assert.equal(conversation.startedAt, "2026-01-01T00:00:00.000Z");
+    assert.equal(conversation.updatedAt, "2026-01-01T00:00:02.000Z");
+  });
+
+  it("resolves which source owns a path", () => {
+    const sources = getConversationSources();
+    const resolved = resolveConversationFile(join(logsDir, "billing", "run-43.jsonl"), sources);
+    assert.deepEqual(resolved, {
+      path: join(logsDir, "billing", "run-43.jsonl"),
+      client: "acme-agent",
+      format: "jsonl",
+      project: "billing",
+      fileId: "run-43",
+    });
+    assert.equal(resolveConversationFile(join(root, "elsewhere.jsonl"), sources), null);
+    assert.equal(resolveConversationFile(join(`${logsDir}-old`, "billing", "run-1.jsonl"), sources), null);
+  });
+
+  it("rejects incomplete source configs", () => {
+    assert.throws(
+      () => createMappedJsonlSource({ client: "x", directory: logsDir } as never),
+      /fields.role and fields.content/
+    );
+  });
+
+  it("feeds configured sources to the watcher", () => {
+    const seen: Conversation[] = [];
+    const source = getConversationSources().find((s) => s.client === "acme-agent")!;
+    const watcher = new ConversationWatcher((c) => seen.push(c), { intervalMs: 60_000, sources: [source] });
+    watcher.start();
+    watcher.stop();
+    assert.deepEqual(seen.map((c) => c.id), ["run-42"]);
+  });
+});
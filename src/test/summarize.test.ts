@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { openDatabase, getStoredConversationSummary } from "../core/db.js";
+import {
+  createCompletionSummarizer,
+  formatConversationSummary,
+  getConversationSummary,
+  summarizeConversation,
+  summarizeWith,
+} from "../core/summarize.js";
+import type { Conversation, ConversationMessage } from "../types.js";
+
+function conversation(messages: ConversationMessage[]): Conversation {
+  return {
+    id: "c1",
+    client: "claude-code",
+    project: "api",
+    startedAt: "2026-05-01T09:00:00.000Z",
+    updatedAt: "2026-05-01T10:00:00.000Z",
+    messages,
+  };
+}
+
+const SESSION = conversation([
+  { role: "user", content: "Which queue should the webhook worker use? Redis or SQS." },
+  {
+    role: "assistant",
+    content:
+      "SQS fits better since we already run on AWS. We'll go with SQS and keep Redis for caching only.\n\n```ts\n// decided to inline this\n```",
+  },
+  { role: "user", content: "Agreed. Put the consumer in src/workers/webhook.ts please." },
+  {
+    role: "assistant",
+    content: "Done, see src/workers/webhook.ts and the config in infra/queue.yml. Built on Node.js streams.",
+    tools: [{ name: "Edit", input: "src/workers/webhook.ts", files: ["src/workers/webhook.ts"] }],
+  },
+  { role: "user", content: "Nice. TODO: add a dead letter queue later." },
+  { role: "user", content: "How many retries should a message get before it is dropped?" },
+]);
+
+describe("conversation summaries", () => {
+  it("extracts decisions, open questions and files", () => {
+    const summary = summarizeConversation(SESSION);
+    // Code blocks are skipped, and so is a bare "Agreed."
+    assert.deepEqual(summary.decisions, ["We'll go with SQS and keep Redis for caching only."]);
+    assert.deepEqual(summary.openQuestions, [
+      "TODO: add a dead letter queue later.",
+      "How many retries should a message get before it is dropped?",
+    ]);
+    assert.deepEqual(summary.files, ["src/workers/webhook.ts", "infra/queue.yml"]);
+    assert.equal(summary.method, "extractive");
+    assert.equal(summary.messageCount, 6);
+  });
+
+  it("formats only the sections it has", () => {
+    const text = formatConversationSummary({ ...summarizeConversation(SESSION), openQuestions: [] });
+    assert.equal(
+      text,
+      "Decisions:\n- We'll go with SQS and keep Redis for caching only.\nFiles: src/workers/webhook.ts, infra/queue.yml"
+    );
+    assert.equal(formatConversationSummary(summarizeConversation(conversation([]))), "");
+  });
+
+  it("stores summaries and replaces them when the conversation changes", () => {
+    const db = openDatabase(join(mkdtempSync(join(tmpdir(), "sharedcontext-test-")), "test.db"));
+    const first = getConversationSummary(db, SESSION);
+    assert.deepEqual(getStoredConversationSummary(db, "claude-code", "c1"), first);
+    assert.equal(getConversationSummary(db, SESSION).createdAt, first.createdAt);
+
+    const longer = conversation([
+      ...SESSION.messages,
+      { role: "assistant", content: "Let's use five retries with exponential backoff." },
+    ]);
+    const second = getConversationSummary(db, longer);
+    assert.equal(second.messageCount, 7);
+    assert.equal(second.decisions.at(-1), "Let's use five retries with exponential backoff.");
+
+    // Same number of messages, but the last one grew.
+    const merged = conversation(longer.messages.map((m, i) =>
+      i === 6 ? { ...m, content: `${m.content} We decided to drop the dead-letter queue.` } : m
+    ));
+    const third = getConversationSummary(db, merged);
+    assert.equal(third.messageCount, 7);
+    assert.equal(third.decisions.at(-1), "We decided to drop the dead-letter queue.");
+    db.close();
+  });
+
+  it("uses a completion summarizer when given one and falls back on bad replies", async () => {
+    const db = openDatabase(join(mkdtempSync(join(tmpdir(), "sharedcontext-test-")), "test.db"));
+    const prompts: string[] = [];
+    const sampled = createCompletionSummarizer(async (prompt) => {
+      prompts.push(prompt);
+      return 'Here you go: {"decisions": ["Use SQS"], "openQuestions": [], "files": ["src/workers/webhook.ts", 3]}';
+    });
+
+    const summary = await summarizeWith(db, SESSION, sampled);
+    assert.equal(summary.method, "sampling");
+    assert.deepEqual(summary.decisions, ["Use SQS"]);
+    assert.deepEqual(summary.files, ["src/workers/webhook.ts"]);
+    assert.match(prompts[0], /#5 \[user\]: How many retries/);
+
+    // Stored sampling summaries are reused; extractive ones stand in when sampling fails.
+    await summarizeWith(db, SESSION, sampled);
+    assert.equal(prompts.length, 1);
+    const broken = createCompletionSummarizer(async () => "no json here");
+    const other = { ...SESSION, id: "c2" };
+    assert.equal((await summarizeWith(db, other, broken)).method, "extractive");
+    db.close();
+  });
+});
@@ -1,10 +1,68 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { buildShardTags } from "../core/sync.js";
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  buildShardTags,
+  findLatestSnapshot,
+  pushSnapshot,
+  recordDeltaPush,
+  isSnapshotDue,
+  applyRemoteShards,
+  enqueueConversationDelta,
+  pullConversations,
+  SNAPSHOT_DELTA_THRESHOLD,
+} from "../core/sync.js";
+import { flushOutbox } from "../core/outbox.js";
+import { LocalDirectoryBackend } from "../core/backends/local.js";
 import { signShard, verifySignature, generateKeypair } from "../core/identity.js";
 import { encrypt, decrypt, deriveKey, generateSalt } from "../core/crypto.js";
 import { createShard, serializeShard, deserializeShard, replayShards } from "../core/shard.js";
-import type { ShardOperation } from "../types.js";
+import {
+  openDatabase,
+  upsertFact,
+  deleteFact,
+  getFact,
+  getDeviceId,
+  getDirtyFacts,
+  getPendingDeletes,
+  getMeta,
+  setMeta,
+  clearConversationCache,
+  getConversationCacheStats,
+} from "../core/db.js";
+import type { ShardInfo } from "../core/remote.js";
+import type { StorageBackend, StorageReader, Tag } from "../core/storage.js";
+import type { Conversation, ShardOperation } from "../types.js";
+
+function makeShardInfo(overrides: Partial<ShardInfo> = {}): ShardInfo {
+  return {
+    txId: "tx",
+    version: 1,
+    type: "delta",
+    timestamp: "0",
+    signature: "0xSIG",
+    wallet: "0xABC",
+    deviceId: null,
+    partIndex: 1,
+    partTotal: 1,
+    ...overrides,
+  };
+}
+
+class MemoryBackend implements StorageBackend {
+  uploads: Array<{ data: Uint8Array; tags: Tag[] }> = [];
+
+  async upload(data: Uint8Array, tags: Tag[]) {
+    this.uploads.push({ data, tags });
+    return { txId: `tx-${this.uploads.length}` };
+  }
+
+  async getBalance() {
+    return { balance: "0 winc", estimatedUploads: 0 };
+  }
+}
 
 describe("sync", () => {
   describe("buildShardTags", () => {
@@ -25,6 +83,262 @@ describe("sync", () => {
       const tags = buildShardTags("0x123", 1, "snapshot", "0xS");
       const tagMap = new Map(tags.map((t) => [t.name, t.value]));
       assert.equal(tagMap.get("Type"), "snapshot");
+      assert.equal(tagMap.get("Snapshot-Part"), "1/1");
+    });
+
+    it("snapshot part is tagged", () => {
+      const tags = buildShardTags("0x123", 7, "snapshot", "0xS", { index: 2, total: 3 });
+      const tagMap = new Map(tags.map((t) => [t.name, t.value]));
+      assert.equal(tagMap.get("Snapshot-Part"), "2/3");
+    });
+
+    it("delta shards have no snapshot part", () => {
+      const tags = buildShardTags("0x123", 7, "delta", "0xS");
+      assert.ok(!tags.some((t) => t.name === "Snapshot-Part"));
+    });
+  });
+
+  describe("findLatestSnapshot", () => {
+    it("returns null without snapshots", () => {
+      const shards = [makeShardInfo({ version: 1 }), makeShardInfo({ version: 2 })];
+      assert.equal(findLatestSnapshot(shards), null);
+    });
+
+    it("picks the newest complete snapshot", () => {
+      const shards = [
+        makeShardInfo({ version: 1 }),
+        makeShardInfo({ version: 2, type: "snapshot" }),
+        makeShardInfo({ version: 3 }),
+        makeShardInfo({ version: 4, type: "snapshot", partIndex: 1, partTotal: 2 }),
+        makeShardInfo({ version: 5, type: "snapshot", partIndex: 2, partTotal: 2 }),
+      ];
+      assert.equal(findLatestSnapshot(shards)?.version, 4);
+    });
+
+    it("ignores a partially uploaded snapshot", () => {
+      const shards = [
+        makeShardInfo({ version: 1, type: "snapshot" }),
+        makeShardInfo({ version: 2 }),
+        makeShardInfo({ version: 3, type: "snapshot", partIndex: 1, partTotal: 3 }),
+        makeShardInfo({ version: 4, type: "snapshot", partIndex: 2, partTotal: 3 }),
+      ];
+      assert.equal(findLatestSnapshot(shards)?.version, 1);
+    });
+
+    it("does not mix parts of snapshots two devices queued at the same version", () => {
+      const part = (deviceId: string, version: number, partIndex: number) =>
+        makeShardInfo({ txId: `${deviceId}-${version}`, version, type: "snapshot", deviceId, partIndex, partTotal: 2 });
+
+      // The laptop's second part never arrived; the phone's snapshot is whole.
+      const mixed = [part("phone", 4, 1), part("phone", 5, 2), part("laptop", 4, 1)];
+      assert.equal(findLatestSnapshot(mixed)?.txId, "phone-4");
+      assert.equal(findLatestSnapshot([part("laptop", 4, 1), part("phone", 5, 2)]), null);
+
+      // Both whole: every reader picks the same one.
+      const both = [...mixed, part("laptop", 5, 2)];
+      assert.equal(findLatestSnapshot(both)?.txId, "phone-4");
+      assert.equal(findLatestSnapshot([...both].reverse())?.txId, "phone-4");
+    });
+  });
+
+  describe("snapshots", () => {
+    it("pushSnapshot uploads full state and clears dirty state", async () => {
+      const db = openDatabase(join(mkdtempSync(join(tmpdir(), "sharedcontext-test-")), "test.db"));
+      const kp = generateKeypair();
+      const key = deriveKey("snap-pass", generateSalt());
+      const now = new Date().toISOString();
+      for (const k of ["a", "b", "gone"]) {
+        upsertFact(db, {
+          id: `id-${k}`,
+          scope: "global",
+          key: k,
+          value: `value-${k}`,
+          tags: [],
+          confidence: 1,
+          source_session: null,
+          created: now,
+          last_confirmed: now,
+          access_count: 0,
+        });
+      }
+      deleteFact(db, "gone");
+      setMeta(db, "current_version", "4");
+
+      const backend = new MemoryBackend();
+      const result = await pushSnapshot(db, key, kp.address, kp.privateKey, backend, "sess");
+
+      assert.equal(result.factCount, 2);
+      assert.equal(result.version, 5);
+      assert.equal(backend.uploads.length, 1);
+      const tagMap = new Map(backend.uploads[0].tags.map((t) => [t.name, t.value]));
+      assert.equal(tagMap.get("Type"), "snapshot");
+      assert.equal(tagMap.get("Snapshot-Part"), "1/1");
+
+      const shard = deserializeShard(decrypt(backend.uploads[0].data, key));
+      const facts = replayShards([shard]);
+      assert.deepEqual(facts.map((f) => f.key).sort(), ["a", "b"]);
+
+      assert.deepEqual(getDirtyFacts(db), []);
+      assert.deepEqual(getPendingDeletes(db), []);
+      assert.equal(getMeta(db, "current_version"), "5");
+      assert.equal(getMeta(db, "last_snapshot_version"), "5");
+      db.close();
+    });
+
+    it("becomes due after enough delta pushes", () => {
+      const db = openDatabase(join(mkdtempSync(join(tmpdir(), "sharedcontext-test-")), "test.db"));
+      assert.equal(isSnapshotDue(db), false);
+      recordDeltaPush(db, SNAPSHOT_DELTA_THRESHOLD - 1, 100);
+      assert.equal(isSnapshotDue(db), false);
+      recordDeltaPush(db, 1, 100);
+      assert.equal(isSnapshotDue(db), true);
+      db.close();
+    });
+  });
+
+  describe("applyRemoteShards", () => {
+    const later = "999999999999999:00000:other-device";
+    const earlier = "000000000000001:00000:other-device";
+
+    function freshDb() {
+      return openDatabase(join(mkdtempSync(join(tmpdir(), "sharedcontext-pull-")), "test.db"));
+    }
+
+    function localFact(key: string, value: string) {
+      const now = new Date().toISOString();
+      return {
+        id: `id-${key}`,
+        scope: "global",
+        key,
+        value,
+        tags: [],
+        confidence: 1.0,
+        source_session: null,
+        created: now,
+        last_confirmed: now,
+        access_count: 3,
+      };
+    }
+
+    it("applies remote changes without marking them dirty", () => {
+      const db = freshDb();
+      upsertFact(db, localFact("gone", "old"));
+      setMeta(db, "current_version", "1");
+      db.prepare("UPDATE facts SET dirty = 0").run();
+
+      const result = applyRemoteShards(db, [
+        createShard(
+          [
+            { op: "upsert", key: "new", value: "from laptop", tags: ["x"], scope: "global", hlc: later },
+            { op: "delete", key: "gone", hlc: later },
+          ],
+          2,
+          "remote-session",
+          "other-device"
+        ),
+      ]);
+
+      assert.deepEqual(result, { upserted: 1, deleted: 1 });
+      assert.equal(getFact(db, "new")!.value, "from laptop");
+      assert.equal(getFact(db, "new")!.hlc, later);
+      assert.equal(getFact(db, "gone"), null);
+      assert.equal(getDirtyFacts(db).length, 0);
+      assert.deepEqual(getPendingDeletes(db), []);
+      db.close();
+    });
+
+    it("keeps newer local edits and local bookkeeping", () => {
+      const db = freshDb();
+      upsertFact(db, localFact("k", "local edit"));
+
+      applyRemoteShards(db, [
+        createShard([{ op: "upsert", key: "k", value: "stale", tags: [], hlc: earlier }], 2, "s", "other-device"),
+      ]);
+      assert.equal(getFact(db, "k")!.value, "local edit");
+      assert.equal(getDirtyFacts(db).length, 1);
+
+      applyRemoteShards(db, [
+        createShard([{ op: "upsert", key: "k", value: "newer", tags: [], hlc: later }], 3, "s", "other-device"),
+      ]);
+      const fact = getFact(db, "k")!;
+      assert.equal(fact.value, "newer");
+      assert.equal(fact.id, "id-k");
+      assert.equal(fact.access_count, 3);
+      db.close();
+    });
+
+    it("skips shards this device pushed", () => {
+      const db = freshDb();
+      const own = createShard([{ op: "upsert", key: "k", value: "echo", tags: [] }], 1, "s", getDeviceId(db));
+      assert.deepEqual(applyRemoteShards(db, [own]), { upserted: 0, deleted: 0 });
+      assert.equal(getFact(db, "k"), null);
+      db.close();
+    });
+  });
+
+  describe("pullConversations cache", () => {
+    const kp = generateKeypair();
+    const key = deriveKey("cache-pass", generateSalt());
+
+    function conversation(messages: number): Conversation {
+      return {
+        id: "conv-1",
+        client: "claude-code",
+        project: "app",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T01:00:00.000Z",
+        messages: Array.from({ length: messages }, (_, i) => ({
+          role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+          content: `message ${i}`,
+        })),
+      };
+    }
+
+    /** Counts downloads made through a reader. */
+    function counting(reader: StorageReader, fetched: string[]): StorageReader {
+      return {
+        queryByTags: (filters, options) => reader.queryByTags(filters, options),
+        fetchTags: (txId) => reader.fetchTags(txId),
+        fetchData: (txId, maxBytes) => {
+          fetched.push(txId);
+          return reader.fetchData(txId, maxBytes);
+        },
+      };
+    }
+
+    it("downloads each upload once and only new ones afterwards", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "sharedcontext-test-"));
+      const db = openDatabase(join(dir, "test.db"));
+      const storage = new LocalDirectoryBackend({ directory: join(dir, "storage") });
+      const fetched: string[] = [];
+      const reader = counting(storage, fetched);
+
+      enqueueConversationDelta(db, conversation(2), key, kp.address, kp.privateKey);
+      await flushOutbox(db, storage);
+      const [first] = await pullConversations(kp.address, key, reader, db);
+      assert.equal(first.messages.length, 2);
+      assert.equal(fetched.length, 1);
+
+      enqueueConversationDelta(db, conversation(4), key, kp.address, kp.privateKey);
+      await flushOutbox(db, storage);
+      const [second] = await pullConversations(kp.address, key, reader, db);
+      assert.deepEqual(
+        second.messages.map((m) => m.content),
+        ["message 0", "message 1", "message 2", "message 3"]
+      );
+      assert.equal(fetched.length, 2);
+
+      await pullConversations(kp.address, key, reader, db);
+      assert.equal(fetched.length, 2);
+      assert.deepEqual(
+        [getConversationCacheStats(db).segments, getConversationCacheStats(db).messages],
+        [2, 4]
+      );
+
+      assert.equal(clearConversationCache(db, "conv-1"), 2);
+      await pullConversations(kp.address, key, reader, db);
+      assert.equal(fetched.length, 4);
+      db.close();
     });
   });
 
@@ -0,0 +1,163 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseClaudeCodeJSONL } from "../core/parsers/claude-code.js";
+import { parseCodexJSONL } from "../core/parsers/codex.js";
+import { parseCursorTranscript } from "../core/parsers/cursor.js";
+import { toolCallFromInput } from "../core/parsers/tools.js";
+import { getRedactionRules, redactMessage } from "../core/redact.js";
+
+const CLAUDE_SESSION = [
+  { type: "user", timestamp: "2026-04-01T09:00:00.000Z", message: { role: "user", content: "Fix the flaky login test" } },
+  {
+    type: "assistant",
+    timestamp: "2026-04-01T09:00:01.000Z",
+    message: {
+      content: [
+        { type: "text", text: "Let me look at the test." },
+        { type: "tool_use", id: "toolu_1", name: "Read", input: { file_path: "src/auth/login.test.ts" } },
+      ],
+    },
+  },
+  {
+    type: "user",
+    timestamp: "2026-04-01T09:00:02.000Z",
+    message: { content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "describe('login', ..." }] },
+  },
+  {
+    type: "assistant",
+    timestamp: "2026-04-01T09:00:03.000Z",
+    message: {
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_2",
+          name: "Bash",
+          input: { command: "npm test -- login", description: "Run the login tests" },
+        },
+      ],
+    },
+  },
+  {
+    type: "user",
+    timestamp: "2026-04-01T09:00:04.000Z",
+    message: {
+      content: [{ type: "tool_result", tool_use_id: "toolu_2", is_error: true, content: [{ type: "text", text: "1 failing" }] }],
+    },
+  },
+  {
+    type: "assistant",
+    timestamp: "2026-04-01T09:00:05.000Z",
+    message: { content: [{ type: "text", text: "The clock was not mocked; fixed." }] },
+  },
+]
+  .map((line) => JSON.stringify(line))
+  .join("\n");
+
+describe("tool call capture", () => {
+  it("is off by default and does not change the messages", () => {
+    const plain = parseClaudeCodeJSONL(CLAUDE_SESSION, "s1", "app");
+    const withTools = parseClaudeCodeJSONL(CLAUDE_SESSION, "s1", "app", { includeTools: true });
+
+    assert.ok(plain.messages.every((m) => m.tools === undefined));
+    assert.deepEqual(
+      withTools.messages.map((m) => [m.role, m.content]),
+      plain.messages.map((m) => [m.role, m.content])
+    );
+  });
+
+  it("keeps Claude Code tool calls with their results on the message they follow", () => {
+    const conversation = parseClaudeCodeJSONL(CLAUDE_SESSION, "s1", "app", { includeTools: true });
+    assert.equal(conversation.messages.length, 2);
+    assert.deepEqual(conversation.messages[1].tools, [
+      {
+        name: "Read",
+        input: "src/auth/login.test.ts",
+        files: ["src/auth/login.test.ts"],
+        result: "describe('login', ...",
+      },
+      { name: "Bash", input: "npm test -- login", result: "1 failing", isError: true },
+    ]);
+  });
+
+  it("reads Codex function calls, apply_patch edits and their outputs", () => {
+    const item = (payload: Record<string, unknown>) =>
+      JSON.stringify({ timestamp: "2026-04-01T10:00:00.000Z", type: "response_item", payload });
+    const text = [
+      item({ type: "message", role: "user", content: [{ type: "input_text", text: "Rename the flag" }] }),
+      item({
+        type: "function_call",
+        name: "shell",
+        call_id: "c1",
+        arguments: JSON.stringify({ command: ["rg", "-l", "oldFlag"] }),
+      }),
+      item({
+        type: "function_call_output",
+        call_id: "c1",
+        output: JSON.stringify({ output: "src/flags.ts\n", metadata: { exit_code: 0 } }),
+      }),
+      item({
+        type: "custom_tool_call",
+        name: "apply_patch",
+        call_id: "c2",
+        input: "*** Begin Patch\n*** Update File: src/flags.ts\n@@\n-oldFlag\n+newFlag\n*** End Patch",
+      }),
+      item({ type: "message", role: "assistant", content: [{ type: "output_text", text: "Renamed." }] }),
+    ].join("\n");
+
+    const conversation = parseCodexJSONL(text, "c", "app", { includeTools: true });
+    assert.deepEqual(conversation.messages[0].tools, [
+      { name: "shell", input: "rg -l oldFlag", result: "src/flags.ts" },
+      { name: "apply_patch", input: "src/flags.ts", files: ["src/flags.ts"] },
+    ]);
+    assert.equal(conversation.messages[1].tools, undefined);
+  });
+
+  it("reads tool blocks from Cursor text transcripts", () => {
+    const transcript = [
+      "user:",
+      "<user_query>",
+      "Where is the retry limit set?",
+      "</user_query>",
+      "",
+      "assistant:",
+      "Searching.",
+      "[Tool call] Grep",
+      "  pattern: MAX_RETRIES",
+      "",
+      "[Tool result] Grep",
+      "src/queue/config.ts:3:export const MAX_RETRIES = 5",
+      "",
+      "assistant:",
+      "It is in src/queue/config.ts.",
+    ].join("\n");
+
+    const plain = parseCursorTranscript(transcript, "t", "app");
+    const conversation = parseCursorTranscript(transcript, "t", "app", { includeTools: true });
+    assert.deepEqual(
+      conversation.messages.map((m) => m.content),
+      plain.messages.map((m) => m.content)
+    );
+    assert.deepEqual(conversation.messages[1].tools, [
+      { name: "Grep", input: "MAX_RETRIES", result: "src/queue/config.ts:3:export const MAX_RETRIES = 5" },
+    ]);
+  });
+
+  it("summarizes unknown inputs and truncates long ones", () => {
+    assert.deepEqual(toolCallFromInput("Todo", { items: 3 }), { name: "Todo", input: '{"items":3}' });
+    const long = toolCallFromInput("Bash", { command: "x".repeat(500) });
+    assert.equal(long.input?.length, 201);
+  });
+
+  it("masks secrets in tool inputs and results", () => {
+    const { message, findings } = redactMessage(
+      {
+        role: "assistant",
+        content: "Checking the env.",
+        tools: [{ name: "Bash", input: "cat .env", result: "DB_PASSWORD=correct-horse-battery" }],
+      },
+      getRedactionRules({})
+    );
+    assert.equal(message.tools?.[0].result, "DB_PASSWORD=[REDACTED:env-secret]");
+    assert.deepEqual(findings.map((f) => f.rule), ["env-secret"]);
+  });
+});
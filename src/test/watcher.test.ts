@@ -0,0 +1,222 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { ConversationWatcher } from "../core/watcher.js";
+import { createMappedJsonlSource, type ConversationSource } from "../core/sources.js";
+import { getMetaKeys, openDatabase, setMeta } from "../core/db.js";
+import { parseClaudeCodeJSONL } from "../core/parsers/claude-code.js";
+import type { Conversation } from "../types.js";
+
+function line(role: string, content: string): string {
+  return JSON.stringify({ role, content }) + "\n";
+}
+
+/** Wraps a source to record the text handed to each parse. */
+function recording(source: ConversationSource, parsed: string[]): ConversationSource {
+  return {
+    ...source,
+    parse(text, file) {
+      parsed.push(text);
+      return source.parse(text, file);
+    },
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("timed out waiting for the watcher");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+/** One poll: start() scans immediately, stop() cancels the interval and watchers. */
+function poll(watcher: ConversationWatcher): void {
+  watcher.start();
+  watcher.stop();
+}
+
+describe("ConversationWatcher", () => {
+  let dir: string;
+  let file: string;
+  let parsed: string[];
+  let seen: Conversation[];
+  let source: ConversationSource;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sharedcontext-watcher-"));
+    file = join(dir, "logs", "session.jsonl");
+    mkdirSync(join(dir, "logs"));
+    parsed = [];
+    seen = [];
+    source = recording(
+      createMappedJsonlSource({
+        client: "test-agent",
+        directory: join(dir, "logs"),
+        fields: { role: "role", content: "content" },
+      }),
+      parsed
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("parses only lines appended since the last poll", () => {
+    writeFileSync(file, line("user", "Why is CI slow?") + line("assistant", "Cold cache."));
+    const watcher = new ConversationWatcher((c) => seen.push(c), { mode: "poll", sources: [source] });
+
+    poll(watcher);
+    assert.equal(seen.length, 1);
+    assert.equal(seen[0].messages.length, 2);
+
+    appendFileSync(file, line("user", "Can we warm it?") + '{"role":"assis');
+    poll(watcher);
+    assert.equal(parsed[1], line("user", "Can we warm it?"));
+    assert.deepEqual(
+      seen[1].messages.map((m) => m.content),
+      ["Why is CI slow?", "Cold cache.", "Can we warm it?"]
+    );
+
+    appendFileSync(file, 'tant","content":"Yes, nightly."}\n');
+    poll(watcher);
+    assert.equal(parsed[2], line("assistant", "Yes, nightly."));
+    assert.equal(seen[2].messages.length, 4);
+    assert.equal(seen[2].messages[3].content, "Yes, nightly.");
+  });
+
+  it("merges an appended message into the previous one from the same role", () => {
+    writeFileSync(file, line("user", "Deploy?") + line("assistant", "Checking."));
+    const watcher = new ConversationWatcher((c) => seen.push(c), { mode: "poll", sources: [source] });
+    poll(watcher);
+
+    appendFileSync(file, line("assistant", "Green, deploying."));
+    poll(watcher);
+    assert.deepEqual(
+      seen[1].messages.map((m) => m.content),
+      ["Deploy?", "Checking.\n\nGreen, deploying."]
+    );
+  });
+
+  it("reparses the whole file when it shrinks or is rewritten", () => {
+    writeFileSync(file, line("user", "first question") + line("assistant", "first answer"));
+    const watcher = new ConversationWatcher((c) => seen.push(c), { mode: "poll", sources: [source] });
+    poll(watcher);
+
+    writeFileSync(file, line("user", "new"));
+    poll(watcher);
+    assert.deepEqual(seen[1].messages.map((m) => m.content), ["new"]);
+
+    // Longer than the consumed offset, but the bytes before it changed.
+    writeFileSync(file, line("user", "NEW") + line("assistant", "rewritten answer"));
+    poll(watcher);
+    assert.equal(parsed[2], line("user", "NEW") + line("assistant", "rewritten answer"));
+    assert.deepEqual(seen[2].messages.map((m) => m.content), ["NEW", "rewritten answer"]);
+  });
+
+  it("remembers unchanged files across restarts", () => {
+    const db = openDatabase(join(dir, "test.db"));
+    writeFileSync(file, line("user", "remember me") + line("assistant", "ok"));
+
+    poll(new ConversationWatcher((c) => seen.push(c), { mode: "poll", sources: [source], db }));
+    assert.equal(seen.length, 1);
+
+    // Unchanged file after a restart: not read at all.
+    const restarted = new ConversationWatcher((c) => seen.push(c), { mode: "poll", sources: [source], db });
+    poll(restarted);
+    assert.equal(seen.length, 1);
+    assert.equal(parsed.length, 1);
+
+    // Grown after a restart: parsed once in full to rebuild the conversation.
+    appendFileSync(file, line("user", "still there?"));
+    poll(restarted);
+    assert.equal(seen.length, 2);
+    assert.equal(seen[1].messages.length, 3);
+    assert.equal(parsed[1], readFileSync(file, "utf-8"));
+    db.close();
+  });
+
+  it("prunes persisted entries for files that are gone", () => {
+    const db = openDatabase(join(dir, "test.db"));
+    writeFileSync(file, line("user", "short-lived"));
+    setMeta(db, `watcher_offset:${file}`, "{}");
+
+    const watcher = new ConversationWatcher((c) => seen.push(c), { mode: "poll", sources: [source], db });
+    poll(watcher);
+    assert.deepEqual(getMetaKeys(db, "watcher_"), [`watcher_file:${file}`]);
+
+    rmSync(file);
+    poll(watcher);
+    assert.deepEqual(getMetaKeys(db, "watcher_"), []);
+    db.close();
+  });
+
+  it("keeps tool results with calls read in an earlier poll", () => {
+    const claudeSource: ConversationSource = {
+      ...source,
+      parse: (text, ref, options) => parseClaudeCodeJSONL(text, ref.fileId, ref.project, options),
+    };
+    const entry = (type: string, content: unknown) =>
+      JSON.stringify({ type, timestamp: "2026-04-01T09:00:00.000Z", message: { role: type, content } }) + "\n";
+    writeFileSync(
+      file,
+      entry("user", "Run the tests") +
+        entry("assistant", [{ type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "npm test" } }])
+    );
+    const watcher = new ConversationWatcher((c) => seen.push(c), {
+      mode: "poll",
+      sources: [claudeSource],
+      parseOptions: { includeTools: true },
+    });
+    poll(watcher);
+    assert.deepEqual(seen[0].messages[0].tools, [{ name: "Bash", input: "npm test" }]);
+
+    appendFileSync(file, entry("user", [{ type: "tool_result", tool_use_id: "toolu_1", content: "3 passing" }]));
+    poll(watcher);
+    assert.deepEqual(seen[1].messages[0].tools, [{ name: "Bash", input: "npm test", result: "3 passing" }]);
+  });
+
+  describe("event-driven mode", () => {
+    it("reads appended lines when fs.watch reports them", async () => {
+      writeFileSync(file, line("user", "ping"));
+      const watcher = new ConversationWatcher((c) => seen.push(c), { sources: [source] });
+      watcher.start();
+      try {
+        assert.equal(watcher.isWatching(), true);
+        assert.equal(seen.length, 1);
+
+        appendFileSync(file, line("assistant", "pong"));
+        await waitFor(() => seen.length === 2);
+        assert.deepEqual(seen[1].messages.map((m) => m.content), ["ping", "pong"]);
+      } finally {
+        watcher.stop();
+      }
+      assert.equal(watcher.isWatching(), false);
+    });
+
+    it("starts watching a source directory created after start", async () => {
+      const later = join(dir, "later", "logs");
+      const lateSource = createMappedJsonlSource({
+        client: "late-agent",
+        directory: later,
+        fields: { role: "role", content: "content" },
+      });
+      const watcher = new ConversationWatcher((c) => seen.push(c), { sources: [lateSource] });
+      watcher.start();
+      try {
+        mkdirSync(join(later, "project"), { recursive: true });
+        writeFileSync(join(later, "project", "run.jsonl"), line("user", "hello from a new dir"));
+        await waitFor(() => seen.length === 1);
+        assert.equal(seen[0].project, "project");
+
+        appendFileSync(join(later, "project", "run.jsonl"), line("assistant", "hi"));
+        await waitFor(() => seen.length === 2);
+      } finally {
+        watcher.stop();
+      }
+    });
+  });
+});
@@ -9,6 +9,7 @@ export interface Fact {
   created: string; // ISO 8601
   last_confirmed: string; // ISO 8601
   access_count: number;
+  hlc?: string; // hybrid logical clock of the last change (see core/hlc.ts)
 }
 
 export interface ShardOperation {
@@ -20,28 +21,88 @@ export interface ShardOperation {
   tags?: string[];
   scope?: string;
   confidence?: number;
+  // Hybrid logical clock of the change; newest wins when devices diverge
+  hlc?: string;
 }
 
 export interface Shard {
   shard_version: number;
   timestamp: string; // ISO 8601
   session_id: string;
+  device_id?: string; // device that pushed the shard
+  /** Snapshots: highest delta version from each device the state includes. */
+  covers?: Record<string, number>;
   operations: ShardOperation[];
 }
 
+export interface ConflictCandidate {
+  device_id: string | null;
+  session_id: string;
+  op: "upsert" | "delete";
+  value?: string;
+  tags?: string[];
+  scope?: string;
+  confidence?: number;
+  hlc?: string;
+}
+
+/**
+ * A key changed differently by two devices that pushed the same shard version.
+ */
+export interface FactConflict {
+  key: string;
+  shard_version: number;
+  candidates: ConflictCandidate[];
+  winner: number; // index into candidates chosen by the merge rule
+}
+
 // ── Conversation types ───────────────────────────────────
 
+/** AI clients with a built-in conversation source (see core/sources.ts). */
+export const CONVERSATION_CLIENTS = ["cursor", "claude-code", "codex"] as const;
+export type BuiltinConversationClient = (typeof CONVERSATION_CLIENTS)[number];
+/** A built-in client, or the id of a source configured in config.json. */
+export type ConversationClient = BuiltinConversationClient | (string & {});
+
+// Client ids travel in tags and share payloads; keep them short and plain.
+const CLIENT_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+export function isConversationClient(value: unknown): value is ConversationClient {
+  return typeof value === "string" && CLIENT_ID_PATTERN.test(value);
+}
+
 export interface ConversationMessage {
   role: "user" | "assistant" | "tool";
   content: string;
   timestamp?: string; // ISO 8601 if available
+  // Tool calls made after this message's text, before the next message.
+  // Only captured when captureToolCalls is on in config.json.
+  tools?: ConversationToolCall[];
+}
+
+export interface ConversationToolCall {
+  name: string; // tool name as the client reports it, e.g. "Edit", "shell"
+  input?: string; // short summary: the command, pattern or file path
+  result?: string; // excerpt of the output
+  isError?: boolean;
+  files?: string[]; // paths the call read or wrote
 }
 
 export interface Conversation {
   id: string; // session/file ID
-  client: "cursor" | "claude-code";
+  client: ConversationClient;
   project: string; // folder name
   messages: ConversationMessage[];
   startedAt: string; // ISO 8601
   updatedAt: string; // ISO 8601
 }
+
+export interface ConversationSummary {
+  decisions: string[];
+  openQuestions: string[];
+  files: string[];
+  method: "extractive" | "sampling";
+  messageCount: number; // messages covered
+  contentHash: string; // hash of the messages covered; any change gets a new summary
+  createdAt: string; // ISO 8601
+}